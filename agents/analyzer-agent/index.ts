@@ -84,6 +84,9 @@ export class AnalyzerAgent {
     
     // 批量分析
     this.communication.registerHandler('batch_analyze', this.handleBatchAnalyze.bind(this));
+    
+    // 同步查询风险告警
+    this.communication.registerQueryHandler('get_risk_alerts', async (data) => this.queryRiskAlerts(data));
   }
 
   private async handleHealthCheck(message: AgentMessage): Promise<void> {
@@ -249,24 +252,43 @@ export class AnalyzerAgent {
   }
 
   private async handleGetRiskAlerts(message: AgentMessage): Promise<void> {
-    const { severity, limit = 50, offset = 0 } = message.data;
+    await this.sendResponse(message, this.queryRiskAlerts(message.data));
+  }
+
+  private queryRiskAlerts(filter: any) {
+    const { severity, entity, news_ids, since, limit = 50, offset = 0 } = filter || {};
     
     let alerts = this.riskAlerts;
     
     // 按严重程度过滤
     if (severity) {
-      alerts = alerts.filter(alert => alert.severity === severity);
+      const severities: string[] = Array.isArray(severity) ? severity : [severity];
+      alerts = alerts.filter(alert => severities.includes(alert.severity));
+    }
+    
+    // 按关联实体或新闻过滤
+    if (entity || news_ids) {
+      const newsIds: string[] = news_ids || [];
+      alerts = alerts.filter(alert =>
+        (entity && alert.related_entities.includes(entity)) || newsIds.includes(alert.news_id)
+      );
+    }
+    
+    // 按时间过滤
+    if (since) {
+      const sinceTime = new Date(since).getTime();
+      alerts = alerts.filter(alert => alert.created_at.getTime() >= sinceTime);
     }
     
     // 分页
     const paginatedAlerts = alerts.slice(offset, offset + limit);
     
-    await this.sendResponse(message, { 
+    return {
       alerts: paginatedAlerts,
       total: alerts.length,
       offset,
       limit
-    });
+    };
   }
 
   private async handleBatchAnalyze(message: AgentMessage): Promise<void> {
@@ -1,3 +0,0 @@
-import { AnalyzerAgent } from './index';
-export { AnalyzerAgent };
-//# sourceMappingURL=main.d.ts.map
\ No newline at end of file
@@ -0,0 +1,263 @@
+// 采集调度器：按 CollectionTask.schedule 的 cron 表达式定时执行采集
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseExpression } from 'cron-parser';
+import { CollectionTask } from '../../shared/types';
+import { LoggerUtils } from '../../shared/utils';
+import { containsRedactedSecrets, redactSecrets } from './collectors/secrets';
+
+// skip: 跳过停机期间错过的执行；run_once: 启动后立即补采一次
+export type CatchUpPolicy = 'skip' | 'run_once';
+
+export interface CollectionSchedulerOptions {
+  state_path: string | null; // 为 null 时不持久化
+  timezone: string;
+  max_jitter_ms: number; // 实际抖动不超过调度间隔的10%
+  catch_up: CatchUpPolicy;
+  max_concurrent: number;
+  tick_interval_ms: number;
+}
+
+export type CollectionRunner = (task: CollectionTask) => Promise<void>;
+
+interface PersistedTask {
+  id: string;
+  source_type: CollectionTask['source_type'];
+  source_config: any;
+  schedule: string;
+  enabled: boolean;
+  last_run?: string;
+  last_success?: string;
+  next_run?: string;
+}
+
+const DEFAULT_OPTIONS: CollectionSchedulerOptions = {
+  state_path: './data/collector-schedule.json',
+  timezone: 'Asia/Shanghai',
+  max_jitter_ms: 30000,
+  catch_up: 'run_once',
+  max_concurrent: 5,
+  tick_interval_ms: 1000
+};
+
+export class CollectionScheduler {
+  private options: CollectionSchedulerOptions;
+  private runner: CollectionRunner;
+  private tasks: Map<string, CollectionTask> = new Map();
+  private running: Set<string> = new Set();
+  private triggered: Set<string> = new Set(); // 执行期间被触发的任务，结束后再执行一次
+  private tickTimer: NodeJS.Timeout | null = null;
+  private logger = LoggerUtils;
+
+  constructor(runner: CollectionRunner, options: Partial<CollectionSchedulerOptions> = {}) {
+    this.runner = runner;
+    // 未设置的选项使用默认值
+    const provided = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+    this.options = { ...DEFAULT_OPTIONS, ...provided };
+  }
+
+  // 读取上次运行保存的采集任务，按补采策略修正 next_run
+  restore(): CollectionTask[] {
+    const restored: CollectionTask[] = [];
+
+    for (const persisted of this.readState()) {
+      const task: CollectionTask = {
+        id: persisted.id,
+        source_type: persisted.source_type,
+        source_config: persisted.source_config,
+        schedule: persisted.schedule,
+        enabled: persisted.enabled,
+        last_run: persisted.last_run ? new Date(persisted.last_run) : undefined,
+        last_success: persisted.last_success ? new Date(persisted.last_success) : undefined,
+        next_run: persisted.next_run ? new Date(persisted.next_run) : undefined
+      };
+
+      if (containsRedactedSecrets(task.source_config)) {
+        this.logger.warn('Restored source has redacted secrets, configure them as ${VAR} environment references', {
+          source_id: task.id
+        });
+      }
+
+      if (task.next_run && task.next_run.getTime() < Date.now()) {
+        const missed = task.next_run;
+        task.next_run = this.options.catch_up === 'run_once' ? new Date() : this.computeNextRun(task.schedule);
+        this.logger.info('Missed scheduled collection', {
+          source_id: task.id,
+          missed_run: missed,
+          catch_up: this.options.catch_up,
+          next_run: task.next_run
+        });
+      }
+
+      this.tasks.set(task.id, task);
+      restored.push(task);
+    }
+
+    return restored;
+  }
+
+  // 登记或更新任务；已有 next_run 时保留，否则按 cron 计算
+  schedule(task: CollectionTask): void {
+    // 校验表达式，无效时直接抛出
+    parseExpression(task.schedule, { tz: this.options.timezone });
+
+    if (!task.next_run) {
+      task.next_run = this.computeNextRun(task.schedule);
+    }
+
+    this.tasks.set(task.id, task);
+    this.persist();
+  }
+
+  unschedule(taskId: string): void {
+    this.triggered.delete(taskId);
+    if (this.tasks.delete(taskId)) {
+      this.persist();
+    }
+  }
+
+  // 手动执行后记录运行时间并重新计算下一次执行
+  markRun(task: CollectionTask, runAt: Date = new Date()): void {
+    task.last_run = runAt;
+    task.next_run = this.computeNextRun(task.schedule, runAt);
+    this.persist();
+  }
+
+  // 让任务在下一次检查时立即执行，例如监听到采集源有新内容；正在执行时等本次结束后再执行
+  trigger(taskId: string): void {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return;
+    }
+
+    if (this.running.has(taskId)) {
+      this.triggered.add(taskId);
+    } else {
+      task.next_run = new Date();
+    }
+  }
+
+  start(): void {
+    if (this.tickTimer) {
+      return;
+    }
+
+    this.tickTimer = setInterval(() => this.tick(), this.options.tick_interval_ms);
+    this.logger.info('Collection scheduler started', {
+      tasks: this.tasks.size,
+      timezone: this.options.timezone,
+      catch_up: this.options.catch_up
+    });
+  }
+
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.persist();
+    this.logger.info('Collection scheduler stopped');
+  }
+
+  isRunning(taskId: string): boolean {
+    return this.running.has(taskId);
+  }
+
+  // 检查到期任务，按 next_run 先后执行，受并发上限约束
+  async tick(now: Date = new Date()): Promise<void> {
+    const due = Array.from(this.tasks.values())
+      .filter(task => task.enabled && task.next_run && task.next_run.getTime() <= now.getTime() && !this.running.has(task.id))
+      .sort((a, b) => a.next_run!.getTime() - b.next_run!.getTime());
+
+    const runs: Promise<void>[] = [];
+    for (const task of due) {
+      if (this.running.size >= this.options.max_concurrent) {
+        break;
+      }
+      runs.push(this.execute(task, now));
+    }
+
+    await Promise.all(runs);
+  }
+
+  computeNextRun(schedule: string, after: Date = new Date()): Date {
+    const interval = parseExpression(schedule, { currentDate: after, tz: this.options.timezone });
+    const first = interval.next().toDate();
+    const second = interval.next().toDate();
+
+    // 随机抖动，避免同一时刻大量源同时请求
+    const period = second.getTime() - first.getTime();
+    const jitter = Math.random() * Math.min(this.options.max_jitter_ms, period * 0.1);
+    return new Date(first.getTime() + jitter);
+  }
+
+  private async execute(task: CollectionTask, startedAt: Date): Promise<void> {
+    this.running.add(task.id);
+
+    try {
+      await this.runner(task);
+    } catch (error) {
+      this.logger.error('Scheduled collection failed', {
+        source_id: task.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.running.delete(task.id);
+      // 任务可能在执行期间被移除
+      if (this.tasks.has(task.id)) {
+        this.markRun(task, startedAt);
+        if (this.triggered.delete(task.id)) {
+          task.next_run = new Date();
+        }
+      }
+    }
+  }
+
+  private readState(): PersistedTask[] {
+    if (!this.options.state_path || !fs.existsSync(this.options.state_path)) {
+      return [];
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.options.state_path, 'utf8'));
+      return Array.isArray(data.tasks) ? data.tasks : [];
+    } catch (error) {
+      this.logger.warn('Failed to read collection schedule state', {
+        file: this.options.state_path,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+
+  private persist(): void {
+    if (!this.options.state_path) {
+      return;
+    }
+
+    const tasks: PersistedTask[] = Array.from(this.tasks.values()).map(task => ({
+      id: task.id,
+      source_type: task.source_type,
+      // 明文密钥只保存在内存中，使用 ${变量名} 引用的密钥重启后仍可用
+      source_config: redactSecrets(task.source_config),
+      schedule: task.schedule,
+      enabled: task.enabled,
+      last_run: task.last_run?.toISOString(),
+      last_success: task.last_success?.toISOString(),
+      next_run: task.next_run?.toISOString()
+    }));
+
+    try {
+      const filePath = path.resolve(this.options.state_path);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ updated_at: new Date().toISOString(), tasks }, null, 2));
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      this.logger.warn('Failed to persist collection schedule state', {
+        file: this.options.state_path,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -0,0 +1,212 @@
+// API认证：OAuth2 客户端凭证令牌的获取、缓存与刷新，以及查询串 HMAC 签名
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { LoggerUtils } from '../../../shared/utils';
+import { evaluatePath } from './field-mapping';
+
+export interface APIAuthConfig {
+  type: 'bearer' | 'basic' | 'apikey' | 'oauth2' | 'hmac';
+  token?: string;
+  username?: string;
+  password?: string;
+  apikey?: string;
+  header?: string;
+  // oauth2：客户端凭证模式 (client_credentials)
+  token_url?: string;
+  client_id?: string;
+  client_secret?: string;
+  scope?: string;
+  client_auth?: 'basic' | 'body'; // 客户端凭证放在 Authorization 头还是表单中，默认 basic
+  token_path?: string; // 令牌对象在响应中的路径，例如 'data'，默认为响应根
+  // hmac：在查询串中加入 apikey、时间戳、随机数和签名
+  secret?: string;
+  key_param?: string; // apikey 的参数名，默认 'app_key'
+  timestamp_param?: string; // 默认 'timestamp'
+  nonce_param?: string; // 默认 'nonce'
+  signature_param?: string; // 默认 'sign'
+  algorithm?: 'sha256' | 'sha1' | 'md5'; // 默认 sha256
+  signature_encoding?: 'hex' | 'base64'; // 默认 hex
+  timestamp_unit?: 's' | 'ms'; // 默认秒
+}
+
+export interface AuthorizedRequest {
+  headers: Record<string, string>;
+  params: Record<string, any>;
+}
+
+export class APIAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'APIAuthError';
+  }
+}
+
+interface CachedToken {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  expires_at: number;
+}
+
+// 提前一分钟视为过期，避免令牌在请求途中失效
+const EXPIRY_MARGIN_MS = 60000;
+// 响应未给出 expires_in 时的有效期
+const DEFAULT_TOKEN_TTL_MS = 3600000;
+
+export class APIAuthenticator {
+  private timeout: number;
+  private tokens: Map<string, CachedToken> = new Map();
+  // 同一令牌的并发请求共用一次获取
+  private pending: Map<string, Promise<CachedToken>> = new Map();
+  private logger = LoggerUtils;
+
+  constructor(timeout: number = 30000) {
+    this.timeout = timeout;
+  }
+
+  // 返回需要合并到请求上的头和查询参数；签名需覆盖全部查询参数，因此传入原有参数
+  async authorize(auth: APIAuthConfig, params: Record<string, any> = {}): Promise<AuthorizedRequest> {
+    switch (auth.type) {
+      case 'oauth2': {
+        const token = await this.getToken(auth);
+        return { headers: { Authorization: `${formatTokenType(token.token_type)} ${token.access_token}` }, params };
+      }
+      case 'hmac':
+        return { headers: {}, params: this.sign(auth, params) };
+      default:
+        return { headers: {}, params };
+    }
+  }
+
+  // 服务端返回 401 时调用，下次请求会刷新令牌
+  invalidate(auth: APIAuthConfig): void {
+    const cached = this.tokens.get(tokenKey(auth));
+    if (cached) {
+      // 保留 refresh_token，优先用它换取新令牌
+      cached.expires_at = 0;
+    }
+  }
+
+  clearTokens(): void {
+    this.tokens.clear();
+  }
+
+  sign(auth: APIAuthConfig, params: Record<string, any> = {}): Record<string, any> {
+    if (!auth.secret) {
+      throw new APIAuthError('HMAC auth requires secret');
+    }
+
+    const signatureParam = auth.signature_param || 'sign';
+    const signed: Record<string, any> = { ...params };
+    if (auth.apikey) {
+      signed[auth.key_param || 'app_key'] = auth.apikey;
+    }
+    signed[auth.timestamp_param || 'timestamp'] = auth.timestamp_unit === 'ms'
+      ? Date.now()
+      : Math.floor(Date.now() / 1000);
+    signed[auth.nonce_param || 'nonce'] = randomBytes(8).toString('hex');
+    delete signed[signatureParam];
+
+    signed[signatureParam] = createHmac(auth.algorithm || 'sha256', auth.secret)
+      .update(canonicalQuery(signed))
+      .digest(auth.signature_encoding || 'hex');
+
+    return signed;
+  }
+
+  private async getToken(auth: APIAuthConfig): Promise<CachedToken> {
+    const key = tokenKey(auth);
+    const cached = this.tokens.get(key);
+    if (cached && cached.expires_at > Date.now()) {
+      return cached;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.fetchToken(auth, cached?.refresh_token).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+
+    const token = await pending;
+    this.tokens.set(key, token);
+    return token;
+  }
+
+  private async fetchToken(auth: APIAuthConfig, refreshToken?: string): Promise<CachedToken> {
+    if (!auth.token_url || !auth.client_id || !auth.client_secret) {
+      throw new APIAuthError('OAuth2 auth requires token_url, client_id and client_secret');
+    }
+
+    if (refreshToken) {
+      try {
+        return await this.requestToken(auth, { grant_type: 'refresh_token', refresh_token: refreshToken });
+      } catch (error) {
+        this.logger.warn('OAuth2 token refresh failed, requesting a new token', {
+          token_url: auth.token_url,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return this.requestToken(auth, { grant_type: 'client_credentials', ...(auth.scope ? { scope: auth.scope } : {}) });
+  }
+
+  private async requestToken(auth: APIAuthConfig, form: Record<string, string>): Promise<CachedToken> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+
+    if (auth.client_auth === 'body') {
+      form = { ...form, client_id: auth.client_id!, client_secret: auth.client_secret! };
+    } else {
+      headers['Authorization'] = `Basic ${Buffer.from(`${auth.client_id}:${auth.client_secret}`).toString('base64')}`;
+    }
+
+    let data: any;
+    try {
+      const response = await axios.post(auth.token_url!, new URLSearchParams(form).toString(), {
+        headers,
+        timeout: this.timeout
+      });
+      data = response.data;
+    } catch (error) {
+      throw new APIAuthError(`OAuth2 token request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const body = auth.token_path ? evaluatePath(data, auth.token_path) : data;
+    if (!body?.access_token) {
+      throw new APIAuthError('OAuth2 token response has no access_token');
+    }
+
+    const expiresIn = Number(body.expires_in);
+    const ttl = Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn * 1000 : DEFAULT_TOKEN_TTL_MS;
+
+    this.logger.info('OAuth2 token acquired', { token_url: auth.token_url, grant_type: form.grant_type, expires_in: ttl / 1000 });
+
+    return {
+      access_token: String(body.access_token),
+      token_type: body.token_type || 'Bearer',
+      refresh_token: body.refresh_token,
+      expires_at: Date.now() + Math.max(0, ttl - Math.min(EXPIRY_MARGIN_MS, ttl / 2))
+    };
+  }
+}
+
+// 待签名字符串：按参数名排序后以 k=v 用 & 连接，值不做URL编码，空值不参与签名
+export function canonicalQuery(params: Record<string, any>): string {
+  return Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map(key => `${key}=${typeof params[key] === 'object' ? JSON.stringify(params[key]) : params[key]}`)
+    .join('&');
+}
+
+function tokenKey(auth: APIAuthConfig): string {
+  return `${auth.token_url}|${auth.client_id}|${auth.scope || ''}`;
+}
+
+// 部分服务返回小写的 bearer
+function formatTokenType(tokenType: string): string {
+  return tokenType.toLowerCase() === 'bearer' ? 'Bearer' : tokenType;
+}
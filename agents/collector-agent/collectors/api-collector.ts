@@ -1,7 +1,27 @@
 // API采集器
 import axios from 'axios';
 import { NewsItem } from '../../../shared/types';
-import { LoggerUtils } from '../../../shared/utils';
+import { LoggerUtils, NewsDateUtils, NewsIdentityUtils } from '../../../shared/utils';
+import { APIAuthConfig, APIAuthenticator } from './api-auth';
+import { decodeBody } from './charset';
+import { PoliteFetcher } from './polite-fetcher';
+import { evaluatePath, FieldMapping, resolveField } from './field-mapping';
+
+export interface APIPaginationConfig {
+  type: 'page' | 'offset' | 'cursor' | 'link_header';
+  max_pages?: number; // 单次采集最多请求的页数，默认 10
+  page_size?: number;
+  size_param?: string; // 每页数量参数名，例如 'page_size' / 'limit'
+  page_param?: string; // page: 页码参数名，默认 'page'
+  start_page?: number; // page: 起始页码，默认 1
+  offset_param?: string; // offset: 偏移量参数名，默认 'offset'
+  cursor_param?: string; // cursor: 游标参数名，默认 'cursor'
+  cursor_path?: string; // cursor: 下一页游标在响应中的路径，值为完整URL时直接请求该地址
+  has_more_path?: string; // 是否还有下一页的布尔字段路径，例如 'meta.has_more'
+  param_location?: 'query' | 'body'; // 分页参数放在查询串还是 POST 请求体，默认 query
+  stop_at_last_run?: boolean; // 遇到早于上次采集时间的条目时停止翻页，默认 true
+  page_delay_ms?: number; // 翻页间隔
+}
 
 export interface APISourceConfig {
   url: string;
@@ -10,38 +30,40 @@ export interface APISourceConfig {
   headers?: Record<string, string>;
   params?: Record<string, any>;
   data?: any;
-  auth?: {
-    type: 'bearer' | 'basic' | 'apikey';
-    token?: string;
-    username?: string;
-    password?: string;
-    apikey?: string;
-    header?: string;
-  };
-  response_path?: string; // JSON路径，例如 'data.items'
+  auth?: APIAuthConfig;
+  response_path?: string; // JMESPath 表达式，例如 'data.items'、'data.list[?type==`news`]'
+  pagination?: APIPaginationConfig;
+  // 每个字段可以是 JMESPath 表达式（如 'title || headline'），也可以是带模板、拼接和转换的规则
   mapping?: {
-    title?: string;
-    content?: string;
-    url?: string;
-    date?: string;
-    author?: string;
-    id?: string;
+    title?: FieldMapping;
+    content?: FieldMapping;
+    url?: FieldMapping;
+    date?: FieldMapping;
+    author?: FieldMapping;
+    id?: FieldMapping;
   };
   category?: string;
   language?: string;
+  timezone?: string; // 发布时间未带时区时按该时区解释，默认 Asia/Shanghai
   update_frequency?: number;
   max_items?: number;
+  respect_robots?: boolean; // 是否遵守 robots.txt，默认开启；已获授权的接口可关闭
+  proxy?: string; // 代理地址，或 'pool' 表示从共享代理池轮换
   rate_limit?: {
     requests_per_minute: number;
     requests_per_hour: number;
   };
 }
 
+export type PaginationStopReason = 'last_page' | 'max_pages' | 'max_items' | 'reached_last_run' | 'rate_limit' | 'error';
+
 export interface APICollectorResult {
   source: string;
   items: NewsItem[];
   collected_count: number;
   processing_time: number;
+  pages_fetched?: number;
+  stop_reason?: PaginationStopReason;
   error?: string;
   rate_limit_remaining?: {
     per_minute: number;
@@ -49,17 +71,34 @@ export interface APICollectorResult {
   };
 }
 
+export interface APICollectOptions {
+  since?: Date; // 上次采集时间，用于增量同步
+}
+
+interface PageRequest {
+  url: string;
+  params?: Record<string, any>;
+  data?: any;
+}
+
+const DEFAULT_MAX_PAGES = 10;
+
 export class APICollector {
   private userAgent: string;
   private timeout: number;
   private rateLimiter: Map<string, { minute: number[]; hour: number[] }> = new Map();
+  private authenticator: APIAuthenticator;
+  private fetcher?: PoliteFetcher;
 
-  constructor(userAgent: string = 'AI-News-Collector/1.0', timeout: number = 30000) {
+  // 传入 fetcher 时经由共享的礼貌抓取层请求
+  constructor(userAgent: string = 'AI-News-Collector/1.0', timeout: number = 30000, authenticator?: APIAuthenticator, fetcher?: PoliteFetcher) {
     this.userAgent = userAgent;
     this.timeout = timeout;
+    this.authenticator = authenticator || new APIAuthenticator(timeout);
+    this.fetcher = fetcher;
   }
 
-  async collectFromSource(config: APISourceConfig): Promise<APICollectorResult> {
+  async collectFromSource(config: APISourceConfig, options: APICollectOptions = {}): Promise<APICollectorResult> {
     const startTime = Date.now();
     
     try {
@@ -70,26 +109,27 @@ export class APICollector {
         throw new Error('Rate limit exceeded');
       }
       
-      // 获取API数据
-      const response = await this.fetchAPI(config);
+      // 获取API数据，配置了分页时逐页请求
+      // 翻页中途出错时保留已采集的条目，error 记录出错原因
+      const { items: newsItems, pages_fetched, stop_reason, error: pageError } = config.pagination
+        ? await this.collectPages(config, config.pagination, options.since)
+        : await this.collectSinglePage(config);
       
       const processingTime = Date.now() - startTime;
       
-      // 解析API响应
-      const newsItems = await this.parseAPIResponse(response.data, config);
-      
       // 限制条目数量
       const limitedItems = config.max_items 
         ? newsItems.slice(0, config.max_items) 
         : newsItems;
 
-      // 记录速率限制
-      this.recordRateLimit(config.name);
       const rateLimitRemaining = this.getRateLimitRemaining(config.name, config.rate_limit);
       
       LoggerUtils.info('API collection completed', {
         source: config.name,
         collected_count: limitedItems.length,
+        pages_fetched,
+        stop_reason,
+        error: pageError,
         processing_time: processingTime,
         rate_limit_remaining: rateLimitRemaining
       });
@@ -99,6 +139,9 @@ export class APICollector {
         items: limitedItems,
         collected_count: limitedItems.length,
         processing_time: processingTime,
+        pages_fetched,
+        stop_reason,
+        error: pageError,
         rate_limit_remaining: rateLimitRemaining
       };
 
@@ -122,7 +165,214 @@ export class APICollector {
     }
   }
 
-  private async fetchAPI(config: APISourceConfig) {
+  private async collectSinglePage(config: APISourceConfig) {
+    const response = await this.fetchAPI(config);
+    // 记录速率限制
+    this.recordRateLimit(config.name);
+
+    const items = await this.parseAPIResponse(response.data, config);
+    return { items, pages_fetched: 1, stop_reason: undefined, error: undefined };
+  }
+
+  // 逐页请求，直到没有下一页或满足停止条件
+  private async collectPages(config: APISourceConfig, pagination: APIPaginationConfig, since?: Date) {
+    const maxPages = pagination.max_pages || DEFAULT_MAX_PAGES;
+    const stopAtLastRun = pagination.stop_at_last_run !== false && !!since;
+    const items: NewsItem[] = [];
+    let request: PageRequest | null = this.firstPageRequest(config, pagination);
+    let pagesFetched = 0;
+    let stopReason: PaginationStopReason = 'last_page';
+    let error: string | undefined;
+
+    while (request) {
+      if (pagesFetched > 0) {
+        if (!this.checkRateLimit(config.name, config.rate_limit)) {
+          stopReason = 'rate_limit';
+          break;
+        }
+        if (pagination.page_delay_ms) {
+          await new Promise(resolve => setTimeout(resolve, pagination.page_delay_ms));
+        }
+      }
+
+      let page: Awaited<ReturnType<APICollector['fetchPage']>>;
+      try {
+        page = await this.fetchPage(config, request);
+      } catch (pageError) {
+        // 第一页失败按采集失败处理；之后的页失败时返回已采集的条目
+        if (pagesFetched === 0) {
+          throw pageError;
+        }
+        error = pageError instanceof Error ? pageError.message : 'Unknown error';
+        stopReason = 'error';
+        LoggerUtils.warn('API page request failed, returning earlier pages', {
+          source: config.name,
+          page: pagesFetched + 1,
+          error
+        });
+        break;
+      }
+      const { response, dataItems, pageItems } = page;
+      pagesFetched++;
+
+      // 增量同步：早于上次采集时间的条目已经采集过
+      let reachedLastRun = false;
+      for (const item of pageItems) {
+        if (stopAtLastRun && item.raw_data?.publish_time_confidence !== 'fallback' && item.publish_time <= since!) {
+          reachedLastRun = true;
+          continue;
+        }
+        items.push(item);
+      }
+
+      if (reachedLastRun) {
+        stopReason = 'reached_last_run';
+        break;
+      }
+      if (config.max_items && items.length >= config.max_items) {
+        stopReason = 'max_items';
+        break;
+      }
+      if (dataItems.length === 0) {
+        break;
+      }
+
+      request = this.nextPageRequest(pagination, request, response, dataItems.length);
+      if (request && pagesFetched >= maxPages) {
+        stopReason = 'max_pages';
+        break;
+      }
+    }
+
+    return { items, pages_fetched: pagesFetched, stop_reason: stopReason, error };
+  }
+
+  private async fetchPage(config: APISourceConfig, request: PageRequest) {
+    const response = await this.fetchAPI(config, request);
+    this.recordRateLimit(config.name);
+
+    const dataItems = this.extractDataItems(response.data, config);
+    const pageItems = await this.parseAPIResponse(response.data, config);
+    return { response, dataItems, pageItems };
+  }
+
+  private firstPageRequest(config: APISourceConfig, pagination: APIPaginationConfig): PageRequest {
+    const request: PageRequest = { url: config.url, params: config.params, data: config.data };
+    const pageParams: Record<string, any> = {};
+
+    if (pagination.page_size && pagination.size_param) {
+      pageParams[pagination.size_param] = pagination.page_size;
+    }
+    if (pagination.type === 'page') {
+      pageParams[pagination.page_param || 'page'] = pagination.start_page ?? 1;
+    }
+    if (pagination.type === 'offset') {
+      pageParams[pagination.offset_param || 'offset'] = 0;
+    }
+
+    return this.withPageParams(request, pagination, pageParams);
+  }
+
+  private nextPageRequest(
+    pagination: APIPaginationConfig,
+    current: PageRequest,
+    response: { data: any; headers?: any },
+    pageLength: number
+  ): PageRequest | null {
+    if (pagination.has_more_path && !this.getValueByPath(response.data, pagination.has_more_path)) {
+      return null;
+    }
+
+    switch (pagination.type) {
+      case 'page': {
+        // 返回条数不足一页说明已是最后一页
+        if (pagination.page_size && pageLength < pagination.page_size) {
+          return null;
+        }
+        const pageParam = pagination.page_param || 'page';
+        const currentPage = Number(this.pageParams(current, pagination)[pageParam]);
+        return this.withPageParams(current, pagination, { [pageParam]: currentPage + 1 });
+      }
+      case 'offset': {
+        if (pagination.page_size && pageLength < pagination.page_size) {
+          return null;
+        }
+        const offsetParam = pagination.offset_param || 'offset';
+        const currentOffset = Number(this.pageParams(current, pagination)[offsetParam]);
+        return this.withPageParams(current, pagination, { [offsetParam]: currentOffset + pageLength });
+      }
+      case 'cursor': {
+        const cursor = pagination.cursor_path ? this.getValueByPath(response.data, pagination.cursor_path) : undefined;
+        if (cursor === undefined || cursor === null || cursor === '') {
+          return null;
+        }
+        if (typeof cursor === 'string' && /^https?:\/\//.test(cursor)) {
+          return this.sameOriginRequest(cursor, current);
+        }
+        return this.withPageParams(current, pagination, { [pagination.cursor_param || 'cursor']: cursor });
+      }
+      case 'link_header': {
+        const next = this.parseNextLink(response.headers?.link, current.url);
+        return next ? this.sameOriginRequest(next, current) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // 服务端给出的下一页地址只在同源时跟随，避免把认证头、令牌和签名发往其他主机
+  private sameOriginRequest(url: string, current: PageRequest): PageRequest | null {
+    if (new URL(url).origin !== new URL(current.url).origin) {
+      LoggerUtils.warn('Not following cross-origin next page link', { from: current.url, next: url });
+      return null;
+    }
+    return { url, data: current.data };
+  }
+
+  private withPageParams(request: PageRequest, pagination: APIPaginationConfig, pageParams: Record<string, any>): PageRequest {
+    if (pagination.param_location === 'body') {
+      return { ...request, data: { ...request.data, ...pageParams } };
+    }
+    return { ...request, params: { ...request.params, ...pageParams } };
+  }
+
+  private pageParams(request: PageRequest, pagination: APIPaginationConfig): Record<string, any> {
+    return (pagination.param_location === 'body' ? request.data : request.params) || {};
+  }
+
+  // Link: <https://api.example.com/news?page=2>; rel="next", <...>; rel="last"
+  private parseNextLink(header: unknown, baseUrl: string): string | null {
+    for (const part of String(header || '').split(',')) {
+      const match = part.match(/<([^>]+)>\s*;(.*)/);
+      if (match && /rel\s*=\s*"?([^"]*\s)?next(\s[^"]*)?"?/i.test(match[2])) {
+        return new URL(match[1].trim(), baseUrl).toString();
+      }
+    }
+    return null;
+  }
+
+  private async fetchAPI(config: APISourceConfig, request: PageRequest = { url: config.url, params: config.params, data: config.data }) {
+    let response = await this.sendRequest(config, request);
+
+    // 令牌可能已被服务端提前吊销，刷新后重试一次
+    if (response.status === 401 && config.auth?.type === 'oauth2') {
+      LoggerUtils.warn('API returned 401, refreshing OAuth2 token', { source: config.name });
+      this.authenticator.invalidate(config.auth);
+      response = await this.sendRequest(config, request);
+    }
+
+    if (response.status !== 200) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (Buffer.isBuffer(response.data) || response.data instanceof ArrayBuffer) {
+      response.data = this.parseResponseBody(decodeBody(response.data, response.headers?.['content-type']).text);
+    }
+
+    return response;
+  }
+
+  private async sendRequest(config: APISourceConfig, request: PageRequest) {
     const headers: Record<string, string> = {
       'User-Agent': this.userAgent,
       'Accept': 'application/json',
@@ -130,38 +380,45 @@ export class APICollector {
       ...config.headers
     };
 
-    // 添加认证
-    if (config.auth) {
-      this.addAuthHeaders(headers, config.auth);
-    }
-
     const requestConfig: any = {
       method: config.method || 'GET',
-      url: config.url,
+      url: request.url,
       timeout: this.timeout,
       headers,
-      validateStatus: (status) => status < 500
+      validateStatus: (status: number) => status < 500,
+      // 以二进制接收，按声明的字符集解码后再解析JSON
+      responseType: 'arraybuffer'
     };
 
-    if (config.params) {
-      requestConfig.params = config.params;
+    if (request.params) {
+      requestConfig.params = request.params;
     }
 
-    if (config.data && (config.method === 'POST' || config.method === 'PUT')) {
-      requestConfig.data = config.data;
+    if (request.data && config.method === 'POST') {
+      requestConfig.data = request.data;
     }
 
-    const response = await axios(requestConfig);
-
-    if (response.status !== 200) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    // 添加认证，每次请求重新签名或取令牌
+    if (config.auth) {
+      await this.addAuthHeaders(requestConfig, config.auth);
     }
 
-    return response;
+    return this.fetcher
+      ? this.fetcher.request(requestConfig, { respect_robots: config.respect_robots, proxy: config.proxy })
+      : axios(requestConfig);
+  }
+
+  private parseResponseBody(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // 非JSON响应原样返回
+      return text;
+    }
   }
 
-  private addAuthHeaders(headers: Record<string, string>, auth: APISourceConfig['auth']): void {
-    if (!auth) return;
+  private async addAuthHeaders(requestConfig: any, auth: APIAuthConfig): Promise<void> {
+    const headers: Record<string, string> = requestConfig.headers;
 
     switch (auth.type) {
       case 'bearer':
@@ -180,28 +437,39 @@ export class APICollector {
           headers[auth.header] = auth.apikey;
         }
         break;
+      case 'oauth2':
+      case 'hmac': {
+        const authorized = await this.authenticator.authorize(auth, requestConfig.params);
+        Object.assign(headers, authorized.headers);
+        requestConfig.params = authorized.params;
+        break;
+      }
+    }
+  }
+
+  private extractDataItems(responseData: any, config: APISourceConfig): any[] {
+    // 提取数据项
+    let dataItems = responseData;
+    if (config.response_path) {
+      dataItems = this.extractDataByPath(responseData, config.response_path);
+    }
+
+    // 确保数据是数组
+    if (!Array.isArray(dataItems)) {
+      if (typeof dataItems === 'object' && dataItems !== null) {
+        return [dataItems];
+      }
+      LoggerUtils.warn('API response is not an array or object', { source: config.name });
+      return [];
     }
+
+    return dataItems;
   }
 
   private async parseAPIResponse(responseData: any, config: APISourceConfig): Promise<NewsItem[]> {
     try {
       const items: NewsItem[] = [];
-      
-      // 提取数据项
-      let dataItems = responseData;
-      if (config.response_path) {
-        dataItems = this.extractDataByPath(responseData, config.response_path);
-      }
-
-      // 确保数据是数组
-      if (!Array.isArray(dataItems)) {
-        if (typeof dataItems === 'object' && dataItems !== null) {
-          dataItems = [dataItems];
-        } else {
-          LoggerUtils.warn('API response is not an array or object', { source: config.name });
-          return [];
-        }
-      }
+      const dataItems = this.extractDataItems(responseData, config);
 
       // 默认映射
       const mapping = config.mapping || {
@@ -238,22 +506,21 @@ export class APICollector {
   }
 
   private extractDataByPath(data: any, path: string): any {
-    const keys = path.split('.');
-    let result = data;
-    
-    for (const key of keys) {
-      if (result && typeof result === 'object' && key in result) {
-        result = result[key];
-      } else {
-        LoggerUtils.warn('Path not found in API response', { source: path, key });
-        return data;
-      }
+    const result = evaluatePath(data, path);
+    if (result === null || result === undefined) {
+      LoggerUtils.warn('Path not found in API response', { source: path });
+      return data;
     }
-    
+
     return result;
   }
 
-  private createNewsItemFromAPI(itemData: any, mapping: Record<string, string>, config: APISourceConfig): NewsItem | null {
+  // 与 extractDataByPath 不同，路径不存在时返回 undefined
+  private getValueByPath(data: any, path: string): any {
+    return evaluatePath(data, path) ?? undefined;
+  }
+
+  private createNewsItemFromAPI(itemData: any, mapping: NonNullable<APISourceConfig['mapping']>, config: APISourceConfig): NewsItem | null {
     try {
       const title = this.extractFieldValue(itemData, mapping.title || 'title');
       const url = this.extractFieldValue(itemData, mapping.url || 'url');
@@ -263,20 +530,21 @@ export class APICollector {
       }
 
       const content = this.extractFieldValue(itemData, mapping.content || 'content') || '';
-      const dateStr = this.extractFieldValue(itemData, mapping.date || 'publishedAt') || '';
+      const dateValue = this.extractFieldValue(itemData, mapping.date || 'publishedAt');
       const id = this.extractFieldValue(itemData, mapping.id || 'id') || '';
+      const author = mapping.author ? this.extractFieldValue(itemData, mapping.author) : undefined;
 
-      // 解析日期
-      const publishTime = dateStr ? new Date(dateStr) : new Date();
-      if (isNaN(publishTime.getTime())) {
+      // 解析日期，支持时间戳、中文日期和相对时间
+      const publishTime = NewsDateUtils.parse(dateValue, { timezone: config.timezone });
+      if (dateValue && publishTime.confidence === 'fallback') {
         LoggerUtils.warn('Invalid date format, using current time', { 
           source: config.name, 
-          date: dateStr 
+          date: dateValue 
         });
       }
 
-      // 生成唯一ID
-      const itemId = id || `api_${config.name}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      // 基于规范化URL和接口返回ID的稳定ID
+      const itemId = NewsIdentityUtils.generateNewsId('api', url, id ? String(id) : undefined);
 
       return {
         id: itemId,
@@ -284,11 +552,13 @@ export class APICollector {
         content,
         url,
         source: config.name,
-        publish_time: publishTime,
+        publish_time: publishTime.date,
         collected_at: new Date(),
         raw_data: {
           source_config: config,
           api_response: itemData,
+          publish_time_confidence: publishTime.confidence,
+          author: author || undefined,
           category: config.category,
           language: config.language
         }
@@ -302,22 +572,10 @@ export class APICollector {
     }
   }
 
-  private extractFieldValue(data: any, fieldPath: string): string {
-    if (!data || !fieldPath) return '';
-    
-    // 处理嵌套字段路径，例如 'author.name'
-    const keys = fieldPath.split('.');
-    let value = data;
-    
-    for (const key of keys) {
-      if (value && typeof value === 'object' && key in value) {
-        value = value[key];
-      } else {
-        return '';
-      }
-    }
-    
-    return String(value || '').trim();
+  private extractFieldValue(data: any, mapping: FieldMapping): string {
+    if (!data || !mapping) return '';
+
+    return resolveField(data, mapping);
   }
 
   private checkRateLimit(sourceName: string, rateLimit?: APISourceConfig['rate_limit']): boolean {
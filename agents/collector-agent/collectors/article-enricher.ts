@@ -0,0 +1,191 @@
+// 全文补全：按条目链接抓取原文，用提取出的正文替换订阅源中的摘要
+import { NewsItem } from '../../../shared/types';
+import { LoggerUtils } from '../../../shared/utils';
+import { ExtractedArticle } from './article-extractor';
+import { WebCollector } from './web-collector';
+
+export interface ArticleEnricherOptions {
+  max_per_domain: number; // 同一域名的最大并发请求数
+  cache_ttl_ms: number;
+  failure_ttl_ms: number; // 抓取失败的链接在该时间内不再重试
+  cache_size: number;
+}
+
+export interface EnrichmentConfig {
+  name: string;
+  user_agent?: string;
+  timezone?: string;
+  full_content_min_length?: number;
+  respect_robots?: boolean;
+  proxy?: string;
+}
+
+export interface EnrichmentResult {
+  items: NewsItem[];
+  enriched_count: number;
+  failed_count: number;
+}
+
+interface CacheEntry {
+  article?: ExtractedArticle;
+  error?: string;
+  expires_at: number;
+}
+
+interface DomainSlot {
+  active: number;
+  queue: Array<() => void>;
+}
+
+const DEFAULT_OPTIONS: ArticleEnricherOptions = {
+  max_per_domain: 2,
+  cache_ttl_ms: 24 * 3600000,
+  failure_ttl_ms: 3600000,
+  cache_size: 1000
+};
+
+// 正文短于该长度时才抓取原文
+const DEFAULT_MIN_LENGTH = 500;
+
+export class ArticleEnricher {
+  private webCollector: WebCollector;
+  private options: ArticleEnricherOptions;
+  private cache: Map<string, CacheEntry> = new Map();
+  private domains: Map<string, DomainSlot> = new Map();
+  private logger = LoggerUtils;
+
+  constructor(webCollector: WebCollector = new WebCollector(), options: Partial<ArticleEnricherOptions> = {}) {
+    this.webCollector = webCollector;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // 单条抓取失败时保留原摘要，不影响整批采集结果
+  async enrich(items: NewsItem[], config: EnrichmentConfig): Promise<EnrichmentResult> {
+    const minLength = config.full_content_min_length ?? DEFAULT_MIN_LENGTH;
+    let enrichedCount = 0;
+    let failedCount = 0;
+
+    const enriched = await Promise.all(items.map(async item => {
+      if (!item.url || item.content.length >= minLength) {
+        return item;
+      }
+
+      const entry = await this.fetchArticle(item.url, config);
+      if (!entry.article) {
+        failedCount++;
+        return {
+          ...item,
+          raw_data: { ...item.raw_data, enrichment: { status: 'failed', error: entry.error } }
+        };
+      }
+
+      // 提取的正文比摘要还短时，多半是提取错了版块
+      if (entry.article.content.length <= item.content.length) {
+        return {
+          ...item,
+          raw_data: { ...item.raw_data, enrichment: { status: 'skipped', reason: 'Extracted content shorter than snippet' } }
+        };
+      }
+
+      enrichedCount++;
+      return {
+        ...item,
+        title: item.title || entry.article.title,
+        content: entry.article.content,
+        raw_data: {
+          ...item.raw_data,
+          snippet: item.content,
+          author: item.raw_data?.author || entry.article.byline,
+          lead_image: entry.article.lead_image,
+          enrichment: {
+            status: 'enriched',
+            article_url: entry.article.url,
+            published: entry.article.published?.toISOString(),
+            content_length: entry.article.content.length
+          }
+        }
+      };
+    }));
+
+    this.logger.info('Feed items enriched', {
+      source: config.name,
+      total: items.length,
+      enriched_count: enrichedCount,
+      failed_count: failedCount
+    });
+
+    return { items: enriched, enriched_count: enrichedCount, failed_count: failedCount };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async fetchArticle(url: string, config: EnrichmentConfig): Promise<CacheEntry> {
+    const cached = this.cache.get(url);
+    if (cached && cached.expires_at > Date.now()) {
+      return cached;
+    }
+
+    const entry = await this.withDomainSlot(url, async (): Promise<CacheEntry> => {
+      try {
+        const article = await this.webCollector.extractArticle(url, {
+          user_agent: config.user_agent,
+          timezone: config.timezone,
+          respect_robots: config.respect_robots,
+          proxy: config.proxy
+        });
+        return { article, expires_at: Date.now() + this.options.cache_ttl_ms };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn('Failed to fetch full article', { source: config.name, url, error: errorMessage });
+        return { error: errorMessage, expires_at: Date.now() + this.options.failure_ttl_ms };
+      }
+    });
+
+    this.cache.delete(url);
+    this.cache.set(url, entry);
+    // Map 按插入顺序遍历，超出容量时淘汰最早的条目
+    while (this.cache.size > this.options.cache_size) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+
+    return entry;
+  }
+
+  // 按域名排队，避免短时间内集中请求同一站点
+  private async withDomainSlot<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const domain = hostnameOf(url);
+    let slot = this.domains.get(domain);
+    if (!slot) {
+      slot = { active: 0, queue: [] };
+      this.domains.set(domain, slot);
+    }
+
+    if (slot.active >= this.options.max_per_domain) {
+      await new Promise<void>(resolve => slot!.queue.push(resolve));
+    } else {
+      slot.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = slot.queue.shift();
+      if (next) {
+        // 名额直接交给下一个等待者
+        next();
+      } else if (--slot.active === 0) {
+        this.domains.delete(domain);
+      }
+    }
+  }
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,365 @@
+// 正文提取器：参考 Readability 的打分思路，从文章页中提取正文、标题、作者、发布时间和头图
+import * as cheerio from 'cheerio';
+import type { CheerioAPI, Element } from 'cheerio';
+import { DateConfidence, ParsedNewsDate } from '../../../shared/types';
+import { DateParseOptions, NewsDateUtils } from '../../../shared/utils';
+
+export interface ExtractedArticle {
+  url: string; // 优先使用 canonical / og:url
+  title: string;
+  content: string; // 纯文本正文，段落以空行分隔
+  content_html: string;
+  excerpt?: string;
+  byline?: string;
+  published?: Date;
+  published_confidence?: DateConfidence;
+  modified?: Date;
+  lead_image?: string;
+  site_name?: string;
+  language?: string;
+}
+
+export class ArticleExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArticleExtractionError';
+  }
+}
+
+// 正文少于该长度时视为提取失败，改用 JSON-LD 中的 articleBody
+const MIN_CONTENT_LENGTH = 100;
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const BOILERPLATE_TAGS = 'script, style, noscript, iframe, form, nav, header, footer, aside, button, svg, input, select, textarea, link, meta';
+const UNLIKELY_PATTERN = /comment|footer|nav|menu|sidebar|share|related|recommend|advert|\bads?\b|ad-|breadcrumb|copyright|login|popup|banner|social|subscribe|toolbar|pagination|hot-?list/i;
+const POSITIVE_PATTERN = /article|body|content|entry|main|post|text|story|detail|zhengwen/i;
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'ul', 'ol',
+  'blockquote', 'pre', 'table', 'tr', 'figure', 'figcaption'
+]);
+const ARTICLE_TYPES = new Set(['Article', 'NewsArticle', 'ReportageNews', 'AnalysisNewsArticle', 'BlogPosting', 'WebPage']);
+
+export function extractArticle(html: string, baseUrl: string, dateOptions: DateParseOptions = {}): ExtractedArticle {
+  const $ = cheerio.load(html);
+
+  // 元数据需在清理页面结构之前读取
+  const jsonLd = readJsonLd($);
+  const meta = (selector: string) => $(selector).first().attr('content')?.trim() || undefined;
+
+  const canonical = $('link[rel="canonical"]').attr('href') || meta('meta[property="og:url"]');
+  const url = resolveUrl(canonical, baseUrl) || baseUrl;
+  const title = extractTitle($, jsonLd);
+  const byline = extractByline($, jsonLd);
+  const published = parseDate(
+    jsonLd?.datePublished ||
+    meta('meta[property="article:published_time"]') ||
+    meta('meta[itemprop="datePublished"]') ||
+    meta('meta[name="pubdate"], meta[name="publishdate"], meta[name="PubDate"], meta[name="publish_date"], meta[name="DC.date.issued"], meta[name="date"]') ||
+    $('time[datetime]').first().attr('datetime'),
+    dateOptions
+  );
+  const modified = parseDate(
+    jsonLd?.dateModified ||
+    meta('meta[property="article:modified_time"]') ||
+    meta('meta[itemprop="dateModified"]'),
+    dateOptions
+  );
+  const description = meta('meta[property="og:description"]') || meta('meta[name="description"]');
+  const siteName = meta('meta[property="og:site_name"]') || jsonLd?.publisher?.name;
+  const language = $('html').attr('lang') || meta('meta[http-equiv="content-language"]');
+  const metaImage = firstImage(jsonLd?.image) || meta('meta[property="og:image"]') || meta('meta[name="twitter:image"]');
+
+  removeBoilerplate($);
+
+  const container = findContentContainer($);
+  let content = '';
+  let contentHtml = '';
+  let contentImage: string | undefined;
+
+  if (container) {
+    cleanContainer($, container);
+    content = container.map((_, el) => blockText(el)).get().join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+    contentHtml = container.map((_, el) => $.html(el)).get().join('\n');
+    const img = container.find('img').filter((_, el) => !!($(el).attr('src') || $(el).attr('data-src'))).first();
+    contentImage = img.length > 0 ? img.attr('src') || img.attr('data-src') : undefined;
+  }
+
+  if (content.length < MIN_CONTENT_LENGTH && typeof jsonLd?.articleBody === 'string' && jsonLd.articleBody.length > content.length) {
+    content = jsonLd.articleBody.trim();
+    contentHtml = '';
+  }
+
+  if (!content) {
+    throw new ArticleExtractionError('No article content found');
+  }
+
+  return {
+    url,
+    title,
+    content,
+    content_html: contentHtml,
+    excerpt: description || content.split('\n')[0].slice(0, 200),
+    byline,
+    published: published?.date,
+    published_confidence: published?.confidence,
+    modified: modified?.date,
+    lead_image: resolveUrl(metaImage || contentImage, baseUrl),
+    site_name: siteName,
+    language
+  };
+}
+
+// 取页面中第一个文章类型的 JSON-LD 对象，兼容数组和 @graph
+function readJsonLd($: CheerioAPI): any | undefined {
+  const nodes: any[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const data = JSON.parse($(el).contents().text());
+      for (const node of Array.isArray(data) ? data : [data]) {
+        nodes.push(...(Array.isArray(node?.['@graph']) ? node['@graph'] : [node]));
+      }
+    } catch {
+      // 部分站点的 JSON-LD 不合法，忽略即可
+    }
+  });
+
+  return nodes.find(node => {
+    const types = Array.isArray(node?.['@type']) ? node['@type'] : [node?.['@type']];
+    return types.some((type: string) => ARTICLE_TYPES.has(type) && type !== 'WebPage');
+  }) || nodes.find(node => node?.['@type'] === 'WebPage' && node.datePublished);
+}
+
+function extractTitle($: CheerioAPI, jsonLd: any): string {
+  const documentTitle = normalizeText($('title').first().text());
+  const headings = $('h1').map((_, el) => normalizeText($(el).text())).get().filter(Boolean);
+  // 页面上与 <title> 吻合的 h1 通常就是文章标题
+  const matchingHeading = headings.find(heading => documentTitle.includes(heading));
+
+  const candidates = [
+    typeof jsonLd?.headline === 'string' ? jsonLd.headline : undefined,
+    $('meta[property="og:title"]').attr('content'),
+    matchingHeading,
+    stripSiteName(documentTitle),
+    headings[0]
+  ];
+
+  return normalizeText(candidates.find(candidate => candidate && candidate.trim()) || '');
+}
+
+// "文章标题_新浪财经" / "Title | Site" => 去掉站点名
+function stripSiteName(title: string): string {
+  const parts = title.split(/\s+[|\-–—_]\s+|_|\|/).map(part => part.trim()).filter(Boolean);
+  return parts.length > 1 && parts[0].length >= 6 ? parts[0] : title;
+}
+
+function extractByline($: CheerioAPI, jsonLd: any): string | undefined {
+  const authors = (Array.isArray(jsonLd?.author) ? jsonLd.author : [jsonLd?.author])
+    .map((author: any) => typeof author === 'string' ? author : author?.name)
+    .filter(Boolean);
+  if (authors.length > 0) {
+    return authors.join(', ');
+  }
+
+  const metaAuthor = $('meta[name="author"]').attr('content') || $('meta[property="article:author"]').attr('content');
+  if (metaAuthor && !/^https?:\/\//.test(metaAuthor)) {
+    return metaAuthor.trim();
+  }
+
+  const element = $('[rel="author"], [itemprop="author"], .byline, .author').first();
+  const text = normalizeText(element.text());
+  return text && text.length <= 100 ? text : undefined;
+}
+
+function removeBoilerplate($: CheerioAPI): void {
+  $(BOILERPLATE_TAGS).remove();
+  $('[hidden], [aria-hidden="true"], [style*="display:none"], [style*="display: none"]').remove();
+
+  $('body *').each((_, el) => {
+    if (el.tagName === 'body' || el.tagName === 'article' || el.tagName === 'main') {
+      return;
+    }
+    const signature = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+    if (UNLIKELY_PATTERN.test(signature) && !POSITIVE_PATTERN.test(signature)) {
+      $(el).remove();
+    }
+  });
+}
+
+// 按段落给父节点打分，取得分最高的节点及其高分兄弟节点作为正文
+function findContentContainer($: CheerioAPI): cheerio.Cheerio<Element> | null {
+  const scores = new Map<Element, number>();
+  const addScore = (el: Element | null, score: number) => {
+    if (!el || el.type !== 'tag' || el.tagName === 'html') {
+      return;
+    }
+    if (!scores.has(el)) {
+      scores.set(el, initialScore($, el));
+    }
+    scores.set(el, scores.get(el)! + score);
+  };
+
+  const paragraphs = $('p, pre, td, div:not(:has(p, div, section, article, table, ul, ol, pre, blockquote))');
+  paragraphs.each((_, el) => {
+    const text = normalizeText($(el).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    const score = 1 + (text.match(/[,，、。;；]/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = el.parent as Element | null;
+    addScore(parent, score);
+    addScore(parent?.parent as Element | null, score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, el));
+    scores.set(el, adjusted);
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  if (!best) {
+    const fallback = $('article, main, [role="main"], body').first();
+    return fallback.length > 0 ? fallback as cheerio.Cheerio<Element> : null;
+  }
+
+  const threshold = Math.max(10, bestScore * 0.2);
+  const members = $(best).parent().children().filter((_, sibling) => {
+    if (sibling === best) {
+      return true;
+    }
+    if ((scores.get(sibling) || 0) >= threshold) {
+      return true;
+    }
+    const text = normalizeText($(sibling).text());
+    return sibling.tagName === 'p' && text.length > 80 && linkDensity($, sibling) < 0.25;
+  });
+
+  return members as cheerio.Cheerio<Element>;
+}
+
+function initialScore($: CheerioAPI, el: Element): number {
+  let score = 0;
+  switch (el.tagName) {
+    case 'article':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'ol':
+    case 'ul':
+    case 'form':
+    case 'li':
+      score -= 3;
+      break;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'th':
+      score -= 5;
+      break;
+  }
+
+  const signature = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+  if (POSITIVE_PATTERN.test(signature)) {
+    score += 25;
+  }
+  if (UNLIKELY_PATTERN.test(signature)) {
+    score -= 25;
+  }
+  return score;
+}
+
+// 去掉正文中链接密集的短块，例如“相关阅读”列表
+function cleanContainer($: CheerioAPI, container: cheerio.Cheerio<Element>): void {
+  container.find('ul, ol, div, section, table').each((_, el) => {
+    const text = normalizeText($(el).text());
+    if (text.length < 200 && linkDensity($, el) > 0.5) {
+      $(el).remove();
+    }
+  });
+}
+
+function linkDensity($: CheerioAPI, el: Element): number {
+  const textLength = normalizeText($(el).text()).length;
+  if (textLength === 0) {
+    return 0;
+  }
+  const linkLength = $(el).find('a').map((_, link) => normalizeText($(link).text())).get().join('').length;
+  return linkLength / textLength;
+}
+
+// 按块级元素和 <br> 换行生成纯文本
+function blockText(root: Element): string {
+  const parts: string[] = [];
+
+  const walk = (node: any) => {
+    if (node.type === 'text') {
+      parts.push(node.data.replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.type !== 'tag') {
+      return;
+    }
+    if (node.tagName === 'br') {
+      parts.push('\n');
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(node.tagName);
+    if (isBlock) {
+      parts.push('\n\n');
+    }
+    node.children.forEach(walk);
+    if (isBlock) {
+      parts.push('\n\n');
+    }
+  };
+
+  walk(root);
+
+  return parts.join('')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function firstImage(image: any): string | undefined {
+  const first = Array.isArray(image) ? image[0] : image;
+  return typeof first === 'string' ? first : first?.url;
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// 只采用能解析出的时间，解析失败时由调用方决定回退方式
+function parseDate(value: string | undefined, options: DateParseOptions): ParsedNewsDate | undefined {
+  const parsed = NewsDateUtils.parse(value, options);
+  return parsed.confidence === 'fallback' ? undefined : parsed;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,78 @@
+// 字符集识别与转码：交易所、政府网站常用 GBK / GB2312 / GB18030，统一转为 UTF-8
+import * as iconv from 'iconv-lite';
+
+export interface DecodedBody {
+  text: string;
+  charset: string;
+  detected_from: 'bom' | 'header' | 'xml' | 'meta' | 'default';
+}
+
+// 只在文档开头查找编码声明
+const SNIFF_BYTES = 4096;
+
+// GB2312 / GBK 页面常混有超出其字符集的字，统一按超集 GB18030 解码
+const CHARSET_ALIASES: Record<string, string> = {
+  'gb2312': 'gb18030',
+  'gbk': 'gb18030',
+  'x-gbk': 'gb18030',
+  'cp936': 'gb18030',
+  'gb_2312-80': 'gb18030',
+  'utf8': 'utf-8',
+  'big5-hkscs': 'big5'
+};
+
+export function normalizeCharset(charset: string): string {
+  const name = charset.trim().replace(/^["']|["']$/g, '').toLowerCase();
+  return CHARSET_ALIASES[name] || name;
+}
+
+export function charsetFromContentType(contentType: unknown): string | undefined {
+  const match = String(contentType || '').match(/charset\s*=\s*["']?([\w.:-]+)/i);
+  return match ? normalizeCharset(match[1]) : undefined;
+}
+
+// 依次检查 BOM、Content-Type、XML 声明和 <meta charset>，都没有时按 UTF-8 处理
+export function detectCharset(body: Buffer, contentType?: unknown): Pick<DecodedBody, 'charset' | 'detected_from'> {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) {
+    return { charset: 'utf-8', detected_from: 'bom' };
+  }
+  if (body[0] === 0xff && body[1] === 0xfe) {
+    return { charset: 'utf-16le', detected_from: 'bom' };
+  }
+  if (body[0] === 0xfe && body[1] === 0xff) {
+    return { charset: 'utf-16be', detected_from: 'bom' };
+  }
+
+  const fromHeader = charsetFromContentType(contentType);
+  if (fromHeader && iconv.encodingExists(fromHeader)) {
+    return { charset: fromHeader, detected_from: 'header' };
+  }
+
+  // 声明部分只含 ASCII，按 latin1 读取不受实际编码影响
+  const head = body.subarray(0, SNIFF_BYTES).toString('latin1');
+
+  const xmlDeclaration = head.match(/^\s*<\?xml[^>]*\sencoding\s*=\s*["']([\w.:-]+)["']/i);
+  if (xmlDeclaration && iconv.encodingExists(normalizeCharset(xmlDeclaration[1]))) {
+    return { charset: normalizeCharset(xmlDeclaration[1]), detected_from: 'xml' };
+  }
+
+  const metaCharset = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i);
+  if (metaCharset && iconv.encodingExists(normalizeCharset(metaCharset[1]))) {
+    return { charset: normalizeCharset(metaCharset[1]), detected_from: 'meta' };
+  }
+
+  return { charset: 'utf-8', detected_from: 'default' };
+}
+
+// 响应体为字符串时说明已被解码，原样返回
+export function decodeBody(body: Buffer | ArrayBuffer | string, contentType?: unknown): DecodedBody {
+  if (typeof body === 'string') {
+    return { text: body, charset: 'utf-8', detected_from: 'default' };
+  }
+
+  const buffer = Buffer.isBuffer(body) ? body : Buffer.from(body);
+  const detected = detectCharset(buffer, contentType);
+  const text = iconv.decode(buffer, detected.charset, { stripBOM: true });
+
+  return { text, ...detected };
+}
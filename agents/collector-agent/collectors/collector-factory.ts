@@ -1,16 +1,28 @@
 // 采集器工厂
+import { z } from 'zod';
 import { RSSCollector, RSSSourceConfig } from './rss-collector';
 import { WebCollector, WebSourceConfig } from './web-collector';
 import { APICollector, APISourceConfig } from './api-collector';
+import { SitemapCollector, SitemapSourceConfig } from './sitemap-collector';
+import { JSONFeedCollector, JSONFeedSourceConfig } from './json-feed-collector';
+import { NDJSONCollector, NDJSONSourceConfig } from './ndjson-collector';
+import { FileCollector, FileSourceConfig } from './file-collector';
+import { MailboxCollector, MailboxSourceConfig } from './mailbox-collector';
+import { HttpCacheStore } from './http-cache';
+import { CursorStore } from './cursor-store';
+import { ArticleEnricher } from './article-enricher';
+import { HostPolitenessStats, PoliteFetcher } from './polite-fetcher';
+import { LocalPathError, resolveWithinRoots } from './local-path';
+import { redactSecrets, resolveSecretReferences } from './secrets';
 import { LoggerUtils } from '../../../shared/utils';
 
 export interface CollectorConfig {
-  type: 'rss' | 'web' | 'api';
+  type: string; // 内置 rss / web / api / sitemap / jsonfeed / ndjson / file / mailbox，或插件注册的类型
   name: string;
   enabled: boolean;
   priority: number;
   schedule?: string;
-  config: RSSSourceConfig | WebSourceConfig | APISourceConfig;
+  config: RSSSourceConfig | WebSourceConfig | APISourceConfig | SitemapSourceConfig | JSONFeedSourceConfig | NDJSONSourceConfig | FileSourceConfig | MailboxSourceConfig | Record<string, any>;
 }
 
 export interface CollectorResult {
@@ -23,39 +35,201 @@ export interface CollectorResult {
   metadata?: any;
 }
 
+// 采集时可用的运行状态，例如增量同步所需的上次采集时间
+export interface CollectionContext {
+  last_run?: Date; // 上次成功采集的时间
+}
+
 export abstract class BaseCollector {
-  abstract collect(config: any): Promise<CollectorResult>;
+  abstract collect(config: any, context?: CollectionContext): Promise<CollectorResult>;
   abstract validate(config: any): Promise<boolean>;
   abstract test(config: any): Promise<CollectorResult>;
+  // 可选：监听采集源变化（例如目录中投放了新文件），变化时回调；返回停止监听的函数
+  watch?(config: any, onChange: () => void): (() => void) | undefined;
 }
 
-export class CollectorFactory {
-  private collectors: Map<string, BaseCollector> = new Map();
+// 创建采集器时可共用的资源
+export interface CollectorPluginContext {
+  http_cache?: HttpCacheStore;
+  fetcher: PoliteFetcher; // 共享的礼貌抓取层，遵守 robots.txt 和按主机限速
+  cursor_store: CursorStore; // 增量读取位置（上次的条目ID或文件偏移）
+}
 
-  constructor() {
+// 采集器插件：内置采集器和插件目录 / npm 包中的自定义采集器都按此注册
+export interface CollectorPlugin {
+  type: string;
+  description?: string;
+  config_schema?: z.ZodTypeAny; // 采集源 config 的校验规则，add_source 时校验
+  local_path_fields?: string[]; // config 中指向本地文件或目录的字段，必须位于 local_roots 内
+  create(context: CollectorPluginContext): BaseCollector;
+}
+
+export interface CollectorTypeInfo {
+  type: string;
+  description?: string;
+  builtin: boolean;
+  fields: CollectorFieldInfo[];
+}
+
+export interface CollectorFieldInfo {
+  name: string;
+  type: string;
+  required: boolean;
+  description?: string;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export class CollectorPluginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CollectorPluginError';
+  }
+}
+
+interface RegisteredCollector {
+  plugin: CollectorPlugin;
+  collector: BaseCollector;
+  builtin: boolean;
+}
+
+export class CollectorFactory {
+  private collectors: Map<string, RegisteredCollector> = new Map();
+  private httpCache?: HttpCacheStore;
+  private fetcher: PoliteFetcher;
+  private cursorStore: CursorStore;
+  private localRoots: string[];
+
+  // localRoots 为空时不允许任何读取本地文件的采集源
+  constructor(
+    httpCache?: HttpCacheStore,
+    fetcher: PoliteFetcher = new PoliteFetcher(),
+    cursorStore: CursorStore = new CursorStore(null),
+    localRoots: string[] = []
+  ) {
+    this.httpCache = httpCache;
+    this.fetcher = fetcher;
+    this.cursorStore = cursorStore;
+    this.localRoots = localRoots;
     this.registerCollectors();
   }
 
   private registerCollectors(): void {
-    // 注册RSS采集器
-    this.collectors.set('rss', new RSSCollectorWrapper());
-    
-    // 注册网页采集器
-    this.collectors.set('web', new WebCollectorWrapper());
-    
-    // 注册API采集器
-    this.collectors.set('api', new APICollectorWrapper());
+    for (const plugin of BUILTIN_COLLECTORS) {
+      this.addCollector(plugin, true);
+    }
+  }
+
+  // 注册自定义采集器，类型名不能与已注册的采集器重复
+  registerCollector(plugin: CollectorPlugin): void {
+    this.addCollector(plugin, false);
+  }
+
+  private addCollector(plugin: CollectorPlugin, builtin: boolean): void {
+    if (!plugin || typeof plugin.type !== 'string' || !plugin.type.trim() || typeof plugin.create !== 'function') {
+      throw new CollectorPluginError('Collector plugin must have a type and a create() function');
+    }
+    if (this.collectors.has(plugin.type)) {
+      throw new CollectorPluginError(`Collector type already registered: ${plugin.type}`);
+    }
+
+    const collector = plugin.create({ http_cache: this.httpCache, fetcher: this.fetcher, cursor_store: this.cursorStore });
+    if (!collector || typeof collector.collect !== 'function') {
+      throw new CollectorPluginError(`Collector plugin ${plugin.type} did not create a collector`);
+    }
+
+    this.collectors.set(plugin.type, { plugin, collector, builtin });
+    if (!builtin) {
+      LoggerUtils.info('Collector plugin registered', { type: plugin.type });
+    }
   }
 
   getCollector(type: string): BaseCollector | null {
-    return this.collectors.get(type) || null;
+    return this.collectors.get(type)?.collector || null;
   }
 
   getAvailableTypes(): string[] {
     return Array.from(this.collectors.keys());
   }
 
-  async collect(config: CollectorConfig): Promise<CollectorResult> {
+  // 各主机的 robots.txt 拦截、限速等待等统计
+  getPolitenessStats(): HostPolitenessStats[] {
+    return this.fetcher.getStats();
+  }
+
+  getCollectorTypes(): CollectorTypeInfo[] {
+    return Array.from(this.collectors.values()).map(({ plugin, builtin }) => ({
+      type: plugin.type,
+      description: plugin.description,
+      builtin,
+      fields: describeSchema(plugin.config_schema)
+    }));
+  }
+
+  // 按采集器声明的 config_schema 校验配置，不发起网络请求
+  validateConfig(config: Pick<CollectorConfig, 'type' | 'config'>): ConfigValidationResult {
+    const registered = this.collectors.get(config.type);
+    if (!registered) {
+      return { valid: false, errors: [`Unknown collector type: ${config.type}`] };
+    }
+    if (!registered.plugin.config_schema) {
+      return { valid: true, errors: [] };
+    }
+
+    const parsed = registered.plugin.config_schema.safeParse(config.config);
+    if (!parsed.success) {
+      return {
+        valid: false,
+        errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+      };
+    }
+
+    try {
+      this.checkLocalPaths(config);
+      return { valid: true, errors: [] };
+    } catch (error) {
+      return { valid: false, errors: [error instanceof Error ? error.message : 'Unknown error'] };
+    }
+  }
+
+  // 采集前替换 ${变量名} 引用的密钥，并检查本地路径
+  private prepare(config: CollectorConfig): CollectorConfig {
+    const prepared = { ...config, config: resolveSecretReferences(config.config) };
+    this.checkLocalPaths(prepared);
+    return prepared;
+  }
+
+  // 条目的 raw_data.source_config 会写入数据库并经 MCP 返回：换成未替换引用的原配置，并隐去明文密钥
+  private redactItems(result: CollectorResult, config: CollectorConfig): CollectorResult {
+    const sourceConfig = redactSecrets(config.config);
+    return {
+      ...result,
+      items: (result.items || []).map(item => item?.raw_data?.source_config === undefined
+        ? item
+        : { ...item, raw_data: { ...item.raw_data, source_config: sourceConfig } })
+    };
+  }
+
+  // 每次使用前重新检查，目录在注册后被替换为符号链接时同样拒绝
+  private checkLocalPaths(config: Pick<CollectorConfig, 'type' | 'config'>): void {
+    const fields = this.collectors.get(config.type)?.plugin.local_path_fields || [];
+    const sourceConfig: Record<string, any> = config.config || {};
+    for (const field of fields) {
+      const value = sourceConfig[field];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      if (typeof value !== 'string') {
+        throw new LocalPathError(`${field}: must be a path string`);
+      }
+      resolveWithinRoots(value, this.localRoots);
+    }
+  }
+
+  async collect(config: CollectorConfig, context: CollectionContext = {}): Promise<CollectorResult> {
     const collector = this.getCollector(config.type);
     if (!collector) {
       return {
@@ -74,7 +248,8 @@ export class CollectorFactory {
         type: config.type 
       });
       
-      const result = await collector.collect(config.config);
+      const prepared = this.prepare(config);
+      const result = await collector.collect(prepared.config, context);
       
       LoggerUtils.info('Collection completed', {
         source: config.name,
@@ -84,7 +259,7 @@ export class CollectorFactory {
       });
 
       return {
-        ...result,
+        ...this.redactItems(result, config),
         source: config.name,
         type: config.type
       };
@@ -108,6 +283,25 @@ export class CollectorFactory {
     }
   }
 
+  // 采集器不支持监听或监听失败时返回 undefined
+  watch(config: CollectorConfig, onChange: () => void): (() => void) | undefined {
+    const collector = this.getCollector(config.type);
+    if (!collector?.watch) {
+      return undefined;
+    }
+
+    try {
+      return collector.watch(this.prepare(config).config, onChange);
+    } catch (error) {
+      LoggerUtils.error('Failed to watch source', {
+        source: config.name,
+        type: config.type,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+
   async validate(config: CollectorConfig): Promise<boolean> {
     const collector = this.getCollector(config.type);
     if (!collector) {
@@ -115,7 +309,7 @@ export class CollectorFactory {
     }
 
     try {
-      return await collector.validate(config.config);
+      return await collector.validate(this.prepare(config).config);
     } catch (error) {
       LoggerUtils.error('Validation failed', {
         source: config.name,
@@ -145,7 +339,8 @@ export class CollectorFactory {
         type: config.type 
       });
       
-      const result = await collector.test(config.config);
+      const prepared = this.prepare(config);
+      const result = await collector.test(prepared.config);
       
       LoggerUtils.info('Test completed', {
         source: config.name,
@@ -155,7 +350,7 @@ export class CollectorFactory {
       });
 
       return {
-        ...result,
+        ...this.redactItems(result, config),
         source: config.name,
         type: config.type
       };
@@ -184,9 +379,11 @@ export class CollectorFactory {
 class RSSCollectorWrapper extends BaseCollector {
   private rssCollector: RSSCollector;
 
-  constructor() {
+  // 订阅源本身只在配置了代理时经由抓取层，补全正文时抓取文章页经由礼貌抓取层
+  constructor(fetcher: PoliteFetcher, httpCache?: HttpCacheStore) {
     super();
-    this.rssCollector = new RSSCollector();
+    const enricher = new ArticleEnricher(new WebCollector(undefined, undefined, undefined, fetcher));
+    this.rssCollector = new RSSCollector(undefined, undefined, httpCache, enricher, fetcher);
   }
 
   async collect(config: RSSSourceConfig): Promise<CollectorResult> {
@@ -197,7 +394,12 @@ class RSSCollectorWrapper extends BaseCollector {
       items: result.items,
       collected_count: result.collected_count,
       processing_time: result.processing_time,
-      error: result.error
+      error: result.error,
+      metadata: {
+        not_modified: result.not_modified === true,
+        enriched_count: result.enriched_count,
+        pdf_extracted_count: result.pdf_extracted_count
+      }
     };
   }
 
@@ -222,9 +424,9 @@ class RSSCollectorWrapper extends BaseCollector {
 class WebCollectorWrapper extends BaseCollector {
   private webCollector: WebCollector;
 
-  constructor() {
+  constructor(fetcher: PoliteFetcher, httpCache?: HttpCacheStore) {
     super();
-    this.webCollector = new WebCollector();
+    this.webCollector = new WebCollector(undefined, undefined, httpCache, fetcher);
   }
 
   async collect(config: WebSourceConfig): Promise<CollectorResult> {
@@ -235,7 +437,10 @@ class WebCollectorWrapper extends BaseCollector {
       items: result.items,
       collected_count: result.collected_count,
       processing_time: result.processing_time,
-      error: result.error
+      error: result.error,
+      metadata: {
+        not_modified: result.not_modified === true
+      }
     };
   }
 
@@ -260,13 +465,13 @@ class WebCollectorWrapper extends BaseCollector {
 class APICollectorWrapper extends BaseCollector {
   private apiCollector: APICollector;
 
-  constructor() {
+  constructor(fetcher: PoliteFetcher) {
     super();
-    this.apiCollector = new APICollector();
+    this.apiCollector = new APICollector(undefined, undefined, undefined, fetcher);
   }
 
-  async collect(config: APISourceConfig): Promise<CollectorResult> {
-    const result = await this.apiCollector.collectFromSource(config);
+  async collect(config: APISourceConfig, context: CollectionContext = {}): Promise<CollectorResult> {
+    const result = await this.apiCollector.collectFromSource(config, { since: context.last_run });
     return {
       source: result.source,
       type: 'api',
@@ -275,7 +480,9 @@ class APICollectorWrapper extends BaseCollector {
       processing_time: result.processing_time,
       error: result.error,
       metadata: {
-        rate_limit_remaining: result.rate_limit_remaining
+        rate_limit_remaining: result.rate_limit_remaining,
+        pages_fetched: result.pages_fetched,
+        stop_reason: result.stop_reason
       }
     };
   }
@@ -298,4 +505,423 @@ class APICollectorWrapper extends BaseCollector {
       }
     };
   }
-}
\ No newline at end of file
+}
+
+// Sitemap采集器包装器
+class SitemapCollectorWrapper extends BaseCollector {
+  private sitemapCollector: SitemapCollector;
+
+  constructor(fetcher: PoliteFetcher) {
+    super();
+    const enricher = new ArticleEnricher(new WebCollector(undefined, undefined, undefined, fetcher));
+    this.sitemapCollector = new SitemapCollector(undefined, undefined, enricher, fetcher);
+  }
+
+  async collect(config: SitemapSourceConfig, context: CollectionContext = {}): Promise<CollectorResult> {
+    const result = await this.sitemapCollector.collectFromSource(config, { since: context.last_run });
+    return {
+      source: result.source,
+      type: 'sitemap',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error,
+      metadata: {
+        sitemaps_fetched: result.sitemaps_fetched,
+        enriched_count: result.enriched_count
+      }
+    };
+  }
+
+  async validate(config: SitemapSourceConfig): Promise<boolean> {
+    return await this.sitemapCollector.validateSitemapSource(config.url);
+  }
+
+  async test(config: SitemapSourceConfig): Promise<CollectorResult> {
+    const result = await this.sitemapCollector.testSitemapSource(config);
+    return {
+      source: result.source,
+      type: 'sitemap',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error
+    };
+  }
+}
+
+// JSON Feed采集器包装器
+class JSONFeedCollectorWrapper extends BaseCollector {
+  private jsonFeedCollector: JSONFeedCollector;
+
+  constructor(fetcher: PoliteFetcher, cursorStore: CursorStore) {
+    super();
+    this.jsonFeedCollector = new JSONFeedCollector(undefined, undefined, fetcher, cursorStore);
+  }
+
+  async collect(config: JSONFeedSourceConfig, context: CollectionContext = {}): Promise<CollectorResult> {
+    const result = await this.jsonFeedCollector.collectFromSource(config, { since: context.last_run });
+    return {
+      source: result.source,
+      type: 'jsonfeed',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error,
+      metadata: {
+        pages_fetched: result.pages_fetched,
+        reached_cursor: result.reached_cursor
+      }
+    };
+  }
+
+  async validate(config: JSONFeedSourceConfig): Promise<boolean> {
+    return await this.jsonFeedCollector.validateJSONFeedSource(config.url);
+  }
+
+  async test(config: JSONFeedSourceConfig): Promise<CollectorResult> {
+    const result = await this.jsonFeedCollector.testJSONFeedSource(config);
+    return {
+      source: result.source,
+      type: 'jsonfeed',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error
+    };
+  }
+}
+
+// NDJSON采集器包装器
+class NDJSONCollectorWrapper extends BaseCollector {
+  private ndjsonCollector: NDJSONCollector;
+
+  constructor(fetcher: PoliteFetcher, cursorStore: CursorStore) {
+    super();
+    this.ndjsonCollector = new NDJSONCollector(undefined, undefined, fetcher, cursorStore);
+  }
+
+  async collect(config: NDJSONSourceConfig): Promise<CollectorResult> {
+    const result = await this.ndjsonCollector.collectFromSource(config);
+    return {
+      source: result.source,
+      type: 'ndjson',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error,
+      metadata: {
+        records_read: result.records_read,
+        invalid_lines: result.invalid_lines,
+        offset: result.offset
+      }
+    };
+  }
+
+  async validate(config: NDJSONSourceConfig): Promise<boolean> {
+    return await this.ndjsonCollector.validateNDJSONSource(config);
+  }
+
+  async test(config: NDJSONSourceConfig): Promise<CollectorResult> {
+    const result = await this.ndjsonCollector.testNDJSONSource(config);
+    return {
+      source: result.source,
+      type: 'ndjson',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error
+    };
+  }
+}
+
+// 文件采集器包装器
+class FileCollectorWrapper extends BaseCollector {
+  private fileCollector: FileCollector;
+
+  constructor() {
+    super();
+    this.fileCollector = new FileCollector();
+  }
+
+  async collect(config: FileSourceConfig): Promise<CollectorResult> {
+    const result = await this.fileCollector.collectFromSource(config);
+    return {
+      source: result.source,
+      type: 'file',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error,
+      metadata: {
+        files_processed: result.files_processed,
+        files_failed: result.files_failed,
+        failed_files: result.failed_files
+      }
+    };
+  }
+
+  async validate(config: FileSourceConfig): Promise<boolean> {
+    return await this.fileCollector.validateFileSource(config);
+  }
+
+  async test(config: FileSourceConfig): Promise<CollectorResult> {
+    const result = await this.fileCollector.testFileSource(config);
+    return {
+      source: result.source,
+      type: 'file',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error
+    };
+  }
+
+  override watch(config: FileSourceConfig, onChange: () => void): (() => void) | undefined {
+    return config.watch === false ? undefined : this.fileCollector.watch(config, onChange);
+  }
+}
+
+// 邮箱采集器包装器
+class MailboxCollectorWrapper extends BaseCollector {
+  private mailboxCollector: MailboxCollector;
+
+  constructor(cursorStore: CursorStore) {
+    super();
+    this.mailboxCollector = new MailboxCollector(cursorStore);
+  }
+
+  async collect(config: MailboxSourceConfig): Promise<CollectorResult> {
+    const result = await this.mailboxCollector.collectFromSource(config);
+    return {
+      source: result.source,
+      type: 'mailbox',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error,
+      metadata: {
+        messages_read: result.messages_read,
+        messages_skipped: result.messages_skipped,
+        messages_failed: result.messages_failed
+      }
+    };
+  }
+
+  async validate(config: MailboxSourceConfig): Promise<boolean> {
+    return await this.mailboxCollector.validateMailboxSource(config);
+  }
+
+  async test(config: MailboxSourceConfig): Promise<CollectorResult> {
+    const result = await this.mailboxCollector.testMailboxSource(config);
+    return {
+      source: result.source,
+      type: 'mailbox',
+      items: result.items,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      error: result.error
+    };
+  }
+}
+
+const TimezoneSchema = z.string().describe('发布时间未带时区时使用的时区，默认 Asia/Shanghai');
+
+const ProxySchema = z.string().describe("代理地址（http / https / socks5），或 'pool' 表示从共享代理池轮换");
+
+const RSSConfigSchema = z.object({
+  url: z.string().url().describe('RSS / Atom 订阅地址'),
+  max_items: z.number().int().positive().optional(),
+  timezone: TimezoneSchema.optional(),
+  conditional_get: z.boolean().optional(),
+  fetch_full_content: z.boolean().optional().describe('按条目链接抓取原文补全正文'),
+  full_content_min_length: z.number().int().nonnegative().optional(),
+  extract_pdf: z.boolean().optional().describe('条目链接或附件是 PDF 时提取文本作为正文'),
+  pdf_max_bytes: z.number().int().positive().optional(),
+  pdf_max_pages: z.number().int().positive().optional(),
+  proxy: ProxySchema.optional()
+}).passthrough();
+
+const WebConfigSchema = z.object({
+  url: z.string().url().describe('列表页或文章地址'),
+  mode: z.enum(['list', 'article']).optional(),
+  selectors: z.record(z.string()).optional().describe('列表模式下各字段的 CSS 选择器'),
+  max_items: z.number().int().positive().optional(),
+  timezone: TimezoneSchema.optional(),
+  headers: z.record(z.string()).optional(),
+  respect_robots: z.boolean().optional(),
+  proxy: ProxySchema.optional()
+}).passthrough();
+
+const APIConfigSchema = z.object({
+  url: z.string().url().describe('接口地址'),
+  method: z.enum(['GET', 'POST']).optional(),
+  auth: z.object({
+    type: z.enum(['bearer', 'basic', 'apikey', 'oauth2', 'hmac'])
+  }).passthrough().optional(),
+  response_path: z.string().optional().describe('数据列表的 JMESPath 表达式'),
+  pagination: z.object({
+    type: z.enum(['page', 'offset', 'cursor', 'link_header'])
+  }).passthrough().optional(),
+  mapping: z.record(z.any()).optional(),
+  max_items: z.number().int().positive().optional(),
+  timezone: TimezoneSchema.optional(),
+  respect_robots: z.boolean().optional(),
+  proxy: ProxySchema.optional()
+}).passthrough();
+
+const SitemapConfigSchema = z.object({
+  url: z.string().url().describe('sitemap.xml、sitemap 索引或新闻 sitemap 地址'),
+  max_items: z.number().int().positive().optional(),
+  max_sitemaps: z.number().int().positive().optional().describe('索引中最多读取的子 sitemap 数'),
+  url_pattern: z.string().optional().describe('只采集匹配该正则的链接'),
+  extract_articles: z.boolean().optional(),
+  timezone: TimezoneSchema.optional(),
+  respect_robots: z.boolean().optional(),
+  proxy: ProxySchema.optional()
+}).passthrough();
+
+// 与 API 采集器相同的字段映射写法
+const MappingSchema = z.record(z.any()).describe('title / content / url / date / author / id 的 JMESPath 表达式或映射规则');
+
+const JSONFeedConfigSchema = z.object({
+  url: z.string().url().describe('JSON Feed 1.0 / 1.1 地址'),
+  max_items: z.number().int().positive().optional(),
+  max_pages: z.number().int().positive().optional().describe('最多跟随 next_url 读取的页数'),
+  incremental: z.boolean().optional().describe('读到上次最新的条目即停止，默认开启'),
+  mapping: MappingSchema.optional(),
+  timezone: TimezoneSchema.optional(),
+  headers: z.record(z.string()).optional(),
+  respect_robots: z.boolean().optional(),
+  proxy: ProxySchema.optional()
+}).passthrough();
+
+const NDJSONConfigSchema = z.object({
+  url: z.string().url().optional().describe('远程 NDJSON 地址，与 path 二选一'),
+  path: z.string().min(1).optional().describe('本地 NDJSON 文件，按字节偏移增量读取'),
+  max_items: z.number().int().positive().optional(),
+  incremental: z.boolean().optional(),
+  mapping: MappingSchema.optional(),
+  timezone: TimezoneSchema.optional(),
+  headers: z.record(z.string()).optional(),
+  respect_robots: z.boolean().optional(),
+  proxy: ProxySchema.optional()
+}).passthrough().refine(config => Boolean(config.url || config.path), { message: 'url or path is required' });
+
+const FileConfigSchema = z.object({
+  directory: z.string().min(1).describe('投放文件的目录，支持 .eml / .html / .txt / .md / .json / .xml'),
+  archive_directory: z.string().min(1).optional().describe('处理完成的文件按日期移入该目录，默认 <directory>/archive'),
+  failed_directory: z.string().min(1).optional().describe('无法解析的文件移入该目录'),
+  extensions: z.array(z.string()).optional().describe('只处理这些扩展名'),
+  max_files: z.number().int().positive().optional(),
+  settle_ms: z.number().int().nonnegative().optional().describe('修改时间在该毫秒数内的文件视为仍在写入'),
+  watch: z.boolean().optional().describe('监听目录，有新文件时立即采集，默认开启'),
+  mapping: MappingSchema.optional(),
+  timezone: TimezoneSchema.optional()
+}).passthrough();
+
+const MailboxConfigSchema = z.object({
+  imap: z.object({
+    host: z.string().min(1),
+    port: z.number().int().positive().optional(),
+    secure: z.boolean().optional(),
+    user: z.string().min(1),
+    password: z.string(),
+    mailbox: z.string().optional(),
+    processed_mailbox: z.string().optional().describe('处理后移入该文件夹，未设置时标记为已读')
+  }).passthrough().optional().describe('IMAP 服务器，与 maildir / mbox 三选一'),
+  maildir: z.string().min(1).optional().describe('本地 Maildir 目录'),
+  mbox: z.string().min(1).optional().describe('本地 mbox 文件'),
+  from: z.array(z.string()).optional().describe('只处理这些发件人地址或域名的邮件'),
+  subject_pattern: z.string().optional().describe('只处理主题匹配该正则的邮件'),
+  split: z.object({
+    mode: z.enum(['heading', 'separator', 'html']),
+    pattern: z.string().optional(),
+    selector: z.string().optional(),
+    title_selector: z.string().optional(),
+    min_length: z.number().int().nonnegative().optional()
+  }).optional().describe('把一封简报拆成多条的规则'),
+  max_messages: z.number().int().positive().optional()
+}).passthrough().refine(
+  config => [config.imap, config.maildir, config.mbox].filter(Boolean).length === 1,
+  { message: 'exactly one of imap, maildir or mbox is required' }
+);
+
+const BUILTIN_COLLECTORS: CollectorPlugin[] = [
+  {
+    type: 'rss',
+    description: 'RSS / Atom 订阅源',
+    config_schema: RSSConfigSchema,
+    create: ({ http_cache, fetcher }) => new RSSCollectorWrapper(fetcher, http_cache)
+  },
+  {
+    type: 'web',
+    description: '网页列表或单篇文章',
+    config_schema: WebConfigSchema,
+    create: ({ http_cache, fetcher }) => new WebCollectorWrapper(fetcher, http_cache)
+  },
+  {
+    type: 'api',
+    description: 'JSON 接口',
+    config_schema: APIConfigSchema,
+    create: ({ fetcher }) => new APICollectorWrapper(fetcher)
+  },
+  {
+    type: 'sitemap',
+    description: 'sitemap / 新闻 sitemap，按链接提取正文',
+    config_schema: SitemapConfigSchema,
+    create: ({ fetcher }) => new SitemapCollectorWrapper(fetcher)
+  },
+  {
+    type: 'jsonfeed',
+    description: 'JSON Feed 订阅源',
+    config_schema: JSONFeedConfigSchema,
+    create: ({ fetcher, cursor_store }) => new JSONFeedCollectorWrapper(fetcher, cursor_store)
+  },
+  {
+    type: 'ndjson',
+    description: 'NDJSON 导出文件（本地或远程），每行一条记录',
+    config_schema: NDJSONConfigSchema,
+    local_path_fields: ['path'],
+    create: ({ fetcher, cursor_store }) => new NDJSONCollectorWrapper(fetcher, cursor_store)
+  },
+  {
+    type: 'file',
+    description: '本地目录中投放的邮件、网页、文本、Markdown、JSON、XML 文件',
+    config_schema: FileConfigSchema,
+    local_path_fields: ['directory', 'archive_directory', 'failed_directory'],
+    create: () => new FileCollectorWrapper()
+  },
+  {
+    type: 'mailbox',
+    description: 'IMAP 邮箱或本地 Maildir / mbox 中的邮件简报',
+    config_schema: MailboxConfigSchema,
+    local_path_fields: ['maildir', 'mbox'],
+    create: ({ cursor_store }) => new MailboxCollectorWrapper(cursor_store)
+  }
+];
+
+// 列出对象 schema 的顶层字段，供 get_collector_types 展示；插件可能自带另一份 zod，因此按 typeName 判断
+function describeSchema(schema?: z.ZodTypeAny): CollectorFieldInfo[] {
+  // refine() 等会把对象 schema 包一层
+  while (schema?._def?.typeName === 'ZodEffects') {
+    schema = schema._def.schema;
+  }
+  if (schema?._def?.typeName !== 'ZodObject') {
+    return [];
+  }
+
+  const shape: Record<string, z.ZodTypeAny> = (schema as z.AnyZodObject).shape;
+  return Object.entries(shape).map(([name, field]) => {
+    let inner: z.ZodTypeAny = field;
+    while (['ZodOptional', 'ZodNullable', 'ZodDefault'].includes(inner._def.typeName)) {
+      inner = inner._def.innerType;
+    }
+    return {
+      name,
+      type: String(inner._def.typeName || 'unknown').replace(/^Zod/, '').toLowerCase(),
+      required: !field.isOptional(),
+      description: field.description
+    };
+  });
+}
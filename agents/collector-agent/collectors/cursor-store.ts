@@ -0,0 +1,79 @@
+// 增量读取位置：按采集源保存上次读到的条目ID或本地文件的字节偏移
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggerUtils } from '../../../shared/utils';
+
+export interface CollectionCursor {
+  last_id?: string; // 上次读到的最新条目ID
+  resume_id?: string; // 上次受条数或页数上限截断时最后输出的条目ID，下次从它之后继续
+  resume_newest_id?: string; // 截断那次的最新条目ID，它与 resume_id 之间的条目已输出过
+  offset?: number; // 本地文件已读取到的字节位置，只记录完整的行
+  file_size?: number; // 记录偏移时的文件大小，文件变小视为被截断或轮转
+  updated_at: string;
+}
+
+export class CursorStore {
+  private filePath: string | null;
+  private cursors: Map<string, CollectionCursor> = new Map();
+
+  // filePath 为 null 时只保存在内存中
+  constructor(filePath: string | null = './data/collector-cursors.json') {
+    this.filePath = filePath ? path.resolve(filePath) : null;
+    this.load();
+  }
+
+  static key(sourceName: string, location: string): string {
+    return `${sourceName}|${location}`;
+  }
+
+  get(key: string): CollectionCursor | undefined {
+    return this.cursors.get(key);
+  }
+
+  set(key: string, cursor: Omit<CollectionCursor, 'updated_at'>): void {
+    this.cursors.set(key, { ...cursor, updated_at: new Date().toISOString() });
+    this.save();
+  }
+
+  delete(key: string): void {
+    if (this.cursors.delete(key)) {
+      this.save();
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const [key, cursor] of Object.entries<CollectionCursor>(data)) {
+        this.cursors.set(key, cursor);
+      }
+    } catch (error) {
+      LoggerUtils.warn('Failed to load collection cursors, starting empty', {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.cursors), null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      LoggerUtils.warn('Failed to persist collection cursors', {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
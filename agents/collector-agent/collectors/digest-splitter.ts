@@ -0,0 +1,144 @@
+// 邮件摘要拆分：把一封包含多条资讯的简报（例如券商晨报）按规则拆成多条
+import * as cheerio from 'cheerio';
+import { ParsedEmail } from './email-parser';
+
+export interface DigestSplitRule {
+  mode: 'heading' | 'separator' | 'html';
+  // heading：匹配条目标题行的正则，有捕获组时取第一个匹配到的捕获组作为标题
+  // separator：匹配分隔行的正则
+  pattern?: string;
+  selector?: string; // html：每条资讯所在元素的 CSS 选择器
+  title_selector?: string; // html：元素内标题的选择器，默认 h1-h4、strong、b
+  min_length?: number; // 正文短于该长度的片段（例如退订说明）丢弃，默认 10
+}
+
+export interface DigestSection {
+  title: string;
+  content: string;
+  url?: string; // 片段中的第一个链接
+}
+
+export class DigestSplitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DigestSplitError';
+  }
+}
+
+// 【标题】、一、标题、1. 标题 等常见的晨报条目格式
+const DEFAULT_HEADING_PATTERN = '^\\s*(?:(【.+?】.*)|[一二三四五六七八九十]+[、.．]\\s*(.+)|\\d{1,2}[、.．)](?!\\d)\\s*(.+))$';
+const DEFAULT_SEPARATOR_PATTERN = '^\\s*[-=_*~—]{3,}\\s*$';
+const DEFAULT_TITLE_SELECTOR = 'h1, h2, h3, h4, strong, b';
+const DEFAULT_MIN_LENGTH = 10;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'）)\]】]+/;
+
+// 没有拆分规则或规则没有命中时，整封邮件作为一条
+export function splitDigest(email: ParsedEmail, rule?: DigestSplitRule): DigestSection[] {
+  const whole: DigestSection = {
+    title: email.subject || firstLine(email.text),
+    content: email.text
+  };
+  if (!rule) {
+    return [whole];
+  }
+
+  const minLength = rule.min_length ?? DEFAULT_MIN_LENGTH;
+  let sections: DigestSection[];
+  switch (rule.mode) {
+    case 'heading':
+      sections = splitByHeading(email.text, compile(rule.pattern || DEFAULT_HEADING_PATTERN));
+      break;
+    case 'separator':
+      sections = splitBySeparator(email.text, compile(rule.pattern || DEFAULT_SEPARATOR_PATTERN));
+      break;
+    case 'html':
+      if (!rule.selector) {
+        throw new DigestSplitError('html split rule requires a selector');
+      }
+      sections = email.html ? splitHTML(email.html, rule.selector, rule.title_selector || DEFAULT_TITLE_SELECTOR) : [];
+      break;
+    default:
+      throw new DigestSplitError(`Unknown split mode: ${(rule as DigestSplitRule).mode}`);
+  }
+
+  sections = sections.filter(section => section.title && section.content.length >= minLength);
+  return sections.length > 0 ? sections : [whole];
+}
+
+function compile(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new DigestSplitError(`Invalid split pattern: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// 第一个标题行之前的内容（问候语、目录）不作为条目
+function splitByHeading(text: string, pattern: RegExp): DigestSection[] {
+  const sections: DigestSection[] = [];
+  let current: { title: string; lines: string[] } | null = null;
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = line.match(pattern);
+    if (match) {
+      if (current) {
+        sections.push(toSection(current.title, current.lines));
+      }
+      current = { title: (match.slice(1).find(group => group) || line).trim(), lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  if (current) {
+    sections.push(toSection(current.title, current.lines));
+  }
+  return sections;
+}
+
+// 每段的首个非空行作为标题
+function splitBySeparator(text: string, pattern: RegExp): DigestSection[] {
+  const chunks: string[][] = [[]];
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (pattern.test(line)) {
+      chunks.push([]);
+    } else {
+      chunks[chunks.length - 1].push(line);
+    }
+  }
+
+  return chunks
+    .map(lines => {
+      const titleIndex = lines.findIndex(line => line.trim());
+      return titleIndex === -1 ? null : toSection(lines[titleIndex].trim(), lines.slice(titleIndex + 1));
+    })
+    .filter((section): section is DigestSection => section !== null);
+}
+
+function splitHTML(html: string, selector: string, titleSelector: string): DigestSection[] {
+  const $ = cheerio.load(html);
+  return $(selector).toArray().map(element => {
+    const block = $(element);
+    const heading = block.find(titleSelector).first();
+    const title = heading.text().trim();
+    if (title) {
+      heading.remove();
+    }
+    // 块级元素之间换行，避免段落文字连在一起
+    block.find('br').replaceWith('\n');
+    block.find('p, div, li, tr, h1, h2, h3, h4, h5, h6').append('\n');
+    const content = block.text().replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+    const link = block.find('a[href^="http"]').first().attr('href');
+    return { title: title || firstLine(content), content, url: link || undefined };
+  });
+}
+
+function toSection(title: string, lines: string[]): DigestSection {
+  const content = lines.join('\n').trim();
+  return { title, content, url: (content.match(URL_PATTERN) || title.match(URL_PATTERN))?.[0] };
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n').find(candidate => candidate.trim()) || '';
+  return Array.from(line.trim()).slice(0, 60).join('');
+}
@@ -0,0 +1,269 @@
+// 本地文档解析：按扩展名把 .eml / .html / .txt / .md / .json / .xml 文件解析为一条或多条文档
+import * as cheerio from 'cheerio';
+import * as path from 'path';
+import { ArticleExtractionError, extractArticle } from './article-extractor';
+import { decodeBody } from './charset';
+import { EmailParseError, parseEmail } from './email-parser';
+import { FeedParseError, parseFeed } from './feed-parser';
+import { FieldMapping, resolveField } from './field-mapping';
+
+export type DocumentType = 'email' | 'html' | 'text' | 'markdown' | 'json' | 'xml';
+
+export interface ParsedDocument {
+  title: string;
+  content: string;
+  url?: string; // 文档自带的原文地址，例如 canonical 链接或 front matter 中的 url
+  published?: Date | string;
+  author?: string;
+  metadata: Record<string, any>; // 各格式特有的信息，例如邮件收件人、Markdown front matter
+}
+
+export interface DocumentParseOptions {
+  base_url: string; // 解析 HTML 中相对链接的基准地址
+  timezone?: string;
+  // .json 文件的字段映射，写法与 API 采集源相同
+  mapping?: {
+    title?: FieldMapping;
+    content?: FieldMapping;
+    url?: FieldMapping;
+    date?: FieldMapping;
+    author?: FieldMapping;
+    id?: FieldMapping;
+  };
+}
+
+export class DocumentParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
+
+export const DOCUMENT_TYPES: Record<string, DocumentType> = {
+  '.eml': 'email',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.json': 'json',
+  '.xml': 'xml'
+};
+
+const DEFAULT_JSON_MAPPING: Required<NonNullable<DocumentParseOptions['mapping']>> = {
+  title: 'title || headline || subject',
+  content: { path: 'content || body || content_text || content_html || summary', transforms: ['strip_html'] },
+  url: 'url || link || external_url',
+  date: 'published_at || publishedAt || date_published || date',
+  author: 'author.name || authors[0].name || author',
+  id: 'id'
+};
+
+// 纯文本首行过长时不作为标题
+const MAX_TITLE_LENGTH = 200;
+
+export function documentTypeFor(fileName: string): DocumentType | undefined {
+  return DOCUMENT_TYPES[path.extname(fileName).toLowerCase()];
+}
+
+export async function parseDocument(body: Buffer, type: DocumentType, options: DocumentParseOptions): Promise<ParsedDocument[]> {
+  try {
+    switch (type) {
+      case 'email':
+        return [await parseEmailDocument(body)];
+      case 'html':
+        return [parseHTMLDocument(body, options)];
+      case 'text':
+        return [parseTextDocument(decodeBody(body).text)];
+      case 'markdown':
+        return [parseMarkdownDocument(decodeBody(body).text)];
+      case 'json':
+        return parseJSONDocument(decodeBody(body, 'application/json').text, options);
+      case 'xml':
+        return parseXMLDocument(decodeBody(body, 'application/xml').text);
+      default:
+        throw new DocumentParseError(`Unsupported document type: ${type}`);
+    }
+  } catch (error) {
+    if (error instanceof DocumentParseError) {
+      throw error;
+    }
+    if (error instanceof EmailParseError || error instanceof ArticleExtractionError || error instanceof FeedParseError) {
+      throw new DocumentParseError(error.message);
+    }
+    throw new DocumentParseError(`Failed to parse ${type} document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+async function parseEmailDocument(body: Buffer): Promise<ParsedDocument> {
+  const email = await parseEmail(body);
+  return {
+    title: email.subject || firstLine(email.text),
+    content: email.text,
+    published: email.date,
+    author: email.from,
+    metadata: {
+      from: email.from,
+      from_address: email.from_address,
+      to: email.to,
+      message_id: email.message_id,
+      attachments: email.attachments.map(attachment => ({
+        filename: attachment.filename,
+        content_type: attachment.content_type,
+        size: attachment.size
+      }))
+    }
+  };
+}
+
+function parseHTMLDocument(body: Buffer, options: DocumentParseOptions): ParsedDocument {
+  const article = extractArticle(decodeBody(body, 'text/html').text, options.base_url, { timezone: options.timezone });
+  return {
+    title: article.title,
+    content: article.content,
+    url: article.url !== options.base_url ? article.url : undefined,
+    published: article.published,
+    author: article.byline,
+    metadata: {
+      excerpt: article.excerpt,
+      lead_image: article.lead_image,
+      site_name: article.site_name,
+      language: article.language
+    }
+  };
+}
+
+// 首个非空行作为标题，其余作为正文；只有一行时正文与标题相同
+function parseTextDocument(text: string): ParsedDocument {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const titleIndex = lines.findIndex(line => line.trim());
+  if (titleIndex === -1) {
+    throw new DocumentParseError('Empty document');
+  }
+
+  const title = lines[titleIndex].trim();
+  const rest = lines.slice(titleIndex + 1).join('\n').trim();
+  if (title.length > MAX_TITLE_LENGTH) {
+    return { title: firstLine(title), content: text.trim(), metadata: {} };
+  }
+  return { title, content: rest || title, metadata: {} };
+}
+
+// 支持简单的 YAML front matter（key: value），title / date / url / author 用于对应字段
+function parseMarkdownDocument(text: string): ParsedDocument {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const frontMatter: Record<string, string> = {};
+  let markdown = normalized;
+
+  const match = normalized.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (match) {
+    for (const line of match[1].split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        frontMatter[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim().replace(/^(['"])(.*)\1$/, '$2');
+      }
+    }
+    markdown = normalized.slice(match[0].length);
+  }
+
+  const heading = markdown.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m);
+  const parsed = parseTextDocument(markdownToText(markdown));
+  const title = frontMatter.title || (heading ? markdownToText(heading[1]) : parsed.title);
+  // 标题来自正文中的标题行时，正文不再重复
+  const content = heading && !frontMatter.title
+    ? markdownToText(markdown.replace(heading[0], '')).trim()
+    : markdownToText(markdown).trim();
+
+  return {
+    title,
+    content: content || title,
+    url: frontMatter.url || frontMatter.link,
+    published: frontMatter.date || frontMatter.published,
+    author: frontMatter.author,
+    metadata: Object.keys(frontMatter).length > 0 ? { front_matter: frontMatter } : {}
+  };
+}
+
+// 单个对象、对象数组，或带 items 数组的对象（例如 JSON Feed）
+function parseJSONDocument(text: string, options: DocumentParseOptions): ParsedDocument[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new DocumentParseError(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const records: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [data];
+  const mapping = { ...DEFAULT_JSON_MAPPING, ...options.mapping };
+  const documents = records
+    .filter(record => record && typeof record === 'object' && !Array.isArray(record))
+    .map(record => {
+      const content = resolveField(record, mapping.content);
+      const id = resolveField(record, mapping.id);
+      return {
+        title: resolveField(record, mapping.title) || firstLine(content),
+        content,
+        url: resolveField(record, mapping.url) || undefined,
+        published: resolveField(record, mapping.date) || undefined,
+        author: resolveField(record, mapping.author) || undefined,
+        metadata: { record_id: id || undefined, record }
+      };
+    })
+    .filter(document => document.title);
+
+  if (documents.length === 0) {
+    throw new DocumentParseError('No records with a title found in JSON document');
+  }
+  return documents;
+}
+
+// RSS / Atom 按条目拆分；其他 XML 取 <title> 或 <headline> 作为标题，去掉标签作为正文
+function parseXMLDocument(text: string): ParsedDocument[] {
+  try {
+    const feed = parseFeed(text);
+    return feed.items
+      .map(item => ({
+        title: htmlToText(item.title),
+        content: htmlToText(item.content || item.description),
+        url: item.link || undefined,
+        published: item.published || item.updated || undefined,
+        author: item.author || undefined,
+        metadata: { guid: item.guid, categories: item.categories, feed_format: feed.format }
+      }))
+      .filter(document => document.title || document.content)
+      .map(document => ({ ...document, title: document.title || firstLine(document.content) }));
+  } catch (error) {
+    if (!(error instanceof FeedParseError)) {
+      throw error;
+    }
+  }
+
+  const $ = cheerio.load(text, { xmlMode: true });
+  const title = $('title, headline').first().text().trim();
+  const content = $.root().text().replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim();
+  if (!content) {
+    throw new DocumentParseError('Empty XML document');
+  }
+  return [{ title: title || firstLine(content), content, metadata: { root: $.root().children().first().prop('tagName') } }];
+}
+
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*(\S.*?\S|\S)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+function htmlToText(html: string): string {
+  return html ? cheerio.load(html).root().text().trim() : '';
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n').find(candidate => candidate.trim()) || '';
+  return Array.from(line.trim()).slice(0, 60).join('');
+}
@@ -0,0 +1,77 @@
+// 邮件解析：读取 RFC 822 邮件（.eml）的主题、发件人、时间、正文和附件，处理 MIME 编码和字符集
+import { AddressObject, EmailAddress, simpleParser } from 'mailparser';
+
+export interface EmailAttachment {
+  filename?: string;
+  content_type: string;
+  size: number;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  subject: string;
+  from?: string; // '名称 <地址>'
+  from_address?: string;
+  to: string[];
+  date?: Date;
+  message_id?: string;
+  text: string; // 只有 HTML 正文时由 HTML 转换而来
+  html?: string;
+  attachments: EmailAttachment[];
+}
+
+export class EmailParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailParseError';
+  }
+}
+
+export async function parseEmail(source: Buffer | string): Promise<ParsedEmail> {
+  let mail;
+  try {
+    mail = await simpleParser(source);
+  } catch (error) {
+    throw new EmailParseError(`Invalid email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  // 任何文本都能被当作只有正文的邮件，没有这些头时视为不是邮件
+  if (!mail.subject && !mail.from && !mail.date && !mail.messageId) {
+    throw new EmailParseError('Not an email message: missing Subject, From and Date headers');
+  }
+
+  const sender = mail.from?.value[0];
+  return {
+    subject: mail.subject?.trim() || '',
+    from: sender ? formatAddress(sender) : undefined,
+    from_address: sender?.address || undefined,
+    to: addresses(mail.to),
+    date: mail.date,
+    message_id: mail.messageId,
+    text: (mail.text || '').trim(),
+    html: mail.html || undefined,
+    attachments: mail.attachments.map(attachment => ({
+      filename: attachment.filename,
+      content_type: attachment.contentType,
+      size: attachment.size,
+      content: attachment.content
+    }))
+  };
+}
+
+function formatAddress(address: EmailAddress): string | undefined {
+  if (address.name && address.address) {
+    return `${address.name} <${address.address}>`;
+  }
+  return address.address || address.name || undefined;
+}
+
+function addresses(field?: AddressObject | AddressObject[]): string[] {
+  if (!field) {
+    return [];
+  }
+  return (Array.isArray(field) ? field : [field])
+    .flatMap(group => group.value)
+    .map(address => address.address || address.name)
+    .filter((address): address is string => Boolean(address));
+}
@@ -0,0 +1,281 @@
+// 订阅源解析器：支持 RSS 2.0、Atom 1.0 和 RSS 1.0 (RDF)
+import { XMLParser } from 'fast-xml-parser';
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf';
+
+export interface FeedEnclosure {
+  url: string;
+  type?: string;
+  length?: number;
+  medium?: string;
+}
+
+export interface ParsedFeedItem {
+  title: string;
+  link: string;
+  guid?: string;
+  description: string; // 摘要，可能包含HTML
+  content?: string; // 全文，例如 content:encoded 或 Atom content
+  published?: string;
+  updated?: string;
+  author?: string;
+  categories: string[];
+  enclosures: FeedEnclosure[];
+  raw: any;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  link: string;
+  description: string;
+  items: ParsedFeedItem[];
+}
+
+const ARRAY_TAGS = new Set([
+  'item', 'entry', 'category', 'link', 'author', 'enclosure',
+  'dc:subject', 'dc:creator', 'media:content', 'media:thumbnail'
+]);
+
+const PARSER_OPTIONS = {
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (name: string) => ARRAY_TAGS.has(name)
+};
+
+const parser = new XMLParser(PARSER_OPTIONS);
+
+// Atom 的 type="xhtml" 内容是内嵌的 XHTML 元素，解析成对象后丢失了标记和顺序，需按原文再读一遍
+const xhtmlParser = new XMLParser({ ...PARSER_OPTIONS, stopNodes: ['feed.entry.content', 'feed.entry.summary'] });
+
+export class FeedParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedParseError';
+  }
+}
+
+export function parseFeed(xml: string): ParsedFeed {
+  let document: any;
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    throw new FeedParseError(`Invalid XML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (document?.rss) {
+    return parseRSS(document.rss);
+  }
+  if (document?.feed) {
+    return parseAtom(document.feed, xml);
+  }
+  if (document?.['rdf:RDF']) {
+    return parseRDF(document['rdf:RDF']);
+  }
+
+  throw new FeedParseError('Unrecognized feed format');
+}
+
+function parseRSS(rss: any): ParsedFeed {
+  const channel = rss.channel || {};
+  const items: any[] = channel.item || [];
+
+  return {
+    format: 'rss',
+    title: text(channel.title),
+    link: firstLink(channel.link),
+    description: text(channel.description),
+    items: items.map(item => ({
+      title: text(item.title),
+      link: firstLink(item.link) || permalinkGuid(item.guid),
+      guid: text(item.guid) || undefined,
+      description: text(item.description),
+      content: text(item['content:encoded']) || undefined,
+      published: text(item.pubDate) || firstText(item['dc:date']) || undefined,
+      updated: text(item['atom:updated']) || undefined,
+      author: text(item.author) || firstText(item['dc:creator']) || undefined,
+      categories: unique([
+        ...toArray(item.category).map(text),
+        ...toArray(item['dc:subject']).map(text)
+      ]),
+      enclosures: [
+        ...toArray(item.enclosure).map(enclosureFromAttributes),
+        ...mediaEnclosures(item)
+      ].filter(isEnclosure),
+      raw: item
+    }))
+  };
+}
+
+function parseAtom(feed: any, xml: string): ParsedFeed {
+  const entries: any[] = feed.entry || [];
+  // 只有含 XHTML 内容时才重新解析，条目顺序与 entries 一致
+  const rawEntries: any[] = entries.some(entry => isXhtml(entry.content) || isXhtml(entry.summary))
+    ? toArray(xhtmlParser.parse(xml).feed?.entry)
+    : [];
+
+  return {
+    format: 'atom',
+    title: text(feed.title),
+    link: atomLink(feed.link, 'alternate'),
+    description: text(feed.subtitle),
+    items: entries.map((entry, index) => ({
+      title: text(entry.title),
+      link: atomLink(entry.link, 'alternate') || urlOrEmpty(text(entry.id)),
+      guid: text(entry.id) || undefined,
+      description: atomText(entry.summary, rawEntries[index]?.summary),
+      content: atomText(entry.content, rawEntries[index]?.content) || undefined,
+      published: text(entry.published) || text(entry.issued) || undefined,
+      updated: text(entry.updated) || text(entry.modified) || undefined,
+      author: toArray(entry.author).map(author => text(author?.name ?? author)).filter(Boolean).join(', ') || undefined,
+      categories: unique(toArray(entry.category).map(category =>
+        typeof category === 'object' ? category['@_label'] || category['@_term'] || '' : text(category)
+      )),
+      enclosures: [
+        ...toArray(entry.link)
+          .filter(link => link?.['@_rel'] === 'enclosure')
+          .map(link => ({
+            url: link['@_href'],
+            type: link['@_type'],
+            length: toNumber(link['@_length'])
+          })),
+        ...mediaEnclosures(entry)
+      ].filter(isEnclosure),
+      raw: entry
+    }))
+  };
+}
+
+function parseRDF(rdf: any): ParsedFeed {
+  const channel = rdf.channel || {};
+  const items: any[] = rdf.item || channel.item || [];
+
+  return {
+    format: 'rdf',
+    title: text(channel.title),
+    link: firstLink(channel.link),
+    description: text(channel.description),
+    items: items.map(item => ({
+      title: text(item.title),
+      link: firstLink(item.link) || urlOrEmpty(item['@_rdf:about'] || ''),
+      guid: item['@_rdf:about'] || undefined,
+      description: text(item.description),
+      content: text(item['content:encoded']) || undefined,
+      published: firstText(item['dc:date']) || undefined,
+      updated: undefined,
+      author: firstText(item['dc:creator']) || undefined,
+      categories: unique(toArray(item['dc:subject']).map(text)),
+      enclosures: mediaEnclosures(item).filter(isEnclosure),
+      raw: item
+    }))
+  };
+}
+
+// 取文本值，兼容带属性的节点 { '#text': ..., '@_type': ... }
+function text(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return text(value[0]);
+  }
+  if (typeof value === 'object') {
+    return text(value['#text']);
+  }
+  return String(value).trim();
+}
+
+// type="xhtml" 时返回外层 div 内的 XHTML 原文，其余类型按文本读取
+function atomText(value: any, raw: any): string {
+  if (!isXhtml(value)) {
+    return text(value);
+  }
+  const markup = text(raw);
+  const wrapper = markup.match(/^<(?:[\w-]+:)?div\b[^>]*>([\s\S]*)<\/(?:[\w-]+:)?div>$/);
+  return (wrapper ? wrapper[1] : markup).trim();
+}
+
+function isXhtml(value: any): boolean {
+  return typeof value === 'object' && value?.['@_type'] === 'xhtml';
+}
+
+function firstText(values: any): string {
+  return toArray(values).map(text).find(Boolean) || '';
+}
+
+// RSS 的 <link> 可能与 <atom:link href> 混用
+function firstLink(links: any): string {
+  for (const link of toArray(links)) {
+    const value = typeof link === 'object' ? text(link) || link['@_href'] || '' : text(link);
+    if (value) {
+      return value;
+    }
+  }
+  return '';
+}
+
+function atomLink(links: any, rel: string): string {
+  const candidates = toArray(links).filter(link => typeof link === 'object');
+  const match = candidates.find(link => (link['@_rel'] || 'alternate') === rel && (!link['@_type'] || link['@_type'].includes('html')))
+    || candidates.find(link => (link['@_rel'] || 'alternate') === rel);
+  return match?.['@_href'] || '';
+}
+
+function permalinkGuid(guid: any): string {
+  if (guid === undefined || guid === null) {
+    return '';
+  }
+  const isPermaLink = typeof guid !== 'object' || guid['@_isPermaLink'] !== 'false';
+  return isPermaLink ? urlOrEmpty(text(guid)) : '';
+}
+
+function mediaEnclosures(item: any): FeedEnclosure[] {
+  const sources = [
+    ...toArray(item['media:content']),
+    ...toArray(item['media:group']).flatMap(group => toArray(group?.['media:content'])),
+    ...toArray(item['media:thumbnail']).map(thumbnail => ({ ...thumbnail, '@_medium': 'image' }))
+  ];
+
+  return sources.map(media => ({
+    url: media?.['@_url'],
+    type: media?.['@_type'],
+    length: toNumber(media?.['@_fileSize']),
+    medium: media?.['@_medium']
+  }));
+}
+
+function enclosureFromAttributes(enclosure: any): FeedEnclosure {
+  return {
+    url: enclosure?.['@_url'],
+    type: enclosure?.['@_type'],
+    length: toNumber(enclosure?.['@_length'])
+  };
+}
+
+function isEnclosure(enclosure: FeedEnclosure): boolean {
+  return typeof enclosure.url === 'string' && enclosure.url.length > 0;
+}
+
+function toArray<T = any>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function toNumber(value: any): number | undefined {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function urlOrEmpty(value: string): string {
+  return /^https?:\/\//i.test(value) ? value : '';
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
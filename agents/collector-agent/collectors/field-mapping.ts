@@ -0,0 +1,161 @@
+// 字段映射：用 JMESPath 表达式从接口响应中取值，并按配置做简单转换
+import { search } from 'jmespath';
+
+// 字符串形式等同于 { path }
+export type FieldMapping = string | FieldMappingRule;
+
+export interface FieldMappingRule {
+  path?: string; // JMESPath 表达式，例如 'title || headline'、'images[0].url'
+  template?: string; // 模板字符串，{{ }} 中为 JMESPath 表达式，例如 'https://example.com/news/{{id}}'
+  concat?: string[]; // 依次取多个表达式的值并拼接，忽略空值
+  separator?: string; // concat 的分隔符，默认空字符串
+  transforms?: FieldTransform[];
+  default?: string; // 取值为空时使用
+}
+
+export type FieldTransform =
+  | 'strip_html'
+  | 'lowercase'
+  | 'uppercase'
+  | { type: 'date'; format: string } // 按格式解析日期，例如 'YYYYMMDDHHmmss'
+  | { type: 'replace'; pattern: string; replacement?: string; flags?: string }
+  | { type: 'truncate'; length: number }
+  | { type: 'prefix'; value: string }
+  | { type: 'suffix'; value: string };
+
+export class FieldMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FieldMappingError';
+  }
+}
+
+// 取表达式的值；兼容 JSONPath 风格的 $.a.b 写法，以及含连字符等字符的旧式点号路径
+export function evaluatePath(data: any, expression: string): any {
+  const normalized = expression.trim() === '$'
+    ? '@'
+    : expression.trim().replace(/^\$\.?/, '');
+
+  try {
+    return search(data, normalized);
+  } catch (error) {
+    if (/^[^\s|&()[\]{}'"`]+$/.test(normalized)) {
+      return normalized.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), data);
+    }
+    throw new FieldMappingError(`Invalid mapping expression "${expression}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export function resolveField(data: any, mapping: FieldMapping): string {
+  const rule: FieldMappingRule = typeof mapping === 'string' ? { path: mapping } : mapping;
+  let value: string;
+
+  if (rule.template !== undefined) {
+    value = rule.template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, expression) => toText(evaluatePath(data, expression)));
+  } else if (rule.concat) {
+    value = rule.concat
+      .map(expression => toText(evaluatePath(data, expression)))
+      .filter(Boolean)
+      .join(rule.separator ?? '');
+  } else {
+    value = rule.path ? toText(evaluatePath(data, rule.path)) : '';
+  }
+
+  for (const transform of rule.transforms || []) {
+    value = applyTransform(value, transform);
+  }
+
+  value = value.trim();
+  return value || rule.default || '';
+}
+
+function applyTransform(value: string, transform: FieldTransform): string {
+  if (typeof transform === 'string') {
+    switch (transform) {
+      case 'strip_html':
+        return stripHTML(value);
+      case 'lowercase':
+        return value.toLowerCase();
+      case 'uppercase':
+        return value.toUpperCase();
+      default:
+        throw new FieldMappingError(`Unknown transform: ${transform}`);
+    }
+  }
+
+  switch (transform.type) {
+    case 'date':
+      return formatDate(value, transform.format);
+    case 'replace':
+      return value.replace(new RegExp(transform.pattern, transform.flags ?? 'g'), transform.replacement ?? '');
+    case 'truncate':
+      return Array.from(value).slice(0, transform.length).join('');
+    case 'prefix':
+      return value ? `${transform.value}${value}` : value;
+    case 'suffix':
+      return value ? `${value}${transform.value}` : value;
+    default:
+      throw new FieldMappingError(`Unknown transform: ${JSON.stringify(transform)}`);
+  }
+}
+
+// 按 YYYY/MM/DD/HH/mm/ss 格式解析，输出不带时区的 "YYYY-MM-DD HH:mm:ss"，时区由采集源配置决定
+function formatDate(value: string, format: string): string {
+  const tokens = ['YYYY', 'MM', 'DD', 'HH', 'mm', 'ss'];
+  const order: string[] = [];
+  let pattern = '';
+
+  for (let i = 0; i < format.length;) {
+    const token = tokens.find(candidate => format.startsWith(candidate, i));
+    if (token) {
+      pattern += `(\\d{${token.length}})`;
+      order.push(token);
+      i += token.length;
+    } else {
+      pattern += format[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      i++;
+    }
+  }
+
+  const match = value.trim().match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    return value;
+  }
+
+  const parts: Record<string, string> = {};
+  order.forEach((token, index) => {
+    parts[token] = match[index + 1];
+  });
+
+  const date = `${parts.YYYY}-${parts.MM || '01'}-${parts.DD || '01'}`;
+  return parts.HH ? `${date} ${parts.HH}:${parts.mm || '00'}:${parts.ss || '00'}` : date;
+}
+
+function toText(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function stripHTML(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
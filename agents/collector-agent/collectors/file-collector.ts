@@ -0,0 +1,285 @@
+// 文件采集器：读取目录中投放的 .eml / .html / .txt / .md / .json / .xml 文件，解析后移入归档目录
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { NewsItem } from '../../../shared/types';
+import { LoggerUtils, NewsDateUtils, NewsIdentityUtils } from '../../../shared/utils';
+import { DOCUMENT_TYPES, DocumentParseOptions, documentTypeFor, parseDocument, ParsedDocument } from './document-parser';
+
+export interface FileSourceConfig {
+  directory: string;
+  name: string;
+  category?: string;
+  language?: string;
+  timezone?: string; // 发布时间未带时区时按该时区解释，默认 Asia/Shanghai
+  archive_directory?: string; // 处理完成的文件按日期移入该目录，默认 <directory>/archive
+  failed_directory?: string; // 无法解析的文件移入该目录，默认 <archive_directory>/failed
+  extensions?: string[]; // 只处理这些扩展名，默认全部支持的格式
+  max_files?: number; // 每次最多处理的文件数，默认 50
+  settle_ms?: number; // 修改时间在该时间内的文件可能仍在写入，留到下次，默认 2000
+  watch?: boolean; // 监听目录，有新文件时立即采集，默认开启
+  mapping?: DocumentParseOptions['mapping']; // .json 文件的字段映射
+}
+
+export interface FileCollectorResult {
+  source: string;
+  items: NewsItem[];
+  collected_count: number;
+  processing_time: number;
+  files_processed: number;
+  files_failed: number;
+  failed_files?: Array<{ file: string; error: string }>;
+  error?: string;
+}
+
+export interface FileCollectOptions {
+  archive?: boolean; // false 时只解析不移动文件，供测试采集源使用
+}
+
+interface PendingFile {
+  name: string;
+  path: string;
+  size: number;
+  modified_at: Date;
+}
+
+const DEFAULT_MAX_FILES = 50;
+const DEFAULT_SETTLE_MS = 2000;
+
+export class FileCollector {
+  async collectFromSource(config: FileSourceConfig, options: FileCollectOptions = {}): Promise<FileCollectorResult> {
+    const startTime = Date.now();
+    const archive = options.archive !== false;
+    const items: NewsItem[] = [];
+    const failedFiles: Array<{ file: string; error: string }> = [];
+    let processed = 0;
+
+    try {
+      const stat = await fs.promises.stat(config.directory).catch(() => null);
+      if (!stat?.isDirectory()) {
+        throw new Error(`Directory not found: ${config.directory}`);
+      }
+
+      const files = await this.listPendingFiles(config);
+      LoggerUtils.info('Starting file collection', { source: config.name, directory: config.directory, pending: files.length });
+
+      for (const file of files) {
+        let documents: ParsedDocument[];
+        let body: Buffer;
+        try {
+          body = await fs.promises.readFile(file.path);
+          documents = await parseDocument(body, documentTypeFor(file.name)!, {
+            base_url: pathToFileURL(file.path).href,
+            timezone: config.timezone,
+            mapping: config.mapping
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          LoggerUtils.warn('Failed to parse dropped file', { source: config.name, file: file.name, error: message });
+          failedFiles.push({ file: file.name, error: message });
+          if (archive) {
+            await this.moveFile(file.path, this.failedDirectory(config));
+          }
+          continue;
+        }
+
+        const storedPath = archive ? await this.moveFile(file.path, this.archiveDirectory(config, new Date())) : file.path;
+        const sha1 = createHash('sha1').update(body).digest('hex');
+        documents.forEach((document, index) => {
+          items.push(this.createNewsItem(document, index, file, storedPath, sha1, config));
+        });
+        processed++;
+      }
+
+      const processingTime = Date.now() - startTime;
+      LoggerUtils.info('File collection completed', {
+        source: config.name,
+        files_processed: processed,
+        files_failed: failedFiles.length,
+        collected_count: items.length,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items,
+        collected_count: items.length,
+        processing_time: processingTime,
+        files_processed: processed,
+        files_failed: failedFiles.length,
+        failed_files: failedFiles.length > 0 ? failedFiles : undefined
+      };
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      LoggerUtils.error('File collection failed', {
+        source: config.name,
+        error: errorMessage,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items,
+        collected_count: items.length,
+        processing_time: processingTime,
+        files_processed: processed,
+        files_failed: failedFiles.length,
+        error: errorMessage
+      };
+    }
+  }
+
+  // 目录中出现新文件时回调，短时间内的多次变化合并为一次；返回停止监听的函数
+  watch(config: FileSourceConfig, onChange: () => void): () => void {
+    const settleMs = config.settle_ms ?? DEFAULT_SETTLE_MS;
+    let timer: NodeJS.Timeout | null = null;
+
+    const watcher = fs.watch(config.directory, (_event, fileName) => {
+      // 文件被移入归档目录时同样会触发事件，只关注仍在目录中的待处理文件
+      const name = fileName ? fileName.toString() : '';
+      if (!name || !this.isCandidate(name, config) || !fs.existsSync(path.join(config.directory, name))) {
+        return;
+      }
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        onChange();
+      }, settleMs);
+    });
+    watcher.on('error', error => {
+      LoggerUtils.warn('Directory watch failed', { source: config.name, directory: config.directory, error: error.message });
+    });
+
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watcher.close();
+    };
+  }
+
+  // 按修改时间从旧到新，跳过隐藏文件、不支持的格式和仍在写入的文件
+  private async listPendingFiles(config: FileSourceConfig): Promise<PendingFile[]> {
+    const settledBefore = Date.now() - (config.settle_ms ?? DEFAULT_SETTLE_MS);
+    const entries = await fs.promises.readdir(config.directory, { withFileTypes: true });
+    const files: PendingFile[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !this.isCandidate(entry.name, config)) {
+        continue;
+      }
+      const filePath = path.join(config.directory, entry.name);
+      const stat = await fs.promises.stat(filePath);
+      if (stat.mtimeMs > settledBefore) {
+        continue;
+      }
+      files.push({ name: entry.name, path: filePath, size: stat.size, modified_at: stat.mtime });
+    }
+
+    return files
+      .sort((a, b) => a.modified_at.getTime() - b.modified_at.getTime() || a.name.localeCompare(b.name))
+      .slice(0, config.max_files ?? DEFAULT_MAX_FILES);
+  }
+
+  private isCandidate(fileName: string, config: FileSourceConfig): boolean {
+    if (fileName.startsWith('.') || fileName.startsWith('~')) {
+      return false;
+    }
+    const extension = path.extname(fileName).toLowerCase();
+    const allowed = (config.extensions || Object.keys(DOCUMENT_TYPES)).map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+    return allowed.includes(extension) && documentTypeFor(fileName) !== undefined;
+  }
+
+  private archiveDirectory(config: FileSourceConfig, date: Date): string {
+    const base = config.archive_directory || path.join(config.directory, 'archive');
+    return path.join(base, date.toISOString().slice(0, 10));
+  }
+
+  private failedDirectory(config: FileSourceConfig): string {
+    return config.failed_directory || path.join(config.archive_directory || path.join(config.directory, 'archive'), 'failed');
+  }
+
+  // 同名文件已存在时在文件名后追加时间戳；跨文件系统时改为复制后删除
+  private async moveFile(filePath: string, directory: string): Promise<string> {
+    await fs.promises.mkdir(directory, { recursive: true });
+    const extension = path.extname(filePath);
+    let target = path.join(directory, path.basename(filePath));
+    if (fs.existsSync(target)) {
+      target = path.join(directory, `${path.basename(filePath, extension)}-${Date.now()}${extension}`);
+    }
+
+    try {
+      await fs.promises.rename(filePath, target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await fs.promises.copyFile(filePath, target);
+      await fs.promises.unlink(filePath);
+    }
+    return target;
+  }
+
+  private createNewsItem(
+    document: ParsedDocument,
+    index: number,
+    file: PendingFile,
+    storedPath: string,
+    sha1: string,
+    config: FileSourceConfig
+  ): NewsItem {
+    // 文档没有时间时以文件修改时间为准
+    const parsed = document.published ? NewsDateUtils.parse(document.published, { timezone: config.timezone }) : undefined;
+    const publishTime = parsed && parsed.confidence !== 'fallback'
+      ? parsed
+      : { date: file.modified_at, confidence: 'inferred' as const };
+    const url = document.url || pathToFileURL(storedPath).href;
+
+    return {
+      // 按文件内容生成ID，同一文件重复投放不会产生重复记录
+      id: NewsIdentityUtils.generateNewsId('file', document.url || '', `${sha1}#${index}`),
+      title: document.title,
+      content: document.content,
+      url,
+      source: config.name,
+      publish_time: publishTime.date,
+      collected_at: new Date(),
+      raw_data: {
+        source_config: config,
+        file: {
+          name: file.name,
+          path: storedPath,
+          type: documentTypeFor(file.name),
+          size: file.size,
+          modified_at: file.modified_at.toISOString(),
+          sha1
+        },
+        author: document.author,
+        ...document.metadata,
+        publish_time_confidence: publishTime.confidence,
+        category: config.category,
+        language: document.metadata.language || config.language
+      }
+    };
+  }
+
+  async validateFileSource(config: Pick<FileSourceConfig, 'directory'>): Promise<boolean> {
+    try {
+      await fs.promises.access(config.directory, fs.constants.R_OK | fs.constants.W_OK);
+      return (await fs.promises.stat(config.directory)).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async testFileSource(config: FileSourceConfig): Promise<FileCollectorResult> {
+    // 只解析前3个文件，不移动
+    const testConfig = { ...config, max_files: 3 };
+    return await this.collectFromSource(testConfig, { archive: false });
+  }
+}
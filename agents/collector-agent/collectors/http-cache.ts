@@ -0,0 +1,130 @@
+// HTTP条件请求缓存：按采集源保存 ETag / Last-Modified
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggerUtils } from '../../../shared/utils';
+
+export interface HttpCacheEntry {
+  url: string;
+  etag?: string;
+  last_modified?: string;
+  last_checked: string;
+  last_changed: string;
+  not_modified_count: number;
+}
+
+export class HttpCacheStore {
+  private filePath: string | null;
+  private entries: Map<string, HttpCacheEntry> = new Map();
+
+  // filePath 为 null 时只保存在内存中
+  constructor(filePath: string | null = './data/collector-http-cache.json') {
+    this.filePath = filePath ? path.resolve(filePath) : null;
+    this.load();
+  }
+
+  static key(sourceName: string, url: string): string {
+    return `${sourceName}|${url}`;
+  }
+
+  get(key: string): HttpCacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  // 生成 If-None-Match / If-Modified-Since 请求头
+  getConditionalHeaders(key: string): Record<string, string> {
+    const entry = this.entries.get(key);
+    const headers: Record<string, string> = {};
+
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.last_modified) {
+      headers['If-Modified-Since'] = entry.last_modified;
+    }
+
+    return headers;
+  }
+
+  // 记录成功响应的校验头，仅在内容已成功解析后调用
+  update(key: string, url: string, responseHeaders: Record<string, any>): void {
+    const etag = headerValue(responseHeaders, 'etag');
+    const lastModified = headerValue(responseHeaders, 'last-modified');
+    const now = new Date().toISOString();
+
+    if (!etag && !lastModified) {
+      if (this.entries.delete(key)) {
+        this.save();
+      }
+      return;
+    }
+
+    this.entries.set(key, {
+      url,
+      etag,
+      last_modified: lastModified,
+      last_checked: now,
+      last_changed: now,
+      not_modified_count: 0
+    });
+    this.save();
+  }
+
+  // 收到 304 时刷新检查时间，服务端可能同时下发新的校验头
+  markNotModified(key: string, responseHeaders: Record<string, any>): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    entry.etag = headerValue(responseHeaders, 'etag') || entry.etag;
+    entry.last_modified = headerValue(responseHeaders, 'last-modified') || entry.last_modified;
+    entry.last_checked = new Date().toISOString();
+    entry.not_modified_count += 1;
+    this.save();
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      for (const [key, entry] of Object.entries<HttpCacheEntry>(data)) {
+        this.entries.set(key, entry);
+      }
+    } catch (error) {
+      LoggerUtils.warn('Failed to load HTTP cache, starting empty', {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // 先写临时文件再重命名，避免进程中断时留下不完整的JSON
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.entries), null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      LoggerUtils.warn('Failed to persist HTTP cache', {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+function headerValue(headers: Record<string, any>, name: string): string | undefined {
+  const value = headers?.[name];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return Array.isArray(value) ? String(value[0]) : String(value);
+}
@@ -0,0 +1,307 @@
+// JSON Feed 采集器：读取 JSON Feed 1.0 / 1.1，按 next_url 翻页，记录上次读到的条目ID做增量采集
+import axios, { AxiosRequestConfig } from 'axios';
+import { NewsItem } from '../../../shared/types';
+import { LoggerUtils, NewsDateUtils, NewsIdentityUtils } from '../../../shared/utils';
+import { decodeBody } from './charset';
+import { CursorStore } from './cursor-store';
+import { FieldMapping, resolveField } from './field-mapping';
+import { PoliteFetcher } from './polite-fetcher';
+
+export interface JSONFeedSourceConfig {
+  url: string;
+  name: string;
+  category?: string;
+  language?: string;
+  timezone?: string; // 发布时间未带时区时按该时区解释，默认 Asia/Shanghai
+  max_items?: number; // 默认 20
+  max_pages?: number; // 最多跟随 next_url 读取的页数，默认 3
+  incremental?: boolean; // 读到上次最新的条目即停止，默认开启
+  // 覆盖默认映射，例如读取 _ext 扩展字段：{ author: '_ext.department' }
+  mapping?: {
+    title?: FieldMapping;
+    content?: FieldMapping;
+    url?: FieldMapping;
+    date?: FieldMapping;
+    author?: FieldMapping;
+    id?: FieldMapping;
+  };
+  headers?: Record<string, string>;
+  user_agent?: string;
+  respect_robots?: boolean; // 是否遵守 robots.txt，默认开启
+  proxy?: string; // 代理地址，或 'pool' 表示从共享代理池轮换
+}
+
+export interface JSONFeedCollectorResult {
+  source: string;
+  items: NewsItem[];
+  collected_count: number;
+  processing_time: number;
+  pages_fetched: number;
+  reached_cursor?: boolean; // 是否读到了上次采集的最新条目
+  error?: string;
+}
+
+export interface JSONFeedCollectOptions {
+  since?: Date; // 上次成功采集时间，没有找到上次的条目ID时按此过滤
+}
+
+export interface JSONFeed {
+  version: string;
+  title?: string;
+  home_page_url?: string;
+  next_url?: string;
+  language?: string;
+  items: any[];
+}
+
+export class JSONFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JSONFeedError';
+  }
+}
+
+// content_text 优先，其次 content_html 和 summary；1.1 的 authors 优先于 1.0 的 author
+const DEFAULT_MAPPING: Required<NonNullable<JSONFeedSourceConfig['mapping']>> = {
+  title: 'title',
+  content: { path: 'content_text || content_html || summary', transforms: ['strip_html'] },
+  url: 'url || external_url',
+  date: 'date_published || date_modified',
+  author: 'authors[0].name || author.name',
+  id: 'id'
+};
+
+const DEFAULT_MAX_ITEMS = 20;
+const DEFAULT_MAX_PAGES = 3;
+
+export function parseJSONFeed(text: string): JSONFeed {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new JSONFeedError(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!data || typeof data !== 'object' || !/^https?:\/\/jsonfeed\.org\/version\/1(\.1)?\/?$/.test(String(data.version || ''))) {
+    throw new JSONFeedError('Not a JSON Feed: missing or unsupported version');
+  }
+  if (!Array.isArray(data.items)) {
+    throw new JSONFeedError('Not a JSON Feed: items must be an array');
+  }
+  return data as JSONFeed;
+}
+
+export class JSONFeedCollector {
+  private userAgent: string;
+  private timeout: number;
+  private fetcher?: PoliteFetcher;
+  private cursors: CursorStore;
+
+  constructor(
+    userAgent: string = 'AI-News-Collector/1.0',
+    timeout: number = 30000,
+    fetcher?: PoliteFetcher,
+    cursors: CursorStore = new CursorStore(null)
+  ) {
+    this.userAgent = userAgent;
+    this.timeout = timeout;
+    this.fetcher = fetcher;
+    this.cursors = cursors;
+  }
+
+  async collectFromSource(config: JSONFeedSourceConfig, options: JSONFeedCollectOptions = {}): Promise<JSONFeedCollectorResult> {
+    const startTime = Date.now();
+    const incremental = config.incremental !== false;
+    const cursorKey = CursorStore.key(config.name, config.url);
+    const cursor = incremental ? this.cursors.get(cursorKey) : undefined;
+    const lastId = cursor?.last_id;
+    const resume = cursor?.resume_id ? cursor : undefined;
+    const maxItems = config.max_items ?? DEFAULT_MAX_ITEMS;
+    const mapping = { ...DEFAULT_MAPPING, ...config.mapping };
+    let pagesFetched = 0;
+
+    try {
+      LoggerUtils.info('Starting JSON Feed collection', { source: config.name, url: config.url, last_id: lastId });
+
+      // 条目按从新到旧排列，遇到上次的最新条目即停止。
+      // 上次被截断时：先取截断之后的新条目，跳过已输出的区间，再从 resume_id 之后继续
+      const records: Array<{ record: any; feed: JSONFeed }> = [];
+      let newestId: string | undefined;
+      let reachedCursor = false;
+      let phase: 'fresh' | 'skip' | 'backlog' = resume ? 'fresh' : 'backlog';
+      let pageUrl: string | undefined = config.url;
+
+      while (pageUrl && pagesFetched < (config.max_pages ?? DEFAULT_MAX_PAGES) && records.length < maxItems) {
+        const feed = parseJSONFeed(await this.fetchFeed(pageUrl, config));
+        pagesFetched++;
+
+        for (const record of feed.items) {
+          const id = resolveField(record, mapping.id);
+          newestId = newestId ?? (id || undefined);
+          if (lastId && id === lastId) {
+            reachedCursor = true;
+            break;
+          }
+          if (phase === 'fresh' && id === resume?.resume_newest_id) {
+            phase = 'skip';
+          }
+          if (phase === 'skip') {
+            if (id === resume?.resume_id) {
+              phase = 'backlog';
+            }
+            continue;
+          }
+          records.push({ record, feed });
+        }
+
+        pageUrl = reachedCursor || !feed.next_url ? undefined : new URL(feed.next_url, pageUrl).toString();
+      }
+
+      let items = records
+        .slice(0, maxItems)
+        .map(({ record, feed }) => this.createNewsItem(record, feed, mapping, config))
+        .filter((item): item is NewsItem => item !== null);
+
+      // 上次的条目已不在订阅中（或首次采集）时，按上次采集时间过滤；续读积压条目时不过滤
+      if (!reachedCursor && !resume && options.since) {
+        items = items.filter(item => item.raw_data?.publish_time_confidence === 'fallback' || item.publish_time >= options.since!);
+      }
+
+      // 读到上次的条目或读完全部分页才推进游标，否则记录最后输出的条目，下次继续；
+      // 本次只跳过了已输出的区间、没有可输出的条目时游标保持不变
+      const complete = records.length <= maxItems && (reachedCursor || !pageUrl);
+      if (incremental && newestId && !complete && records.length > 0) {
+        const resumeId = resolveField(records[Math.min(records.length, maxItems) - 1].record, mapping.id);
+        this.cursors.set(cursorKey, resumeId
+          ? { last_id: lastId, resume_id: resumeId, resume_newest_id: newestId }
+          : { last_id: newestId });
+      } else if (incremental && newestId && complete && (newestId !== lastId || resume)) {
+        this.cursors.set(cursorKey, { last_id: newestId });
+      }
+
+      const processingTime = Date.now() - startTime;
+      LoggerUtils.info('JSON Feed collection completed', {
+        source: config.name,
+        pages_fetched: pagesFetched,
+        reached_cursor: reachedCursor,
+        collected_count: items.length,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items,
+        collected_count: items.length,
+        processing_time: processingTime,
+        pages_fetched: pagesFetched,
+        reached_cursor: reachedCursor
+      };
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      LoggerUtils.error('JSON Feed collection failed', {
+        source: config.name,
+        error: errorMessage,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items: [],
+        collected_count: 0,
+        processing_time: processingTime,
+        pages_fetched: pagesFetched,
+        error: errorMessage
+      };
+    }
+  }
+
+  private async fetchFeed(url: string, config: JSONFeedSourceConfig): Promise<string> {
+    // next_url 由订阅方给出，指向其他主机时不带配置的请求头（可能含认证信息）
+    const sameOrigin = new URL(url).origin === new URL(config.url).origin;
+    const requestConfig: AxiosRequestConfig = {
+      timeout: this.timeout,
+      headers: {
+        'User-Agent': config.user_agent || this.userAgent,
+        'Accept': 'application/feed+json, application/json',
+        ...(sameOrigin ? config.headers : {})
+      },
+      validateStatus: (status) => status < 500,
+      responseType: 'arraybuffer'
+    };
+    const response = this.fetcher
+      ? await this.fetcher.get(url, requestConfig, { respect_robots: config.respect_robots, proxy: config.proxy })
+      : await axios.get(url, requestConfig);
+
+    if (response.status !== 200) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return decodeBody(Buffer.from(response.data), response.headers?.['content-type']).text;
+  }
+
+  private createNewsItem(
+    record: any,
+    feed: JSONFeed,
+    mapping: Required<NonNullable<JSONFeedSourceConfig['mapping']>>,
+    config: JSONFeedSourceConfig
+  ): NewsItem | null {
+    try {
+      const content = resolveField(record, mapping.content);
+      // 微博客式的条目没有标题，截取正文开头作为标题
+      const title = resolveField(record, mapping.title) || content.slice(0, 60);
+      const url = resolveField(record, mapping.url);
+      const id = resolveField(record, mapping.id);
+      if (!title || (!url && !id)) {
+        return null;
+      }
+
+      const dateValue = resolveField(record, mapping.date);
+      const publishTime = NewsDateUtils.parse(dateValue, { timezone: config.timezone });
+
+      return {
+        id: NewsIdentityUtils.generateNewsId('jsonfeed', url, id || undefined),
+        title,
+        content,
+        url,
+        source: config.name,
+        publish_time: publishTime.date,
+        collected_at: new Date(),
+        raw_data: {
+          source_config: config,
+          guid: id || undefined,
+          author: resolveField(record, mapping.author) || undefined,
+          tags: Array.isArray(record.tags) ? record.tags : undefined,
+          summary: typeof record.summary === 'string' ? record.summary : undefined,
+          lead_image: record.image || record.banner_image || undefined,
+          attachments: Array.isArray(record.attachments) ? record.attachments : undefined,
+          feed_item: record,
+          publish_time_confidence: publishTime.confidence,
+          category: config.category,
+          language: record.language || feed.language || config.language
+        }
+      };
+    } catch (error) {
+      LoggerUtils.warn('Failed to create news item from JSON Feed', {
+        source: config.name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  async validateJSONFeedSource(url: string): Promise<boolean> {
+    try {
+      parseJSONFeed(await this.fetchFeed(url, { url, name: url }));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async testJSONFeedSource(config: JSONFeedSourceConfig): Promise<JSONFeedCollectorResult> {
+    // 限制测试时的条目数量，且不更新增量位置
+    const testConfig = { ...config, max_items: 3, incremental: false };
+    return await this.collectFromSource(testConfig);
+  }
+}
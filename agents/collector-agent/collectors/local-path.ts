@@ -0,0 +1,40 @@
+// 本地路径限制：file / ndjson / mailbox 等采集源只能读写允许的根目录（local_roots）内的文件
+import fs from 'fs';
+import path from 'path';
+
+export class LocalPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocalPathError';
+  }
+}
+
+// 解析符号链接后判断是否位于某个根目录内，返回解析后的路径
+export function resolveWithinRoots(target: string, roots: string[]): string {
+  const resolved = realpathNearest(path.resolve(target));
+  for (const root of roots) {
+    const relative = path.relative(realpathNearest(path.resolve(root)), resolved);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return resolved;
+    }
+  }
+  throw new LocalPathError(`Local path is outside the allowed roots: ${target}`);
+}
+
+// 目标尚不存在时（例如待创建的归档目录）解析最近的已存在上级目录
+function realpathNearest(target: string): string {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
@@ -0,0 +1,478 @@
+// 邮箱采集器：从 IMAP 服务器或本地 Maildir / mbox 读取研究机构的邮件简报，按规则拆分为多条资讯，处理后标记
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { ImapFlow, MailboxLockObject } from 'imapflow';
+import * as path from 'path';
+import { NewsItem } from '../../../shared/types';
+import { LoggerUtils, NewsIdentityUtils } from '../../../shared/utils';
+import { CursorStore } from './cursor-store';
+import { DigestSection, DigestSplitRule, splitDigest } from './digest-splitter';
+import { ParsedEmail, parseEmail } from './email-parser';
+
+export interface IMAPConfig {
+  host: string;
+  port?: number; // 默认 993
+  secure?: boolean; // 默认使用 TLS
+  user: string;
+  password: string; // 建议写成 ${变量名} 环境变量引用，明文密码不会被持久化
+  mailbox?: string; // 默认 INBOX
+  processed_mailbox?: string; // 处理后移入该文件夹，未设置时只标记为已读
+}
+
+export interface MailboxSourceConfig {
+  name: string;
+  imap?: IMAPConfig; // imap / maildir / mbox 三选一
+  maildir?: string; // 本地 Maildir 目录，读取 new/ 中的邮件，处理后移入 cur/
+  mbox?: string; // 本地 mbox 文件，按字节偏移增量读取
+  category?: string;
+  language?: string;
+  from?: string[]; // 只处理这些发件人的邮件，可以是完整地址或域名
+  subject_pattern?: string; // 只处理主题匹配该正则的邮件
+  split?: DigestSplitRule; // 把一封简报拆成多条的规则，未设置时整封邮件作为一条
+  max_messages?: number; // 每次最多读取的邮件数，默认 20
+}
+
+export interface MailboxCollectorResult {
+  source: string;
+  items: NewsItem[];
+  collected_count: number;
+  processing_time: number;
+  messages_read: number;
+  messages_skipped: number; // 不符合发件人或主题条件
+  messages_failed: number; // 无法解析
+  error?: string;
+}
+
+export interface MailboxCollectOptions {
+  mark_processed?: boolean; // false 时不标记邮件也不推进读取位置，供测试采集源使用
+}
+
+interface RawMessage {
+  id: string;
+  source: Buffer;
+}
+
+// 各类邮箱的读取与标记；processed 为 false 表示邮件被跳过或无法解析，同样不再读取
+interface MailboxReader {
+  read(max: number): Promise<RawMessage[]>;
+  mark(message: RawMessage, processed: boolean): Promise<void>;
+  close(): Promise<void>;
+}
+
+const DEFAULT_MAX_MESSAGES = 20;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+export class MailboxCollector {
+  private cursors: CursorStore;
+
+  constructor(cursors: CursorStore = new CursorStore(null)) {
+    this.cursors = cursors;
+  }
+
+  async collectFromSource(config: MailboxSourceConfig, options: MailboxCollectOptions = {}): Promise<MailboxCollectorResult> {
+    const startTime = Date.now();
+    const markProcessed = options.mark_processed !== false;
+    const items: NewsItem[] = [];
+    let read = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    try {
+      LoggerUtils.info('Starting mailbox collection', { source: config.name, mailbox: this.location(config) });
+
+      const reader = await this.openMailbox(config);
+      try {
+        const messages = await reader.read(config.max_messages ?? DEFAULT_MAX_MESSAGES);
+        read = messages.length;
+
+        for (const message of messages) {
+          let email: ParsedEmail;
+          try {
+            email = await parseEmail(message.source);
+          } catch (error) {
+            failed++;
+            LoggerUtils.warn('Failed to parse mailbox message', {
+              source: config.name,
+              message: message.id,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            if (markProcessed) {
+              await reader.mark(message, false);
+            }
+            continue;
+          }
+
+          if (!this.matches(email, config)) {
+            skipped++;
+            if (markProcessed) {
+              await reader.mark(message, false);
+            }
+            continue;
+          }
+
+          const messageKey = email.message_id || createHash('sha1').update(message.source).digest('hex');
+          const sections = splitDigest(email, config.split);
+          sections.forEach((section, index) => {
+            items.push(this.createNewsItem(section, index, sections.length, email, messageKey, config));
+          });
+          if (markProcessed) {
+            await reader.mark(message, true);
+          }
+        }
+      } finally {
+        await reader.close();
+      }
+
+      const processingTime = Date.now() - startTime;
+      LoggerUtils.info('Mailbox collection completed', {
+        source: config.name,
+        messages_read: read,
+        messages_skipped: skipped,
+        messages_failed: failed,
+        collected_count: items.length,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items,
+        collected_count: items.length,
+        processing_time: processingTime,
+        messages_read: read,
+        messages_skipped: skipped,
+        messages_failed: failed
+      };
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      LoggerUtils.error('Mailbox collection failed', {
+        source: config.name,
+        error: errorMessage,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items,
+        collected_count: items.length,
+        processing_time: processingTime,
+        messages_read: read,
+        messages_skipped: skipped,
+        messages_failed: failed,
+        error: errorMessage
+      };
+    }
+  }
+
+  private async openMailbox(config: MailboxSourceConfig): Promise<MailboxReader> {
+    const cursorKey = CursorStore.key(config.name, this.location(config));
+    if (config.imap) {
+      return await IMAPMailbox.open(config.imap, this.cursors, cursorKey);
+    }
+    if (config.maildir) {
+      return new MaildirMailbox(config.maildir);
+    }
+    if (config.mbox) {
+      return new MboxMailbox(config.mbox, this.cursors, cursorKey);
+    }
+    throw new Error('Mailbox source requires imap, maildir or mbox');
+  }
+
+  private location(config: MailboxSourceConfig): string {
+    if (config.imap) {
+      return `imap://${config.imap.user}@${config.imap.host}/${config.imap.mailbox || 'INBOX'}`;
+    }
+    return config.maildir || config.mbox || '';
+  }
+
+  // 发件人可写完整地址，或写域名匹配该域名下的所有地址
+  private matches(email: ParsedEmail, config: MailboxSourceConfig): boolean {
+    if (config.from && config.from.length > 0) {
+      const address = (email.from_address || '').toLowerCase();
+      const allowed = config.from.some(entry => {
+        const sender = entry.trim().toLowerCase();
+        return sender.includes('@') && !sender.startsWith('@')
+          ? address === sender
+          : address.endsWith(`@${sender.replace(/^@/, '')}`);
+      });
+      if (!allowed) {
+        return false;
+      }
+    }
+
+    return !config.subject_pattern || new RegExp(config.subject_pattern, 'i').test(email.subject);
+  }
+
+  private createNewsItem(
+    section: DigestSection,
+    index: number,
+    sectionCount: number,
+    email: ParsedEmail,
+    messageKey: string,
+    config: MailboxSourceConfig
+  ): NewsItem {
+    return {
+      // 同一封邮件重复读取时ID不变
+      id: NewsIdentityUtils.generateNewsId('mailbox', section.url || '', `${messageKey}#${index}`),
+      title: section.title,
+      content: section.content,
+      url: section.url || '',
+      source: config.name,
+      publish_time: email.date || new Date(),
+      collected_at: new Date(),
+      raw_data: {
+        // 不在条目中保存邮箱密码
+        source_config: config.imap ? { ...config, imap: { ...config.imap, password: undefined } } : config,
+        message_id: email.message_id,
+        subject: email.subject,
+        author: email.from,
+        from_address: email.from_address,
+        section_index: index,
+        section_count: sectionCount,
+        attachments: email.attachments.map(attachment => ({
+          filename: attachment.filename,
+          content_type: attachment.content_type,
+          size: attachment.size
+        })),
+        publish_time_confidence: email.date ? 'exact' : 'fallback',
+        category: config.category,
+        language: config.language
+      }
+    };
+  }
+
+  async validateMailboxSource(config: Pick<MailboxSourceConfig, 'imap' | 'maildir' | 'mbox'>): Promise<boolean> {
+    try {
+      if (config.imap) {
+        const mailbox = await IMAPMailbox.open(config.imap, new CursorStore(null), '');
+        await mailbox.close();
+        return true;
+      }
+      if (config.maildir) {
+        return fs.statSync(path.join(config.maildir, 'new')).isDirectory();
+      }
+      if (config.mbox) {
+        await fs.promises.access(config.mbox, fs.constants.R_OK);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async testMailboxSource(config: MailboxSourceConfig): Promise<MailboxCollectorResult> {
+    // 只读取前3封，不标记
+    const testConfig = { ...config, max_messages: 3 };
+    return await this.collectFromSource(testConfig, { mark_processed: false });
+  }
+}
+
+// IMAP：读取未读邮件，处理后标记为已读或移入指定文件夹；按 UID 记录读取位置，跳过的邮件不会重复下载
+class IMAPMailbox implements MailboxReader {
+  private client: ImapFlow;
+  private lock: MailboxLockObject;
+  private config: IMAPConfig;
+  private cursors: CursorStore;
+  private cursorKey: string;
+
+  private constructor(client: ImapFlow, lock: MailboxLockObject, config: IMAPConfig, cursors: CursorStore, cursorKey: string) {
+    this.client = client;
+    this.lock = lock;
+    this.config = config;
+    this.cursors = cursors;
+    this.cursorKey = cursorKey;
+  }
+
+  static async open(config: IMAPConfig, cursors: CursorStore, cursorKey: string): Promise<IMAPMailbox> {
+    const client = new ImapFlow({
+      host: config.host,
+      port: config.port ?? 993,
+      secure: config.secure !== false,
+      auth: { user: config.user, pass: config.password },
+      logger: false
+    });
+    await client.connect();
+    try {
+      const lock = await client.getMailboxLock(config.mailbox || 'INBOX');
+      return new IMAPMailbox(client, lock, config, cursors, cursorKey);
+    } catch (error) {
+      await client.logout().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // 邮箱的 UIDVALIDITY 变化后原来的 UID 失效，从头读取
+  private get uidValidity(): string {
+    return this.client.mailbox ? String(this.client.mailbox.uidValidity) : '';
+  }
+
+  async read(max: number): Promise<RawMessage[]> {
+    const [validity, uid] = (this.cursors.get(this.cursorKey)?.last_id || '').split(':');
+    const lastUid = validity === this.uidValidity ? Number(uid) || 0 : 0;
+
+    // UID 范围 n:* 在没有更新的邮件时也会返回最后一封，需再过滤一次
+    const uids = (await this.client.search({ seen: false, uid: `${lastUid + 1}:*` }, { uid: true })) || [];
+    const pending = uids.filter(candidate => candidate > lastUid).sort((a, b) => a - b).slice(0, max);
+    if (pending.length === 0) {
+      return [];
+    }
+
+    const messages: RawMessage[] = [];
+    for await (const message of this.client.fetch(pending.join(','), { uid: true, source: true }, { uid: true })) {
+      if (message.source) {
+        messages.push({ id: String(message.uid), source: message.source });
+      }
+    }
+    return messages.sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  async mark(message: RawMessage, processed: boolean): Promise<void> {
+    if (processed) {
+      if (this.config.processed_mailbox) {
+        await this.client.messageMove(message.id, this.config.processed_mailbox, { uid: true });
+      } else {
+        await this.client.messageFlagsAdd(message.id, ['\\Seen'], { uid: true });
+      }
+    }
+    this.cursors.set(this.cursorKey, { last_id: `${this.uidValidity}:${message.id}` });
+  }
+
+  async close(): Promise<void> {
+    this.lock.release();
+    await this.client.logout().catch(() => undefined);
+  }
+}
+
+// Maildir：new/ 中是未读取的邮件，处理后按 Maildir 规范移入 cur/，已处理的带 S（已读）标记
+class MaildirMailbox implements MailboxReader {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async read(max: number): Promise<RawMessage[]> {
+    const newDirectory = path.join(this.directory, 'new');
+    if (!fs.existsSync(newDirectory)) {
+      throw new Error(`Maildir not found: ${this.directory}`);
+    }
+
+    // 文件名以投递时间开头，按名称排序即按投递先后
+    const names = (await fs.promises.readdir(newDirectory)).filter(name => !name.startsWith('.')).sort().slice(0, max);
+    const messages: RawMessage[] = [];
+    for (const name of names) {
+      messages.push({ id: name, source: await fs.promises.readFile(path.join(newDirectory, name)) });
+    }
+    return messages;
+  }
+
+  async mark(message: RawMessage, processed: boolean): Promise<void> {
+    const curDirectory = path.join(this.directory, 'cur');
+    await fs.promises.mkdir(curDirectory, { recursive: true });
+    await fs.promises.rename(
+      path.join(this.directory, 'new', message.id),
+      path.join(curDirectory, `${message.id}:2,${processed ? 'S' : ''}`)
+    );
+  }
+
+  async close(): Promise<void> {
+    // 无需释放资源
+  }
+}
+
+// mbox：以 "From " 开头的行分隔邮件，按字节偏移记录读取位置；文件变小时从头读取
+// mbox 中每封邮件以 "From " 开头的分隔行起始
+function separatorPositions(text: string): number[] {
+  const starts: number[] = [];
+  const separator = /^From /gm;
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    starts.push(match.index);
+  }
+  return starts;
+}
+
+class MboxMailbox implements MailboxReader {
+  private filePath: string;
+  private cursors: CursorStore;
+  private cursorKey: string;
+  private ends: Map<string, number> = new Map();
+  private fileSize = 0;
+
+  constructor(filePath: string, cursors: CursorStore, cursorKey: string) {
+    this.filePath = filePath;
+    this.cursors = cursors;
+    this.cursorKey = cursorKey;
+  }
+
+  // 从上次的偏移按块读取，遇到下一封的分隔行才算读完一封；
+  // 文件末尾的最后一封以空行结束才读取，否则可能仍在写入，留到下次
+  async read(max: number): Promise<RawMessage[]> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`mbox file not found: ${this.filePath}`);
+    }
+
+    const handle = await fs.promises.open(this.filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      this.fileSize = size;
+      const cursor = this.cursors.get(this.cursorKey);
+      let position = cursor?.offset ?? 0;
+      if (position > size || (cursor?.file_size !== undefined && size < cursor.file_size)) {
+        LoggerUtils.warn('mbox file truncated or rotated, reading from start', { file: this.filePath, offset: position, size });
+        position = 0;
+      }
+
+      const messages: RawMessage[] = [];
+      // 尚未切分的内容及其在文件中的起始位置；latin1 按字节一一对应，便于换算偏移
+      let text = '';
+      let textStart = position;
+
+      while (messages.length < max && position < size) {
+        const chunk = Buffer.alloc(Math.min(READ_CHUNK_BYTES, size - position));
+        const { bytesRead } = await handle.read(chunk, 0, chunk.length, position);
+        if (bytesRead === 0) {
+          break;
+        }
+        position += bytesRead;
+        text += chunk.toString('latin1', 0, bytesRead);
+
+        const starts = separatorPositions(text);
+        let next = 0;
+        for (; next + 1 < starts.length && messages.length < max; next++) {
+          messages.push(this.toMessage(text, textStart, starts[next], starts[next + 1]));
+        }
+        if (starts.length > 0) {
+          text = text.slice(starts[next]);
+          textStart += starts[next];
+        }
+      }
+
+      if (messages.length < max && position >= size && /\r?\n\r?\n$/.test(text) && separatorPositions(text)[0] === 0) {
+        messages.push(this.toMessage(text, textStart, 0, text.length));
+      }
+      return messages;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private toMessage(text: string, textStart: number, start: number, end: number): RawMessage {
+    const raw = text.slice(start, end);
+    // 去掉分隔行，还原正文中被转义的 ">From " 行
+    const body = raw.slice(raw.indexOf('\n') + 1).replace(/^>(>*From )/gm, '$1');
+    const id = String(textStart + start);
+    this.ends.set(id, textStart + end);
+    return { id, source: Buffer.from(body, 'latin1') };
+  }
+
+  async mark(message: RawMessage): Promise<void> {
+    this.cursors.set(this.cursorKey, { offset: this.ends.get(message.id), file_size: this.fileSize });
+  }
+
+  async close(): Promise<void> {
+    // 无需释放资源
+  }
+}
@@ -0,0 +1,209 @@
+// PDF 公告补全：下载条目链接或附件指向的 PDF，用提取的文本替换只有标题的正文
+import axios, { AxiosRequestConfig } from 'axios';
+import { NewsItem } from '../../../shared/types';
+import { LoggerUtils } from '../../../shared/utils';
+import { ExtractedPDF, extractPDF } from './pdf-extractor';
+import { PoliteFetcher } from './polite-fetcher';
+
+export interface PDFEnricherOptions {
+  max_bytes: number; // 超过该大小的 PDF 不下载
+  download_timeout_ms: number;
+  extract_timeout_ms: number;
+  max_pages: number; // 只提取前面的页，例如年报只需要前几十页
+  cache_ttl_ms: number;
+  failure_ttl_ms: number; // 下载或提取失败的链接在该时间内不再重试
+  cache_size: number;
+}
+
+export interface PDFEnrichmentConfig {
+  name: string;
+  user_agent?: string;
+  respect_robots?: boolean;
+  proxy?: string;
+  pdf_max_bytes?: number; // 覆盖 max_bytes
+  pdf_max_pages?: number; // 覆盖 max_pages
+}
+
+export interface PDFEnrichmentResult {
+  items: NewsItem[];
+  extracted_count: number;
+  failed_count: number;
+}
+
+interface CacheEntry {
+  pdf?: ExtractedPDF;
+  size?: number;
+  error?: string;
+  expires_at: number;
+}
+
+const DEFAULT_OPTIONS: PDFEnricherOptions = {
+  max_bytes: 20 * 1024 * 1024,
+  download_timeout_ms: 30000,
+  extract_timeout_ms: 20000,
+  max_pages: 50,
+  cache_ttl_ms: 24 * 3600000,
+  failure_ttl_ms: 3600000,
+  cache_size: 200
+};
+
+export class PDFEnricher {
+  private fetcher?: PoliteFetcher;
+  private options: PDFEnricherOptions;
+  private cache: Map<string, CacheEntry> = new Map();
+  private logger = LoggerUtils;
+
+  constructor(fetcher?: PoliteFetcher, options: Partial<PDFEnricherOptions> = {}) {
+    this.fetcher = fetcher;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // 没有 PDF 链接的条目原样返回；单个 PDF 失败时保留原正文
+  async enrich(items: NewsItem[], config: PDFEnrichmentConfig): Promise<PDFEnrichmentResult> {
+    let extractedCount = 0;
+    let failedCount = 0;
+    const enriched: NewsItem[] = [];
+
+    // 逐个处理，避免同时在内存中解析多个大文件
+    for (const item of items) {
+      const url = pdfLink(item);
+      if (!url) {
+        enriched.push(item);
+        continue;
+      }
+
+      const entry = await this.fetchPDF(url, config);
+      if (!entry.pdf) {
+        failedCount++;
+        enriched.push({ ...item, raw_data: { ...item.raw_data, pdf: { status: 'failed', url, error: entry.error } } });
+        continue;
+      }
+
+      extractedCount++;
+      enriched.push({
+        ...item,
+        content: entry.pdf.text,
+        raw_data: {
+          ...item.raw_data,
+          snippet: item.content,
+          author: item.raw_data?.author || entry.pdf.author,
+          pdf: {
+            status: 'extracted',
+            url,
+            size: entry.size,
+            page_count: entry.pdf.page_count,
+            truncated: entry.pdf.truncated,
+            // content 中各页的起止位置
+            pages: entry.pdf.pages.map(page => ({
+              page: page.page,
+              start: page.start,
+              end: page.end,
+              table_count: page.tables.length
+            })),
+            tables: entry.pdf.tables
+          }
+        }
+      });
+    }
+
+    this.logger.info('PDF attachments extracted', {
+      source: config.name,
+      total: items.length,
+      extracted_count: extractedCount,
+      failed_count: failedCount
+    });
+
+    return { items: enriched, extracted_count: extractedCount, failed_count: failedCount };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async fetchPDF(url: string, config: PDFEnrichmentConfig): Promise<CacheEntry> {
+    const cached = this.cache.get(url);
+    if (cached && cached.expires_at > Date.now()) {
+      return cached;
+    }
+
+    let entry: CacheEntry;
+    try {
+      const data = await this.download(url, config);
+      const pdf = await extractPDF(data, {
+        max_pages: config.pdf_max_pages ?? this.options.max_pages,
+        timeout_ms: this.options.extract_timeout_ms
+      });
+      entry = { pdf, size: data.length, expires_at: Date.now() + this.options.cache_ttl_ms };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn('Failed to extract PDF', { source: config.name, url, error: errorMessage });
+      entry = { error: errorMessage, expires_at: Date.now() + this.options.failure_ttl_ms };
+    }
+
+    this.cache.delete(url);
+    this.cache.set(url, entry);
+    // Map 按插入顺序遍历，超出容量时淘汰最早的条目
+    while (this.cache.size > this.options.cache_size) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+
+    return entry;
+  }
+
+  private async download(url: string, config: PDFEnrichmentConfig): Promise<Buffer> {
+    const maxBytes = config.pdf_max_bytes ?? this.options.max_bytes;
+    const requestConfig: AxiosRequestConfig = {
+      timeout: this.options.download_timeout_ms,
+      headers: {
+        'User-Agent': config.user_agent || 'AI-News-Collector/1.0',
+        'Accept': 'application/pdf, application/octet-stream'
+      },
+      // 超过大小限制时中止下载
+      maxContentLength: maxBytes,
+      validateStatus: (status) => status < 500,
+      responseType: 'arraybuffer'
+    };
+
+    let response;
+    try {
+      response = this.fetcher
+        ? await this.fetcher.get(url, requestConfig, { respect_robots: config.respect_robots, proxy: config.proxy })
+        : await axios.get(url, requestConfig);
+    } catch (error) {
+      if (axios.isAxiosError(error) && /maxContentLength/.test(error.message)) {
+        throw new Error(`PDF exceeds size limit of ${maxBytes} bytes`);
+      }
+      throw error;
+    }
+
+    if (response.status !== 200) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = Buffer.from(response.data);
+    // 服务端未声明长度时 axios 不一定能提前中止
+    if (data.length > maxBytes) {
+      throw new Error(`PDF exceeds size limit of ${maxBytes} bytes`);
+    }
+    return data;
+  }
+}
+
+// 条目链接本身是 PDF，或附件中有 PDF
+function pdfLink(item: NewsItem): string | undefined {
+  if (isPDFUrl(item.url)) {
+    return item.url;
+  }
+  const enclosures: Array<{ url?: string; type?: string }> = Array.isArray(item.raw_data?.enclosures) ? item.raw_data!.enclosures : [];
+  return enclosures.find(enclosure => enclosure?.url && (enclosure.type === 'application/pdf' || isPDFUrl(enclosure.url)))?.url;
+}
+
+function isPDFUrl(url?: string): boolean {
+  if (!url) {
+    return false;
+  }
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,246 @@
+// PDF 正文提取：按页提取文本，按坐标还原行序，识别列对齐的表格
+import * as path from 'path';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf';
+
+export interface PDFExtractOptions {
+  max_pages?: number; // 最多提取的页数，默认 50
+  timeout_ms?: number; // 提取超时，默认 20000；无法中断正在进行的同步解析
+}
+
+export interface PDFTable {
+  page: number;
+  rows: string[][];
+}
+
+export interface PDFPage {
+  page: number;
+  start: number; // 该页在 text 中的起止位置
+  end: number;
+  text: string;
+  tables: PDFTable[];
+}
+
+export interface ExtractedPDF {
+  text: string; // 各页文本以空行分隔，表格每行的单元格以 ' | ' 分隔
+  title?: string; // 文档属性中的标题
+  author?: string;
+  page_count: number;
+  pages: PDFPage[];
+  tables: PDFTable[];
+  truncated: boolean; // 页数超过 max_pages，只提取了前面的页
+}
+
+export class PDFExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PDFExtractionError';
+  }
+}
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+interface Cell {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  cells: Cell[];
+}
+
+const DEFAULT_MAX_PAGES = 50;
+const DEFAULT_TIMEOUT_MS = 20000;
+
+// 同一行内相邻文本的间距超过字号的该倍数时视为不同单元格
+const CELL_GAP_RATIO = 1.5;
+// 至少连续这么多行列数相同且列位置对齐才视为表格
+const MIN_TABLE_ROWS = 3;
+
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u9fff\uff00-\uffef]/;
+
+// 未嵌入字体的中文 PDF（如 STSong-Light + UniGB-UCS2-H）需要 CMap 才能取出文字；Node 中按文件路径读取，须以分隔符结尾
+const PDFJS_DIR = path.dirname(require.resolve('pdfjs-dist/package.json'));
+const CMAP_URL = path.join(PDFJS_DIR, 'cmaps') + path.sep;
+const STANDARD_FONT_DATA_URL = path.join(PDFJS_DIR, 'standard_fonts') + path.sep;
+
+export function isPDF(data: Buffer): boolean {
+  return data.subarray(0, 1024).includes('%PDF-');
+}
+
+export async function extractPDF(data: Buffer, options: PDFExtractOptions = {}): Promise<ExtractedPDF> {
+  if (!isPDF(data)) {
+    throw new PDFExtractionError('Not a PDF document');
+  }
+
+  const loadingTask = pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    cMapUrl: CMAP_URL,
+    cMapPacked: true,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    verbosity: 0
+  });
+  // 超时只是尽力而为：解析在主线程进行，单次同步解析耗时过长时计时器要等它结束才能触发，
+  // 超时后 destroy() 停止后续页面的解析
+  const timeoutMs = options.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PDFExtractionError(`PDF extraction timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([readDocument(loadingTask, options.max_pages ?? DEFAULT_MAX_PAGES), timeout]);
+  } catch (error) {
+    if (error instanceof PDFExtractionError) {
+      throw error;
+    }
+    throw new PDFExtractionError(`Failed to read PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    clearTimeout(timer);
+    // 超时或出错时同样释放解析占用的资源
+    await loadingTask.destroy().catch(() => undefined);
+  }
+}
+
+async function readDocument(loadingTask: ReturnType<typeof pdfjs.getDocument>, maxPages: number): Promise<ExtractedPDF> {
+  const document = await loadingTask.promise;
+  const info: Record<string, any> = (await document.getMetadata().catch(() => null))?.info || {};
+  const pageCount = document.numPages;
+  const pages: PDFPage[] = [];
+  let text = '';
+
+  for (let number = 1; number <= Math.min(pageCount, maxPages); number++) {
+    const page = await document.getPage(number);
+    const content = await page.getTextContent();
+    page.cleanup();
+
+    const runs: TextRun[] = [];
+    for (const item of content.items) {
+      if (!('str' in item) || !item.str.trim()) {
+        continue;
+      }
+      runs.push({
+        text: item.str,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        size: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10
+      });
+    }
+
+    const { text: pageText, tables } = layoutPage(groupLines(runs), number);
+    if (text && pageText) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    text += pageText;
+    pages.push({ page: number, start, end: text.length, text: pageText, tables });
+  }
+
+  if (!text.trim()) {
+    throw new PDFExtractionError('PDF has no extractable text (scanned images?)');
+  }
+
+  return {
+    text,
+    title: typeof info.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined,
+    author: typeof info.Author === 'string' && info.Author.trim() ? info.Author.trim() : undefined,
+    page_count: pageCount,
+    pages,
+    tables: pages.flatMap(page => page.tables),
+    truncated: pageCount > maxPages
+  };
+}
+
+// PDF 坐标原点在左下角：按 y 从上到下分行，行内按 x 从左到右，间距大的拆成单元格
+function groupLines(runs: TextRun[]): Line[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: Array<{ y: number; size: number; runs: TextRun[] }> = [];
+
+  for (const run of sorted) {
+    const line = lines.find(candidate => Math.abs(candidate.y - run.y) <= Math.max(candidate.size, run.size) * 0.5);
+    if (line) {
+      line.runs.push(run);
+      line.size = Math.max(line.size, run.size);
+    } else {
+      lines.push({ y: run.y, size: run.size, runs: [run] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(line => {
+      const cells: Cell[] = [];
+      let current: Cell | null = null;
+      for (const run of line.runs.sort((a, b) => a.x - b.x)) {
+        const gap = current ? run.x - current.end : 0;
+        if (!current || gap > run.size * CELL_GAP_RATIO) {
+          current = { text: run.text.trim(), start: run.x, end: run.x + run.width };
+          cells.push(current);
+          continue;
+        }
+        current.text = joinText(current.text, run.text.trim(), gap > run.size * 0.15);
+        current.end = Math.max(current.end, run.x + run.width);
+      }
+      return { y: line.y, size: line.size, cells };
+    });
+}
+
+// 中文之间不加空格，西文按间距补空格
+function joinText(left: string, right: string, spaced: boolean): string {
+  if (!spaced || CJK_PATTERN.test(left.slice(-1)) || CJK_PATTERN.test(right.charAt(0))) {
+    return left + right;
+  }
+  return `${left} ${right}`;
+}
+
+function layoutPage(lines: Line[], page: number): { text: string; tables: PDFTable[] } {
+  const output: string[] = [];
+  const tables: PDFTable[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    let end = index + 1;
+    if (lines[index].cells.length >= 2) {
+      while (end < lines.length && columnsAligned(lines[end - 1], lines[end])) {
+        end++;
+      }
+    }
+
+    if (end - index >= MIN_TABLE_ROWS) {
+      const rows = lines.slice(index, end).map(line => line.cells.map(cell => cell.text));
+      tables.push({ page, rows });
+      output.push(...rows.map(row => row.join(' | ')));
+      index = end;
+      continue;
+    }
+
+    output.push(lines[index].cells.map(cell => cell.text).join(' '));
+    index++;
+  }
+
+  return { text: output.join('\n').trim(), tables };
+}
+
+// 列数相同，且每一列在两行中的水平范围重叠（数字右对齐时起点不同）
+function columnsAligned(previous: Line, line: Line): boolean {
+  if (line.cells.length < 2 || line.cells.length !== previous.cells.length) {
+    return false;
+  }
+  const tolerance = Math.max(previous.size, line.size);
+  return line.cells.every((cell, column) => {
+    const above = previous.cells[column];
+    return cell.start <= above.end + tolerance && above.start <= cell.end + tolerance;
+  });
+}
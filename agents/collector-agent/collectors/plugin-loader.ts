@@ -0,0 +1,78 @@
+// 采集器插件加载：从插件目录或 npm 包中读取自定义采集器
+import * as fs from 'fs';
+import * as path from 'path';
+import { LoggerUtils } from '../../../shared/utils';
+import { CollectorFactory, CollectorPlugin, CollectorPluginError } from './collector-factory';
+
+export interface CollectorPluginSources {
+  directory?: string; // 目录下每个 .js / .ts 文件或子目录作为一个插件模块
+  packages?: string[]; // npm 包名或模块路径
+}
+
+export interface PluginLoadResult {
+  loaded: string[]; // 已注册的采集器类型
+  errors: Array<{ module: string; error: string }>;
+}
+
+const PLUGIN_EXTENSIONS = ['.js', '.cjs', '.ts'];
+
+// 单个插件加载失败只记录错误，不影响其他插件和内置采集器
+export function loadCollectorPlugins(factory: CollectorFactory, sources: CollectorPluginSources): PluginLoadResult {
+  const result: PluginLoadResult = { loaded: [], errors: [] };
+  const modules = [
+    ...(sources.directory ? listPluginModules(sources.directory) : []),
+    ...(sources.packages || [])
+  ];
+
+  for (const specifier of modules) {
+    try {
+      for (const plugin of resolvePlugins(requirePlugin(specifier), specifier)) {
+        factory.registerCollector(plugin);
+        result.loaded.push(plugin.type);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      LoggerUtils.error('Failed to load collector plugin', { module: specifier, error: errorMessage });
+      result.errors.push({ module: specifier, error: errorMessage });
+    }
+  }
+
+  return result;
+}
+
+function listPluginModules(directory: string): string[] {
+  const root = path.resolve(directory);
+  if (!fs.existsSync(root)) {
+    LoggerUtils.warn('Collector plugin directory not found', { directory: root });
+    return [];
+  }
+
+  return fs.readdirSync(root, { withFileTypes: true })
+    .filter(entry => entry.isDirectory()
+      || (PLUGIN_EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')))
+    .map(entry => path.join(root, entry.name))
+    .sort();
+}
+
+function requirePlugin(specifier: string): any {
+  // 相对路径按工作目录解析，包名从工作目录的 node_modules 查找
+  const request = specifier.startsWith('.') ? path.resolve(specifier) : specifier;
+  let resolved: string;
+  try {
+    resolved = require.resolve(request, { paths: [process.cwd()] });
+  } catch {
+    throw new CollectorPluginError(`Cannot find collector plugin module: ${specifier}`);
+  }
+  return require(resolved);
+}
+
+// 支持导出单个插件、插件数组，或 { plugins: [...] }；ES 模块取 default 导出
+function resolvePlugins(exported: any, specifier: string): CollectorPlugin[] {
+  const value = exported?.default ?? exported;
+  const plugins = Array.isArray(value) ? value : Array.isArray(value?.plugins) ? value.plugins : [value];
+
+  if (plugins.length === 0) {
+    throw new CollectorPluginError(`No collector plugins exported by ${specifier}`);
+  }
+  return plugins;
+}
@@ -0,0 +1,265 @@
+// 礼貌抓取：所有采集源共用，遵守 robots.txt，按主机限制并发和请求间隔，并按采集源配置经代理发送
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { LoggerUtils } from '../../../shared/utils';
+import { ProxyPool, ProxyRequestOptions } from './proxy-pool';
+import { isAllowedByRobots, parseRobots, RobotsRules } from './robots';
+
+export interface PoliteFetcherOptions {
+  user_agent: string; // 按其中的产品名匹配 robots.txt 的 User-agent 分组
+  respect_robots: boolean;
+  robots_ttl_ms: number;
+  robots_failure_ttl_ms: number; // robots.txt 无法获取时，该时间内按允许处理
+  robots_timeout: number;
+  max_concurrent_per_host: number;
+  min_interval_ms: number; // 同一主机两次请求的最小间隔
+  max_crawl_delay_ms: number; // Crawl-delay 的上限，避免个别站点拖慢整轮采集
+}
+
+export interface FetchOptions {
+  respect_robots?: boolean; // 采集源可单独关闭，例如已获授权的接口
+  throttle?: boolean; // 是否参与按主机限速，默认开启
+  proxy?: string; // 代理地址，或 'pool' 表示从代理池轮换；不设置时直连
+}
+
+export interface HostPolitenessStats {
+  host: string;
+  requests: number;
+  robots_blocked: number;
+  delayed_ms: number; // 为遵守间隔累计等待的时间
+  interval_ms: number; // 当前生效的请求间隔
+  crawl_delay_ms?: number;
+  active: number;
+  queued: number;
+  last_request?: string;
+  last_blocked_url?: string;
+}
+
+export class RobotsDisallowedError extends Error {
+  url: string;
+
+  constructor(url: string) {
+    super(`Blocked by robots.txt: ${url}`);
+    this.name = 'RobotsDisallowedError';
+    this.url = url;
+  }
+}
+
+interface RobotsEntry {
+  robots: RobotsRules;
+  expires_at: number;
+}
+
+interface HostState {
+  active: number;
+  queue: Array<() => void>;
+  next_allowed_at: number;
+  stats: HostPolitenessStats;
+}
+
+const DEFAULT_OPTIONS: PoliteFetcherOptions = {
+  user_agent: 'AI-News-Collector/1.0',
+  respect_robots: true,
+  robots_ttl_ms: 24 * 3600000,
+  robots_failure_ttl_ms: 600000,
+  robots_timeout: 10000,
+  max_concurrent_per_host: 2,
+  min_interval_ms: 1000,
+  max_crawl_delay_ms: 30000
+};
+
+const ALLOW_ALL: RobotsRules = { rules: [] };
+
+export class PoliteFetcher {
+  private options: PoliteFetcherOptions;
+  private robots: Map<string, RobotsEntry> = new Map();
+  private pendingRobots: Map<string, Promise<RobotsRules>> = new Map();
+  private hosts: Map<string, HostState> = new Map();
+  private proxyPool: ProxyPool;
+  private logger = LoggerUtils;
+
+  constructor(options: Partial<PoliteFetcherOptions> = {}, proxyPool: ProxyPool = new ProxyPool()) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.proxyPool = proxyPool;
+  }
+
+  async get(url: string, config: AxiosRequestConfig = {}, options: FetchOptions = {}): Promise<AxiosResponse> {
+    return this.request({ ...config, method: 'GET', url }, options);
+  }
+
+  async head(url: string, config: AxiosRequestConfig = {}, options: FetchOptions = {}): Promise<AxiosResponse> {
+    return this.request({ ...config, method: 'HEAD', url }, options);
+  }
+
+  // 先检查 robots.txt，再排队等待主机名额和请求间隔；被禁止时抛出 RobotsDisallowedError
+  async request(config: AxiosRequestConfig & { url: string }, options: FetchOptions = {}): Promise<AxiosResponse> {
+    const target = new URL(config.url);
+    const state = this.hostState(target.host);
+
+    let robots = ALLOW_ALL;
+    if (options.respect_robots ?? this.options.respect_robots) {
+      robots = await this.getRobots(target.origin, options.proxy);
+      if (!isAllowedByRobots(robots, withQuery(target, config.params))) {
+        state.stats.robots_blocked++;
+        state.stats.last_blocked_url = config.url;
+        this.logger.warn('Request blocked by robots.txt', { url: config.url });
+        throw new RobotsDisallowedError(config.url);
+      }
+    }
+
+    if (options.throttle === false) {
+      state.stats.requests++;
+      state.stats.last_request = new Date().toISOString();
+      return this.send(config, options);
+    }
+
+    const crawlDelay = Math.min(robots.crawl_delay_ms ?? 0, this.options.max_crawl_delay_ms);
+    state.stats.crawl_delay_ms = robots.crawl_delay_ms;
+    state.stats.interval_ms = Math.max(this.options.min_interval_ms, crawlDelay);
+
+    await this.acquire(state);
+    try {
+      await this.waitForInterval(state);
+      state.stats.requests++;
+      state.stats.last_request = new Date().toISOString();
+      return await this.send(config, options);
+    } finally {
+      this.release(state);
+    }
+  }
+
+  getStats(): HostPolitenessStats[] {
+    return Array.from(this.hosts.values()).map(state => ({
+      ...state.stats,
+      active: state.active,
+      queued: state.queue.length
+    }));
+  }
+
+  getProxyPool(): ProxyPool {
+    return this.proxyPool;
+  }
+
+  clearRobotsCache(): void {
+    this.robots.clear();
+  }
+
+  private async send(config: AxiosRequestConfig, options: FetchOptions, proxyOptions?: ProxyRequestOptions): Promise<AxiosResponse> {
+    return options.proxy ? this.proxyPool.request(config, options.proxy, proxyOptions) : axios(config);
+  }
+
+  private async getRobots(origin: string, proxy?: string): Promise<RobotsRules> {
+    const cached = this.robots.get(origin);
+    if (cached && cached.expires_at > Date.now()) {
+      return cached.robots;
+    }
+
+    let pending = this.pendingRobots.get(origin);
+    if (!pending) {
+      pending = this.fetchRobots(origin, proxy).finally(() => this.pendingRobots.delete(origin));
+      this.pendingRobots.set(origin, pending);
+    }
+    return pending;
+  }
+
+  // 4xx 视为没有限制；5xx 或网络错误时暂按允许处理，稍后重试。
+  // 与采集请求经同一代理发送，直连不通或被封禁的主机同样能取到规则；
+  // robots.txt 返回 403 等不代表代理被封，不做封禁识别
+  private async fetchRobots(origin: string, proxy?: string): Promise<RobotsRules> {
+    let robots = ALLOW_ALL;
+    let ttl = this.options.robots_ttl_ms;
+
+    try {
+      const response = await this.send({
+        method: 'GET',
+        url: `${origin}/robots.txt`,
+        timeout: this.options.robots_timeout,
+        headers: { 'User-Agent': this.options.user_agent },
+        responseType: 'text',
+        validateStatus: () => true
+      }, { proxy }, { detect_ban: false });
+
+      if (response.status >= 200 && response.status < 300) {
+        robots = parseRobots(String(response.data ?? ''), this.options.user_agent);
+      } else if (response.status >= 500) {
+        ttl = this.options.robots_failure_ttl_ms;
+        this.logger.warn('robots.txt unavailable', { origin, status: response.status });
+      }
+    } catch (error) {
+      ttl = this.options.robots_failure_ttl_ms;
+      this.logger.warn('Failed to fetch robots.txt', {
+        origin,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    this.robots.set(origin, { robots, expires_at: Date.now() + ttl });
+    return robots;
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        active: 0,
+        queue: [],
+        next_allowed_at: 0,
+        stats: {
+          host,
+          requests: 0,
+          robots_blocked: 0,
+          delayed_ms: 0,
+          interval_ms: this.options.min_interval_ms,
+          active: 0,
+          queued: 0
+        }
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquire(state: HostState): Promise<void> {
+    if (state.active >= this.options.max_concurrent_per_host) {
+      await new Promise<void>(resolve => state.queue.push(resolve));
+    } else {
+      state.active++;
+    }
+  }
+
+  private release(state: HostState): void {
+    const next = state.queue.shift();
+    if (next) {
+      // 名额直接交给下一个等待者
+      next();
+    } else {
+      state.active--;
+    }
+  }
+
+  // 先占用下一个发送时间再等待，保证并发请求之间也保持间隔
+  private async waitForInterval(state: HostState): Promise<void> {
+    const now = Date.now();
+    const sendAt = Math.max(now, state.next_allowed_at);
+    state.next_allowed_at = sendAt + state.stats.interval_ms;
+
+    const wait = sendAt - now;
+    if (wait > 0) {
+      state.stats.delayed_ms += wait;
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+}
+
+// robots 规则需要匹配最终请求的查询串
+function withQuery(url: URL, params: any): string {
+  if (!params || typeof params !== 'object') {
+    return url.toString();
+  }
+  const target = new URL(url.toString());
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) {
+      target.searchParams.set(key, String(value));
+    }
+  }
+  return target.toString();
+}
@@ -0,0 +1,117 @@
+// robots.txt 解析：按 User-agent 分组，支持 Allow / Disallow 中的 * 和 $ 通配符，以及 Crawl-delay
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawl_delay_ms?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawl_delay_ms?: number;
+}
+
+// 只使用与本采集器最匹配的一组规则；没有专门的分组时使用 *
+export function parseRobots(text: string, userAgent: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // 连续的 User-agent 行属于同一分组
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+
+    inAgentLines = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawl_delay_ms = seconds * 1000;
+      }
+    }
+  }
+
+  const token = productToken(userAgent);
+  let bestLength = -1;
+  let matched: RobotsGroup[] = [];
+
+  for (const group of groups) {
+    for (const agent of group.agents) {
+      const length = agent === '*' ? 0 : (token.includes(agent) ? agent.length : -1);
+      if (length > bestLength) {
+        bestLength = length;
+        matched = [group];
+      } else if (length === bestLength && length >= 0 && !matched.includes(group)) {
+        matched.push(group);
+      }
+    }
+  }
+
+  return {
+    rules: matched.flatMap(group => group.rules),
+    crawl_delay_ms: matched.map(group => group.crawl_delay_ms).find(delay => delay !== undefined)
+  };
+}
+
+// 最长匹配的规则生效，长度相同时 Allow 优先
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return true;
+  }
+
+  let best: RobotsRule | undefined;
+  for (const rule of robots.rules) {
+    if (!pathPattern(rule.path).test(target)) {
+      continue;
+    }
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+// 'AI-News-Collector/1.0 (+https://...)' -> 'ai-news-collector'
+function productToken(userAgent: string): string {
+  return userAgent.split(/[\/\s]/)[0].toLowerCase();
+}
+
+function pathPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
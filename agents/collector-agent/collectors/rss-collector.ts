@@ -1,16 +1,31 @@
 // RSS采集器
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
 import { NewsItem } from '../../../shared/types';
-import { LoggerUtils } from '../../../shared/utils';
+import { LoggerUtils, NewsDateUtils, NewsIdentityUtils } from '../../../shared/utils';
+import { FeedFormat, ParsedFeedItem, parseFeed } from './feed-parser';
+import { HttpCacheStore } from './http-cache';
+import { ArticleEnricher } from './article-enricher';
+import { PDFEnricher } from './pdf-enricher';
+import { decodeBody } from './charset';
+import { PoliteFetcher } from './polite-fetcher';
 
 export interface RSSSourceConfig {
   url: string;
   name: string;
   category?: string;
   language?: string;
+  timezone?: string; // 发布时间未带时区时按该时区解释，默认 Asia/Shanghai
   update_frequency?: number;
   max_items?: number;
   user_agent?: string;
+  conditional_get?: boolean; // 是否发送 If-None-Match / If-Modified-Since，默认开启
+  impact_level?: 'high' | 'medium' | 'low'; // 对市场的影响等级，来自路由目录
+  fetch_full_content?: boolean; // 是否按条目链接抓取原文补全正文
+  full_content_min_length?: number; // 正文短于该长度时才抓取原文，默认 500
+  extract_pdf?: boolean; // 条目链接或附件是 PDF 时下载并提取文本作为正文，例如交易所公告
+  pdf_max_bytes?: number; // 超过该大小的 PDF 不下载，默认 20MB
+  pdf_max_pages?: number; // 最多提取的页数，默认 50
+  proxy?: string; // 代理地址，或 'pool' 表示从共享代理池轮换
 }
 
 export interface RSSCollectorResult {
@@ -18,16 +33,34 @@ export interface RSSCollectorResult {
   items: NewsItem[];
   collected_count: number;
   processing_time: number;
+  not_modified?: boolean;
+  enriched_count?: number;
+  pdf_extracted_count?: number;
   error?: string;
 }
 
 export class RSSCollector {
   private userAgent: string;
   private timeout: number;
+  private httpCache?: HttpCacheStore;
+  private enricher: ArticleEnricher;
+  private fetcher?: PoliteFetcher;
+  private pdfEnricher: PDFEnricher;
 
-  constructor(userAgent: string = 'AI-News-Collector/1.0', timeout: number = 30000) {
+  constructor(
+    userAgent: string = 'AI-News-Collector/1.0',
+    timeout: number = 30000,
+    httpCache?: HttpCacheStore,
+    enricher: ArticleEnricher = new ArticleEnricher(),
+    fetcher?: PoliteFetcher,
+    pdfEnricher: PDFEnricher = new PDFEnricher(fetcher)
+  ) {
     this.userAgent = userAgent;
     this.timeout = timeout;
+    this.httpCache = httpCache;
+    this.enricher = enricher;
+    this.fetcher = fetcher;
+    this.pdfEnricher = pdfEnricher;
   }
 
   async collectFromSource(config: RSSSourceConfig): Promise<RSSCollectorResult> {
@@ -36,42 +69,96 @@ export class RSSCollector {
     try {
       LoggerUtils.info('Starting RSS collection', { source: config.name, url: config.url });
       
+      const cache = config.conditional_get === false ? undefined : this.httpCache;
+      const cacheKey = HttpCacheStore.key(config.name, config.url);
+
       // 获取RSS内容
-      const response = await axios.get(config.url, {
+      const requestConfig: AxiosRequestConfig = {
         timeout: this.timeout,
         headers: {
           'User-Agent': config.user_agent || this.userAgent,
           'Accept': 'application/rss+xml, application/xml, text/xml',
+          ...cache?.getConditionalHeaders(cacheKey)
         },
-        validateStatus: (status) => status < 500
-      });
+        validateStatus: (status) => status < 500,
+        // 以二进制接收，按声明的字符集自行解码
+        responseType: 'arraybuffer'
+      };
+      // 订阅源供程序读取，不检查 robots.txt，也不参与按主机限速（RSSHub 路由都在同一主机上），只经由代理
+      const response = this.fetcher && config.proxy
+        ? await this.fetcher.get(config.url, requestConfig, { respect_robots: false, throttle: false, proxy: config.proxy })
+        : await axios.get(config.url, requestConfig);
+
+      // 304 表示自上次采集以来没有更新
+      if (response.status === 304) {
+        cache?.markNotModified(cacheKey, response.headers);
+        const processingTime = Date.now() - startTime;
+
+        LoggerUtils.info('RSS source not modified', { source: config.name, processing_time: processingTime });
+
+        return {
+          source: config.name,
+          items: [],
+          collected_count: 0,
+          processing_time: processingTime,
+          not_modified: true
+        };
+      }
 
       if (response.status !== 200) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
       // 解析RSS内容
-      const rssContent = response.data;
-      const newsItems = await this.parseRSSContent(rssContent, config);
-      
-      const processingTime = Date.now() - startTime;
+      const rssContent = decodeBody(response.data, response.headers?.['content-type']);
+      if (rssContent.charset !== 'utf-8') {
+        LoggerUtils.debug('RSS source transcoded', { source: config.name, charset: rssContent.charset });
+      }
+      const newsItems = await this.parseRSSContent(rssContent.text, config);
+
+      // 解析失败时不记录校验头，确保下次重新下载
+      if (cache && newsItems.length > 0) {
+        cache.update(cacheKey, config.url, response.headers);
+      }
       
       // 限制条目数量
-      const limitedItems = config.max_items 
+      let limitedItems = config.max_items 
         ? newsItems.slice(0, config.max_items) 
         : newsItems;
+
+      // 订阅源只给摘要时抓取原文补全
+      let enrichedCount: number | undefined;
+      if (config.fetch_full_content) {
+        const enrichment = await this.enricher.enrich(limitedItems, config);
+        limitedItems = enrichment.items;
+        enrichedCount = enrichment.enriched_count;
+      }
+
+      // 公告类订阅源的条目链接指向 PDF，正文只有标题
+      let pdfExtractedCount: number | undefined;
+      if (config.extract_pdf) {
+        const extraction = await this.pdfEnricher.enrich(limitedItems, config);
+        limitedItems = extraction.items;
+        pdfExtractedCount = extraction.extracted_count;
+      }
+
+      const processingTime = Date.now() - startTime;
       
       LoggerUtils.info('RSS collection completed', {
         source: config.name,
         collected_count: limitedItems.length,
-        processing_time
+        enriched_count: enrichedCount,
+        pdf_extracted_count: pdfExtractedCount,
+        processing_time: processingTime
       });
 
       return {
         source: config.name,
         items: limitedItems,
         collected_count: limitedItems.length,
-        processing_time: processingTime
+        processing_time: processingTime,
+        enriched_count: enrichedCount,
+        pdf_extracted_count: pdfExtractedCount
       };
 
     } catch (error) {
@@ -96,29 +183,18 @@ export class RSSCollector {
 
   private async parseRSSContent(content: string, config: RSSSourceConfig): Promise<NewsItem[]> {
     try {
-      // 简单的RSS解析实现
+      const feed = parseFeed(content);
       const items: NewsItem[] = [];
-      
-      // 提取item标签
-      const itemRegex = /<item>(.*?)<\/item>/gs;
-      const itemMatches = content.match(itemRegex);
-      
-      if (!itemMatches) {
-        LoggerUtils.warn('No items found in RSS content', { source: config.name });
+
+      if (feed.items.length === 0) {
+        LoggerUtils.warn('No items found in RSS content', { source: config.name, format: feed.format });
         return items;
       }
 
-      for (const itemMatch of itemMatches) {
-        try {
-          const newsItem = this.parseRSSItem(itemMatch, config);
-          if (newsItem) {
-            items.push(newsItem);
-          }
-        } catch (error) {
-          LoggerUtils.warn('Failed to parse RSS item', { 
-            source: config.name, 
-            error: error instanceof Error ? error.message : 'Unknown error' 
-          });
+      for (const feedItem of feed.items) {
+        const newsItem = this.parseRSSItem(feedItem, feed.format, config);
+        if (newsItem) {
+          items.push(newsItem);
         }
       }
 
@@ -132,34 +208,27 @@ export class RSSCollector {
     }
   }
 
-  private parseRSSItem(itemContent: string, config: RSSSourceConfig): NewsItem | null {
+  private parseRSSItem(feedItem: ParsedFeedItem, format: FeedFormat, config: RSSSourceConfig): NewsItem | null {
     try {
-      // 提取标题
-      const titleMatch = itemContent.match(/<title>(.*?)<\/title>/s);
-      const title = titleMatch ? this.cleanHTML(titleMatch[1]) : '';
-      
+      // 优先使用全文（content:encoded / Atom content），否则使用摘要
+      const content = this.cleanHTML(feedItem.content || feedItem.description);
+
+      // 部分快讯源没有标题，截取正文开头作为标题
+      const title = this.cleanHTML(feedItem.title) || content.slice(0, 60);
       if (!title) {
         return null;
       }
 
-      // 提取链接
-      const linkMatch = itemContent.match(/<link>(.*?)<\/link>/s);
-      const url = linkMatch ? this.cleanHTML(linkMatch[1]) : '';
-      
+      const url = feedItem.link;
       if (!url) {
         return null;
       }
 
-      // 提取描述
-      const descriptionMatch = itemContent.match(/<description>(.*?)<\/description>/s);
-      const content = descriptionMatch ? this.cleanHTML(descriptionMatch[1]) : '';
+      // 发布时间：pubDate / dc:date / published / updated
+      const publishTime = NewsDateUtils.parse(feedItem.published || feedItem.updated, { timezone: config.timezone });
 
-      // 提取发布时间
-      const pubDateMatch = itemContent.match(/<pubDate>(.*?)<\/pubDate>/s);
-      const publishTime = pubDateMatch ? new Date(this.cleanHTML(pubDateMatch[1])) : new Date();
-
-      // 生成唯一ID
-      const id = `rss_${config.name}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      // 基于规范化URL和GUID的稳定ID，重复轮询不会产生重复记录
+      const id = NewsIdentityUtils.generateNewsId('rss', url, feedItem.guid);
 
       return {
         id,
@@ -167,12 +236,20 @@ export class RSSCollector {
         content,
         url,
         source: config.name,
-        publish_time: publishTime,
+        publish_time: publishTime.date,
         collected_at: new Date(),
         raw_data: {
           source_config: config,
-          raw_content: itemContent,
+          feed_format: format,
+          guid: feedItem.guid,
+          author: feedItem.author,
+          categories: feedItem.categories,
+          enclosures: feedItem.enclosures,
+          summary: feedItem.content ? this.cleanHTML(feedItem.description) : undefined,
+          raw_content: feedItem.raw,
+          publish_time_confidence: publishTime.confidence,
           category: config.category,
+          impact_level: config.impact_level,
           language: config.language
         }
       };
@@ -192,9 +269,11 @@ export class RSSCollector {
       .replace(/&nbsp;/g, ' ')
       .replace(/&lt;/g, '<')
       .replace(/&gt;/g, '>')
-      .replace(/&amp;/g, '&')
       .replace(/&quot;/g, '"')
       .replace(/&#39;/g, "'")
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&amp;/g, '&')
       .trim();
   }
 
@@ -207,7 +286,7 @@ export class RSSCollector {
         }
       });
 
-      const contentType = response.headers['content-type'] || '';
+      const contentType = String(response.headers['content-type'] || '');
       return contentType.includes('rss') || contentType.includes('xml') || response.status === 200;
     } catch (error) {
       return false;
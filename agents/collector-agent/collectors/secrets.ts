@@ -0,0 +1,73 @@
+// 采集源配置中的密钥：字符串里的 ${变量名} 在采集时替换为环境变量；持久化时保留引用，隐去明文密钥
+export class SecretReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretReferenceError';
+  }
+}
+
+export const REDACTED_SECRET = '[REDACTED]';
+
+const ENV_REFERENCE = /\$\{([A-Z_][A-Z0-9_]*)\}/g;
+
+// 按字段名识别密钥：认证配置、IMAP 密码以及常见的认证请求头
+const SECRET_FIELDS = /^(password|passwd|secret|client_secret|token|access_token|refresh_token|api_?key|authorization|proxy-authorization|cookie|x-api-key)$/i;
+
+export function resolveSecretReferences<T>(value: T): T {
+  return mapStrings(value, text => text.replace(ENV_REFERENCE, (_, name: string) => {
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      throw new SecretReferenceError(`Environment variable ${name} is not set`);
+    }
+    return resolved;
+  }));
+}
+
+// 返回副本：密钥字段和代理地址中的密码改为 [REDACTED]，使用 ${变量名} 引用的值保持不变
+export function redactSecrets<T>(value: T): T {
+  return mapStrings(value, (text, key) => {
+    if (hasReference(text) || key === undefined) {
+      return text;
+    }
+    if (SECRET_FIELDS.test(key)) {
+      return REDACTED_SECRET;
+    }
+    return key === 'proxy' ? redactProxyPassword(text) : text;
+  });
+}
+
+export function containsRedactedSecrets(value: unknown): boolean {
+  return JSON.stringify(value ?? null).includes(REDACTED_SECRET);
+}
+
+function hasReference(text: string): boolean {
+  return text.search(ENV_REFERENCE) !== -1;
+}
+
+function redactProxyPassword(proxy: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(proxy);
+  } catch {
+    return proxy;
+  }
+  if (!parsed.password) {
+    return proxy;
+  }
+  return `${parsed.protocol}//${parsed.username}:${REDACTED_SECRET}@${parsed.host}${parsed.pathname === '/' ? '' : parsed.pathname}`;
+}
+
+function mapStrings<T>(value: T, transform: (text: string, key?: string) => string, key?: string): T {
+  if (typeof value === 'string') {
+    return transform(value, key) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, transform, key)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, item]) => [field, mapStrings(item, transform, field)])
+    ) as T;
+  }
+  return value;
+}
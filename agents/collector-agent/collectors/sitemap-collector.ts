@@ -0,0 +1,286 @@
+// Sitemap采集器：读取 sitemap / sitemap 索引 / Google News sitemap，按链接抓取正文
+import axios, { AxiosRequestConfig } from 'axios';
+import { gunzipSync } from 'zlib';
+import { NewsItem } from '../../../shared/types';
+import { LoggerUtils, NewsDateUtils, NewsIdentityUtils } from '../../../shared/utils';
+import { ArticleEnricher } from './article-enricher';
+import { decodeBody } from './charset';
+import { PoliteFetcher } from './polite-fetcher';
+import { parseSitemap, SitemapEntry } from './sitemap-parser';
+
+export interface SitemapSourceConfig {
+  url: string;
+  name: string;
+  category?: string;
+  language?: string;
+  timezone?: string; // 发布时间未带时区时按该时区解释，默认 Asia/Shanghai
+  max_items?: number; // 默认 20
+  max_sitemaps?: number; // 索引中最多读取的子 sitemap 数，按 lastmod 从新到旧，默认 5
+  url_pattern?: string; // 只采集匹配该正则的链接，例如 '/news/|/investor/'
+  extract_articles?: boolean; // 是否抓取原文提取正文，默认开启
+  user_agent?: string;
+  respect_robots?: boolean; // 是否遵守 robots.txt，默认开启
+  proxy?: string; // 代理地址，或 'pool' 表示从共享代理池轮换
+}
+
+export interface SitemapCollectorResult {
+  source: string;
+  items: NewsItem[];
+  collected_count: number;
+  processing_time: number;
+  sitemaps_fetched: number;
+  enriched_count?: number;
+  error?: string;
+}
+
+export interface SitemapCollectOptions {
+  since?: Date; // 上次成功采集时间，早于该时间的链接不再抓取
+}
+
+interface DatedEntry extends SitemapEntry {
+  date?: Date;
+  date_confidence?: string;
+}
+
+const DEFAULT_MAX_ITEMS = 20;
+const DEFAULT_MAX_SITEMAPS = 5;
+// 索引可以嵌套，但不再深入更多层
+const MAX_INDEX_DEPTH = 2;
+
+export class SitemapCollector {
+  private userAgent: string;
+  private timeout: number;
+  private enricher: ArticleEnricher;
+  private fetcher?: PoliteFetcher;
+
+  constructor(
+    userAgent: string = 'AI-News-Collector/1.0',
+    timeout: number = 30000,
+    enricher: ArticleEnricher = new ArticleEnricher(),
+    fetcher?: PoliteFetcher
+  ) {
+    this.userAgent = userAgent;
+    this.timeout = timeout;
+    this.enricher = enricher;
+    this.fetcher = fetcher;
+  }
+
+  async collectFromSource(config: SitemapSourceConfig, options: SitemapCollectOptions = {}): Promise<SitemapCollectorResult> {
+    const startTime = Date.now();
+    const state = { sitemaps_fetched: 0 };
+
+    try {
+      LoggerUtils.info('Starting sitemap collection', { source: config.name, url: config.url, since: options.since });
+
+      const entries = await this.readSitemap(config.url, config, options.since, 0, state);
+      const selected = this.selectEntries(entries, config, options.since);
+
+      let items = selected.map(entry => this.createNewsItem(entry, config));
+      let enrichedCount: number | undefined;
+
+      if (config.extract_articles !== false && items.length > 0) {
+        // 条目只有链接，内容为空，全部需要抓取原文
+        const enrichment = await this.enricher.enrich(items, { ...config, full_content_min_length: 1 });
+        items = enrichment.items.map(item => this.mergeExtraction(item));
+        enrichedCount = enrichment.enriched_count;
+
+        // sitemap 未给出时间时，只能按正文中的发布时间过滤
+        if (options.since) {
+          items = items.filter(item => item.raw_data?.publish_time_confidence === 'fallback' || item.publish_time >= options.since!);
+        }
+      }
+
+      // 未抓取或抓取失败的条目以 news:title 作为内容，没有标题的丢弃
+      items = items
+        .filter(item => item.title)
+        .map(item => (item.content ? item : { ...item, content: item.title }));
+      const processingTime = Date.now() - startTime;
+
+      LoggerUtils.info('Sitemap collection completed', {
+        source: config.name,
+        sitemaps_fetched: state.sitemaps_fetched,
+        entries: entries.length,
+        collected_count: items.length,
+        enriched_count: enrichedCount,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items,
+        collected_count: items.length,
+        processing_time: processingTime,
+        sitemaps_fetched: state.sitemaps_fetched,
+        enriched_count: enrichedCount
+      };
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      LoggerUtils.error('Sitemap collection failed', {
+        source: config.name,
+        error: errorMessage,
+        processing_time: processingTime
+      });
+
+      return {
+        source: config.name,
+        items: [],
+        collected_count: 0,
+        processing_time: processingTime,
+        sitemaps_fetched: state.sitemaps_fetched,
+        error: errorMessage
+      };
+    }
+  }
+
+  // 读取 sitemap；遇到索引时按 lastmod 从新到旧读取子 sitemap
+  private async readSitemap(
+    url: string,
+    config: SitemapSourceConfig,
+    since: Date | undefined,
+    depth: number,
+    state: { sitemaps_fetched: number }
+  ): Promise<SitemapEntry[]> {
+    const sitemap = parseSitemap(await this.fetchSitemap(url, config));
+    state.sitemaps_fetched++;
+
+    if (sitemap.type === 'urlset') {
+      return sitemap.entries;
+    }
+    if (depth >= MAX_INDEX_DEPTH) {
+      LoggerUtils.warn('Sitemap index nested too deeply', { source: config.name, url });
+      return [];
+    }
+
+    const children = this.withDates(sitemap.entries, config)
+      .filter(child => !since || !child.date || child.date >= since)
+      .sort(byDateDesc)
+      .slice(0, config.max_sitemaps ?? DEFAULT_MAX_SITEMAPS);
+
+    const entries: SitemapEntry[] = [];
+    for (const child of children) {
+      try {
+        entries.push(...await this.readSitemap(child.loc, config, since, depth + 1, state));
+      } catch (error) {
+        // 单个子 sitemap 失败不影响其他子 sitemap
+        LoggerUtils.warn('Failed to read child sitemap', {
+          source: config.name,
+          url: child.loc,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+    return entries;
+  }
+
+  private async fetchSitemap(url: string, config: SitemapSourceConfig): Promise<string> {
+    const requestConfig: AxiosRequestConfig = {
+      timeout: this.timeout,
+      headers: {
+        'User-Agent': config.user_agent || this.userAgent,
+        'Accept': 'application/xml, text/xml, */*'
+      },
+      validateStatus: (status) => status < 500,
+      responseType: 'arraybuffer'
+    };
+    const response = this.fetcher
+      ? await this.fetcher.get(url, requestConfig, { respect_robots: config.respect_robots, proxy: config.proxy })
+      : await axios.get(url, requestConfig);
+
+    if (response.status !== 200) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    let body: Buffer = Buffer.from(response.data);
+    // sitemap.xml.gz 以 gzip 文件形式提供，服务端不会设置 Content-Encoding
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      body = gunzipSync(body);
+    }
+    return decodeBody(body, response.headers?.['content-type']).text;
+  }
+
+  // 过滤、去重并按时间从新到旧取前 max_items 条
+  private selectEntries(entries: SitemapEntry[], config: SitemapSourceConfig, since?: Date): DatedEntry[] {
+    const pattern = config.url_pattern ? new RegExp(config.url_pattern) : undefined;
+    const seen = new Set<string>();
+
+    return this.withDates(entries, config)
+      .filter(entry => {
+        if (seen.has(entry.loc) || (pattern && !pattern.test(entry.loc))) {
+          return false;
+        }
+        seen.add(entry.loc);
+        return !since || !entry.date || entry.date >= since;
+      })
+      .sort(byDateDesc)
+      .slice(0, config.max_items ?? DEFAULT_MAX_ITEMS);
+  }
+
+  // news:publication_date 优先于 lastmod；无法解析的时间视为没有时间
+  private withDates(entries: SitemapEntry[], config: SitemapSourceConfig): DatedEntry[] {
+    return entries.map(entry => {
+      const value = entry.news?.publication_date || entry.lastmod;
+      if (!value) {
+        return entry;
+      }
+      const parsed = NewsDateUtils.parse(value, { timezone: config.timezone });
+      return parsed.confidence === 'fallback' ? entry : { ...entry, date: parsed.date, date_confidence: parsed.confidence };
+    });
+  }
+
+  private createNewsItem(entry: DatedEntry, config: SitemapSourceConfig): NewsItem {
+    return {
+      id: NewsIdentityUtils.generateNewsId('sitemap', entry.loc),
+      title: entry.news?.title || '',
+      content: '',
+      url: entry.loc,
+      source: config.name,
+      publish_time: entry.date || new Date(),
+      collected_at: new Date(),
+      raw_data: {
+        source_config: config,
+        lastmod: entry.lastmod,
+        news: entry.news,
+        images: entry.images,
+        lead_image: entry.images[0],
+        publish_time_confidence: entry.date_confidence || 'fallback',
+        category: config.category,
+        language: entry.news?.language || config.language
+      }
+    };
+  }
+
+  // 正文中没有头图时沿用 image:image；sitemap 中没有时间时使用正文提取出的发布时间
+  private mergeExtraction(item: NewsItem): NewsItem {
+    const rawData = { ...item.raw_data, lead_image: item.raw_data?.lead_image || item.raw_data?.images?.[0] };
+    const published = rawData.enrichment?.published;
+    if (rawData.publish_time_confidence !== 'fallback' || !published) {
+      return { ...item, raw_data: rawData };
+    }
+    return {
+      ...item,
+      publish_time: new Date(published),
+      raw_data: { ...rawData, publish_time_confidence: 'inferred' }
+    };
+  }
+
+  async validateSitemapSource(url: string): Promise<boolean> {
+    try {
+      const sitemap = parseSitemap(await this.fetchSitemap(url, { url, name: url }));
+      return sitemap.entries.length > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async testSitemapSource(config: SitemapSourceConfig): Promise<SitemapCollectorResult> {
+    // 限制测试时的条目数量
+    const testConfig = { ...config, max_items: 3 };
+    return await this.collectFromSource(testConfig);
+  }
+}
+
+function byDateDesc(a: DatedEntry, b: DatedEntry): number {
+  return (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0);
+}
@@ -0,0 +1,115 @@
+// Sitemap 解析器：支持 urlset、sitemapindex 和 Google News 扩展 (news:news)
+import { XMLParser } from 'fast-xml-parser';
+
+export type SitemapType = 'urlset' | 'index';
+
+export interface SitemapNews {
+  title?: string;
+  publication_date?: string;
+  publication_name?: string;
+  language?: string;
+  keywords?: string[];
+  stock_tickers?: string[]; // 例如 'SHA:600000, SHE:000001'
+}
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  news?: SitemapNews;
+  images: string[];
+}
+
+export interface ParsedSitemap {
+  type: SitemapType;
+  entries: SitemapEntry[]; // index 时为子 sitemap 地址
+}
+
+// 命名空间前缀因站点而异（news: / n: 等），解析时统一去掉
+const parser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => name === 'url' || name === 'sitemap' || name === 'image'
+});
+
+export class SitemapParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SitemapParseError';
+  }
+}
+
+export function parseSitemap(xml: string): ParsedSitemap {
+  let document: any;
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    throw new SitemapParseError(`Invalid XML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (document?.sitemapindex) {
+    return {
+      type: 'index',
+      entries: toArray(document.sitemapindex.sitemap)
+        .map(sitemap => ({ loc: text(sitemap.loc), lastmod: text(sitemap.lastmod) || undefined, images: [] }))
+        .filter(entry => entry.loc)
+    };
+  }
+
+  if (document?.urlset !== undefined) {
+    return {
+      type: 'urlset',
+      entries: toArray(document.urlset?.url)
+        .map(url => ({
+          loc: text(url.loc),
+          lastmod: text(url.lastmod) || undefined,
+          news: parseNews(url.news),
+          images: toArray(url.image).map(image => text(image?.loc)).filter(Boolean)
+        }))
+        .filter(entry => entry.loc)
+    };
+  }
+
+  throw new SitemapParseError('Unrecognized sitemap format');
+}
+
+function parseNews(news: any): SitemapNews | undefined {
+  if (!news || typeof news !== 'object') {
+    return undefined;
+  }
+
+  return {
+    title: text(news.title) || undefined,
+    publication_date: text(news.publication_date) || undefined,
+    publication_name: text(news.publication?.name) || undefined,
+    language: text(news.publication?.language) || undefined,
+    keywords: splitList(news.keywords),
+    stock_tickers: splitList(news.stock_tickers)
+  };
+}
+
+function splitList(value: any): string[] | undefined {
+  const items = text(value).split(/[,，]/).map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function text(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return text(value[0]);
+  }
+  if (typeof value === 'object') {
+    return text(value['#text']);
+  }
+  return String(value).trim();
+}
+
+function toArray<T = any>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
@@ -1,11 +1,16 @@
 // 网页采集器
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
 import { NewsItem } from '../../../shared/types';
-import { LoggerUtils } from '../../../shared/utils';
+import { LoggerUtils, NewsDateUtils, NewsIdentityUtils } from '../../../shared/utils';
+import { HttpCacheStore } from './http-cache';
+import { PoliteFetcher } from './polite-fetcher';
+import { ExtractedArticle, extractArticle } from './article-extractor';
+import { decodeBody } from './charset';
 
 export interface WebSourceConfig {
   url: string;
   name: string;
+  mode?: 'list' | 'article'; // article: url 指向单篇文章，提取正文；默认 list
   selectors?: {
     title?: string;
     content?: string;
@@ -15,11 +20,14 @@ export interface WebSourceConfig {
   };
   category?: string;
   language?: string;
+  timezone?: string; // 发布时间未带时区时按该时区解释，默认 Asia/Shanghai
   update_frequency?: number;
   max_items?: number;
   user_agent?: string;
   headers?: Record<string, string>;
-  proxy?: string;
+  proxy?: string; // 代理地址（http / https / socks5），或 'pool' 表示从共享代理池轮换
+  conditional_get?: boolean; // 是否发送 If-None-Match / If-Modified-Since，默认开启
+  respect_robots?: boolean; // 是否遵守 robots.txt，默认开启
 }
 
 export interface WebCollectorResult {
@@ -27,16 +35,22 @@ export interface WebCollectorResult {
   items: NewsItem[];
   collected_count: number;
   processing_time: number;
+  not_modified?: boolean;
   error?: string;
 }
 
 export class WebCollector {
   private userAgent: string;
   private timeout: number;
+  private httpCache?: HttpCacheStore;
+  private fetcher?: PoliteFetcher;
 
-  constructor(userAgent: string = 'AI-News-Collector/1.0', timeout: number = 30000) {
+  // 传入 fetcher 时经由共享的礼貌抓取层请求
+  constructor(userAgent: string = 'AI-News-Collector/1.0', timeout: number = 30000, httpCache?: HttpCacheStore, fetcher?: PoliteFetcher) {
     this.userAgent = userAgent;
     this.timeout = timeout;
+    this.httpCache = httpCache;
+    this.fetcher = fetcher;
   }
 
   async collectFromSource(config: WebSourceConfig): Promise<WebCollectorResult> {
@@ -47,11 +61,33 @@ export class WebCollector {
       
       // 获取网页内容
       const response = await this.fetchWebPage(config);
+
+      // 304 表示自上次采集以来页面没有变化
+      if (response.status === 304) {
+        const processingTime = Date.now() - startTime;
+
+        LoggerUtils.info('Web source not modified', { source: config.name, processing_time: processingTime });
+
+        return {
+          source: config.name,
+          items: [],
+          collected_count: 0,
+          processing_time: processingTime,
+          not_modified: true
+        };
+      }
       
       const processingTime = Date.now() - startTime;
       
       // 解析网页内容
-      const newsItems = await this.parseWebContent(response.data, config);
+      const newsItems = config.mode === 'article'
+        ? [this.createArticleItem(extractArticle(response.data, config.url, { timezone: config.timezone }), config)]
+        : await this.parseWebContent(response.data, config);
+
+      // 解析失败时不记录校验头，确保下次重新下载
+      if (this.useHttpCache(config) && newsItems.length > 0) {
+        this.httpCache!.update(HttpCacheStore.key(config.name, config.url), config.url, response.headers);
+      }
       
       // 限制条目数量
       const limitedItems = config.max_items 
@@ -91,6 +127,12 @@ export class WebCollector {
     }
   }
 
+  // 抓取单篇文章并提取正文，供只提供标题的订阅源补全内容
+  async extractArticle(url: string, options: Pick<WebSourceConfig, 'user_agent' | 'headers' | 'timezone' | 'respect_robots' | 'proxy'> = {}): Promise<ExtractedArticle> {
+    const response = await this.fetchWebPage({ url, name: url, conditional_get: false, ...options });
+    return extractArticle(response.data, url, { timezone: options.timezone });
+  }
+
   private async fetchWebPage(config: WebSourceConfig) {
     const headers: Record<string, string> = {
       'User-Agent': config.user_agent || this.userAgent,
@@ -101,20 +143,39 @@ export class WebCollector {
       ...config.headers
     };
 
-    const response = await axios.get(config.url, {
+    const cacheKey = HttpCacheStore.key(config.name, config.url);
+    if (this.useHttpCache(config)) {
+      Object.assign(headers, this.httpCache!.getConditionalHeaders(cacheKey));
+    }
+
+    const requestConfig: AxiosRequestConfig = {
       timeout: this.timeout,
       headers,
       validateStatus: (status) => status < 500,
-      responseType: 'text'
-    });
+      // 以二进制接收，按声明的字符集自行解码
+      responseType: 'arraybuffer'
+    };
+    const response = this.fetcher
+      ? await this.fetcher.get(config.url, requestConfig, { respect_robots: config.respect_robots, proxy: config.proxy })
+      : await axios.get(config.url, requestConfig);
+
+    if (response.status === 304) {
+      this.httpCache?.markNotModified(cacheKey, response.headers);
+      return response;
+    }
 
     if (response.status !== 200) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
+    response.data = decodeBody(response.data, response.headers?.['content-type']).text;
     return response;
   }
 
+  private useHttpCache(config: WebSourceConfig): boolean {
+    return !!this.httpCache && config.conditional_get !== false;
+  }
+
   private async parseWebContent(html: string, config: WebSourceConfig): Promise<NewsItem[]> {
     try {
       const items: NewsItem[] = [];
@@ -210,14 +271,15 @@ export class WebCollector {
 
   private createNewsItem(itemData: any, config: WebSourceConfig): NewsItem | null {
     try {
-      const { title, url, content } = itemData;
+      const { title, url, content, date } = itemData;
       
       if (!title || !url) {
         return null;
       }
 
-      // 生成唯一ID
-      const id = `web_${config.name}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      // 基于规范化URL的稳定ID
+      const id = NewsIdentityUtils.generateNewsId('web', url);
+      const publishTime = NewsDateUtils.parse(date, { timezone: config.timezone });
 
       return {
         id,
@@ -225,11 +287,12 @@ export class WebCollector {
         content: content || '',
         url,
         source: config.name,
-        publish_time: new Date(),
+        publish_time: publishTime.date,
         collected_at: new Date(),
         raw_data: {
           source_config: config,
           raw_html: itemData.raw_html || '',
+          publish_time_confidence: publishTime.confidence,
           category: config.category,
           language: config.language
         }
@@ -243,6 +306,31 @@ export class WebCollector {
     }
   }
 
+  private createArticleItem(article: ExtractedArticle, config: WebSourceConfig): NewsItem {
+    return {
+      id: NewsIdentityUtils.generateNewsId('web', article.url),
+      title: article.title || article.content.slice(0, 60),
+      content: article.content,
+      url: article.url,
+      source: config.name,
+      publish_time: article.published || new Date(),
+      collected_at: new Date(),
+      raw_data: {
+        source_config: config,
+        extraction: 'article',
+        category: config.category,
+        language: config.language || article.language,
+        author: article.byline,
+        summary: article.excerpt,
+        lead_image: article.lead_image,
+        site_name: article.site_name,
+        modified_time: article.modified?.toISOString(),
+        publish_time_confidence: article.published_confidence || 'fallback',
+        content_html: article.content_html
+      }
+    };
+  }
+
   private cleanHTML(html: string): string {
     return html
       .replace(/<[^>]*>/g, '')
@@ -268,14 +356,17 @@ export class WebCollector {
 
   async validateWebSource(url: string): Promise<boolean> {
     try {
-      const response = await axios.head(url, {
+      const requestConfig: AxiosRequestConfig = {
         timeout: 10000,
         headers: {
           'User-Agent': this.userAgent,
         }
-      });
+      };
+      const response = this.fetcher
+        ? await this.fetcher.head(url, requestConfig)
+        : await axios.head(url, requestConfig);
 
-      const contentType = response.headers['content-type'] || '';
+      const contentType = String(response.headers['content-type'] || '');
       return contentType.includes('html') || response.status === 200;
     } catch (error) {
       return false;
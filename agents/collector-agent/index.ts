@@ -1,8 +1,14 @@
 import { CommunicationProtocol } from '../../shared/communication';
-import { AgentConfig, AgentMessage, CollectionTask, NewsItem, Task } from '../../shared/types';
+import { AgentConfig, AgentMessage, CollectionTask, Task } from '../../shared/types';
 import { AGENT_ACTIONS, LoggerUtils, AgentUtils } from '../../shared/utils';
 import { TaskScheduler } from '../../src/task';
-import { CollectorFactory, CollectorConfig, CollectorResult } from './collectors/collector-factory';
+import { CollectorFactory, CollectorConfig as SourceCollectorConfig } from './collectors/collector-factory';
+import { HttpCacheStore } from './collectors/http-cache';
+import { CursorStore } from './collectors/cursor-store';
+import { CollectorPluginSources, loadCollectorPlugins } from './collectors/plugin-loader';
+import { PoliteFetcher, PoliteFetcherOptions } from './collectors/polite-fetcher';
+import { ProxyPool, ProxyPoolOptions } from './collectors/proxy-pool';
+import { CatchUpPolicy, CollectionScheduler } from './collection-scheduler';
 
 export interface CollectorConfig extends AgentConfig {
   max_concurrent_sources: number;
@@ -14,6 +20,18 @@ export interface CollectorConfig extends AgentConfig {
     requests_per_minute: number;
     requests_per_hour: number;
   };
+  http_cache_path?: string; // ETag / Last-Modified 持久化文件
+  cursor_state_path?: string; // JSON Feed / NDJSON 增量读取位置持久化文件
+  local_roots?: string[]; // file / ndjson / mailbox 采集源可访问的本地根目录，未配置时不允许读取本地文件
+  schedule?: {
+    state_path?: string; // 采集任务及 last_run / next_run 持久化文件
+    timezone?: string;
+    max_jitter_ms?: number;
+    catch_up?: CatchUpPolicy;
+  };
+  plugins?: CollectorPluginSources; // 自定义采集器插件目录和 npm 包
+  politeness?: Partial<PoliteFetcherOptions>; // robots.txt 与按主机限速，所有采集源共用
+  proxy_pool?: Partial<ProxyPoolOptions>; // 共享代理池，采集源配置 proxy: 'pool' 时使用
 }
 
 export class CollectorAgent {
@@ -25,12 +43,25 @@ export class CollectorAgent {
   private collectionStats: Map<string, any> = new Map();
   private rateLimiter: Map<string, number[]> = new Map();
   private collectorFactory: CollectorFactory;
-  private collectorConfigs: Map<string, CollectorConfig> = new Map();
+  private collectorConfigs: Map<string, SourceCollectorConfig> = new Map();
+  private collectionScheduler: CollectionScheduler;
+  private proxyPool: ProxyPool;
+  private watchers: Map<string, () => void> = new Map(); // 支持监听的采集源（例如文件目录）的停止函数
 
   constructor(config: CollectorConfig) {
     this.config = config;
     this.communication = new CommunicationProtocol(config.agent_name, config.port);
-    this.collectorFactory = new CollectorFactory();
+    this.proxyPool = new ProxyPool(config.proxy_pool);
+    this.collectorFactory = new CollectorFactory(
+      new HttpCacheStore(config.http_cache_path),
+      new PoliteFetcher({ user_agent: config.user_agent, ...config.politeness }, this.proxyPool),
+      new CursorStore(config.cursor_state_path),
+      config.local_roots
+    );
+    // 插件需在恢复持久化的采集源之前注册
+    if (config.plugins) {
+      loadCollectorPlugins(this.collectorFactory, config.plugins);
+    }
     this.taskScheduler = new TaskScheduler({
       max_concurrent_tasks: config.max_concurrent_sources,
       default_timeout: config.collection_timeout,
@@ -39,6 +70,13 @@ export class CollectorAgent {
       cleanup_interval: 3600000, // 1小时
       task_retention_days: 7
     });
+    this.collectionScheduler = new CollectionScheduler(this.runScheduledCollection.bind(this), {
+      state_path: config.schedule?.state_path,
+      timezone: config.schedule?.timezone,
+      max_jitter_ms: config.schedule?.max_jitter_ms,
+      catch_up: config.schedule?.catch_up,
+      max_concurrent: config.max_concurrent_sources
+    });
     
     this.setupMessageHandlers();
   }
@@ -82,6 +120,11 @@ export class CollectorAgent {
     
     // 获取可用采集器类型
     this.communication.registerHandler('get_collector_types', this.handleGetCollectorTypes.bind(this));
+    
+    // 同步查询接口，供协调代理转发 MCP 等外部调用
+    this.communication.registerQueryHandler('start_collection', async (data) => this.startCollection(data));
+    this.communication.registerQueryHandler('add_source', async (data) => this.addSource(data.source_config));
+    this.communication.registerQueryHandler('get_collection_status', async () => this.getCollectionStatus());
   }
 
   private async handleHealthCheck(message: AgentMessage): Promise<void> {
@@ -108,26 +151,14 @@ export class CollectorAgent {
   }
 
   private async handleStartCollection(message: AgentMessage): Promise<void> {
-    const { source_id, source_config } = message.data;
+    const { source_id } = message.data;
     
     try {
-      const task: CollectionTask = {
-        id: source_id,
-        source_type: source_config.type,
-        source_config,
-        schedule: source_config.schedule || '0 */5 * * * *', // 默认每5分钟
-        enabled: true,
-        last_run: undefined,
-        next_run: undefined
-      };
-
-      this.activeSources.set(source_id, task);
-      this.logger.info('Collection started', { source_id, source_type: source_config.type });
-      
-      await this.sendResponse(message, { success: true, task });
+      const result = await this.startCollection(message.data);
+      await this.sendResponse(message, result);
     } catch (error) {
       this.logger.error('Failed to start collection', { source_id, error });
-      await this.sendResponse(message, { success: false, error: error.message });
+      await this.sendResponse(message, { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
     }
   }
 
@@ -138,6 +169,7 @@ export class CollectorAgent {
       const task = this.activeSources.get(source_id);
       if (task) {
         task.enabled = false;
+        this.collectionScheduler.schedule(task);
         this.logger.info('Collection stopped', { source_id });
       }
       
@@ -149,16 +181,7 @@ export class CollectorAgent {
   }
 
   private async handleGetCollectionStatus(message: AgentMessage): Promise<void> {
-    const status = Array.from(this.activeSources.values()).map(task => ({
-      source_id: task.id,
-      source_type: task.source_type,
-      enabled: task.enabled,
-      last_run: task.last_run,
-      next_run: task.next_run,
-      stats: this.collectionStats.get(task.id) || {}
-    }));
-
-    await this.sendResponse(message, status);
+    await this.sendResponse(message, this.getCollectionStatus());
   }
 
   private async handleExecuteTask(message: AgentMessage): Promise<void> {
@@ -188,31 +211,11 @@ export class CollectorAgent {
     const { source_config } = message.data;
     
     try {
-      const source_id = `source_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      const task: CollectionTask = {
-        id: source_id,
-        source_type: source_config.type,
-        source_config,
-        schedule: source_config.schedule || '0 */5 * * * *',
-        enabled: true,
-        last_run: undefined,
-        next_run: undefined
-      };
-
-      this.activeSources.set(source_id, task);
-      this.collectionStats.set(source_id, {
-        total_collected: 0,
-        last_collection: null,
-        errors: 0,
-        average_processing_time: 0
-      });
-
-      this.logger.info('Source added', { source_id, source_type: source_config.type });
-      await this.sendResponse(message, { success: true, source_id, task });
+      const result = await this.addSource(source_config);
+      await this.sendResponse(message, result);
     } catch (error) {
       this.logger.error('Failed to add source', { error });
-      await this.sendResponse(message, { success: false, error: error.message });
+      await this.sendResponse(message, { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
     }
   }
 
@@ -222,6 +225,10 @@ export class CollectorAgent {
     try {
       const deleted = this.activeSources.delete(source_id);
       this.collectionStats.delete(source_id);
+      this.collectorConfigs.delete(source_id);
+      this.collectionScheduler.unschedule(source_id);
+      this.watchers.get(source_id)?.();
+      this.watchers.delete(source_id);
       
       this.logger.info('Source removed', { source_id, deleted });
       await this.sendResponse(message, { success: true, deleted });
@@ -239,7 +246,9 @@ export class CollectorAgent {
         source_id,
         ...stat
       })),
-      rate_limits: this.getRateLimitStatus()
+      rate_limits: this.getRateLimitStatus(),
+      politeness: this.collectorFactory.getPolitenessStats(),
+      proxies: this.proxyPool.getStats()
     };
 
     await this.sendResponse(message, stats);
@@ -319,7 +328,8 @@ export class CollectorAgent {
       
       await this.sendResponse(message, { 
         success: true, 
-        collector_types: types 
+        collector_types: types,
+        collectors: this.collectorFactory.getCollectorTypes()
       });
     } catch (error) {
       this.logger.error('Failed to get collector types', { error });
@@ -330,6 +340,166 @@ export class CollectorAgent {
     }
   }
 
+  private async addSource(source_config: any): Promise<any> {
+    if (!source_config || !source_config.type || !source_config.name) {
+      throw new Error('source_config with type and name is required');
+    }
+
+    const validation = this.collectorFactory.validateConfig({
+      type: source_config.type,
+      config: source_config.config || source_config
+    });
+    if (!validation.valid) {
+      throw new Error(`Invalid source_config for ${source_config.type}: ${validation.errors.join('; ')}`);
+    }
+
+    const source_id = `source_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const task = this.registerSource(source_id, source_config);
+
+    this.logger.info('Source added', { source_id, source_type: source_config.type });
+    return { success: true, source_id, task };
+  }
+
+  // 立即执行一次采集（未注册的采集源先注册并加入调度）。已停用的采集源只采集这一次，不恢复定时采集
+  private async startCollection(data: any): Promise<any> {
+    const { source_id, source_name, source_config } = data || {};
+
+    let task = source_id ? this.activeSources.get(source_id) : undefined;
+    if (!task && source_name) {
+      task = Array.from(this.activeSources.values()).find(t => t.source_config.name === source_name);
+    }
+    if (!task && source_config) {
+      task = this.registerSource(source_id || `source_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, source_config);
+    }
+    if (!task) {
+      throw new Error(`Source not found: ${source_id || source_name}`);
+    }
+
+    this.logger.info('Collection started', { source_id: task.id, source_type: task.source_type, enabled: task.enabled });
+
+    const result = await this.collectSource(task);
+    return { success: !result.error, task, result };
+  }
+
+  private async collectSource(task: CollectionTask): Promise<any> {
+    const collectorConfig = this.collectorConfigs.get(task.id);
+    if (!collectorConfig) {
+      throw new Error(`Collector configuration not found for source: ${task.id}`);
+    }
+
+    const startedAt = new Date();
+    // 上次成功采集的时间供分页接口增量同步
+    const result = await this.collectorFactory.collect(collectorConfig, { last_run: task.last_success });
+    if (!result.error) {
+      task.last_success = startedAt;
+    }
+    // 调度器执行时由调度器记录运行时间
+    if (!this.collectionScheduler.isRunning(task.id)) {
+      this.collectionScheduler.markRun(task, startedAt);
+    }
+
+    if (result.error) {
+      this.incrementErrorCount(task.id);
+    } else {
+      this.updateCollectionStats(task.id, result.collected_count, result.processing_time, result.metadata?.not_modified);
+    }
+
+    return {
+      source_id: task.id,
+      collected_count: result.collected_count,
+      processing_time: result.processing_time,
+      news_items: result.items,
+      error: result.error,
+      metadata: result.metadata
+    };
+  }
+
+  // 定时采集：执行采集并把结果交给处理代理
+  private async runScheduledCollection(task: CollectionTask): Promise<void> {
+    if (!this.checkRateLimit(task.id)) {
+      this.logger.warn('Scheduled collection skipped by rate limit', { source_id: task.id });
+      return;
+    }
+    this.recordRateLimit(task.id);
+
+    const result = await this.collectSource(task);
+    if (result.news_items.length === 0) {
+      return;
+    }
+
+    try {
+      await this.communication.sendMessage('processor', 'process_news', {
+        source_id: task.id,
+        news_items: result.news_items
+      });
+    } catch (error) {
+      this.logger.error('Failed to forward collected news', {
+        source_id: task.id,
+        count: result.news_items.length,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private registerSource(source_id: string, source_config: any, restored?: CollectionTask): CollectionTask {
+    const task: CollectionTask = restored || {
+      id: source_id,
+      source_type: source_config.type,
+      source_config,
+      schedule: source_config.schedule || '0 */5 * * * *', // 默认每5分钟
+      enabled: true,
+      last_run: undefined,
+      next_run: undefined
+    };
+
+    // 先登记到调度器，cron 表达式无效时不注册
+    this.collectionScheduler.schedule(task);
+    this.activeSources.set(source_id, task);
+    this.collectorConfigs.set(source_id, {
+      type: source_config.type,
+      name: source_config.name,
+      enabled: true,
+      priority: source_config.priority || 1,
+      schedule: task.schedule,
+      config: source_config.config || source_config
+    });
+
+    if (!this.collectionStats.has(source_id)) {
+      this.collectionStats.set(source_id, {
+        total_collected: 0,
+        last_collection: null,
+        errors: 0,
+        average_processing_time: 0
+      });
+    }
+
+    // 采集源有变化时立即采集，不必等到下一次定时
+    this.watchers.get(source_id)?.();
+    this.watchers.delete(source_id);
+    const stopWatching = this.collectorFactory.watch(this.collectorConfigs.get(source_id)!, () => {
+      this.collectionScheduler.trigger(source_id);
+    });
+    if (stopWatching) {
+      this.watchers.set(source_id, stopWatching);
+    }
+
+    return task;
+  }
+
+  private getCollectionStatus(): any[] {
+    return Array.from(this.activeSources.values()).map(task => ({
+      source_id: task.id,
+      source_name: task.source_config.name,
+      source_type: task.source_type,
+      source_url: (task.source_config.config || task.source_config).url,
+      enabled: task.enabled,
+      last_run: task.last_run,
+      last_success: task.last_success,
+      next_run: task.next_run,
+      stats: this.collectionStats.get(task.id) || {}
+    }));
+  }
+
   private async executeCollection(task: Task): Promise<any> {
     const { source_id, source_config } = task.data;
     
@@ -348,10 +518,10 @@ export class CollectorAgent {
       }
       
       // 使用采集器工厂进行采集
-      const result = await this.collectorFactory.collect(collectorConfig);
+      const result = await this.collectorFactory.collect(collectorConfig, { last_run: this.activeSources.get(source_id)?.last_success });
       
       // 更新统计信息
-      this.updateCollectionStats(source_id, result.collected_count, result.processing_time);
+      this.updateCollectionStats(source_id, result.collected_count, result.processing_time, result.metadata?.not_modified);
       
       // 记录速率限制
       this.recordRateLimit(source_id);
@@ -371,30 +541,6 @@ export class CollectorAgent {
     }
   }
 
-  private async simulateCollection(source_config: any): Promise<NewsItem[]> {
-    // 模拟采集延迟
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 500));
-    
-    // 模拟生成新闻项
-    const newsCount = Math.floor(Math.random() * 10) + 1;
-    const newsItems: NewsItem[] = [];
-    
-    for (let i = 0; i < newsCount; i++) {
-      newsItems.push({
-        id: `news_${Date.now()}_${i}`,
-        title: `News Item ${i + 1} from ${source_config.type}`,
-        content: `This is sample content for news item ${i + 1}`,
-        url: `https://example.com/news/${i + 1}`,
-        source: source_config.name || 'Unknown Source',
-        publish_time: new Date(Date.now() - Math.random() * 86400000),
-        collected_at: new Date(),
-        raw_data: { source_config, simulated: true }
-      });
-    }
-    
-    return newsItems;
-  }
-
   private checkRateLimit(source_id: string): boolean {
     const now = Date.now();
     const requests = this.rateLimiter.get(source_id) || [];
@@ -445,7 +591,7 @@ export class CollectorAgent {
     return status;
   }
 
-  private updateCollectionStats(source_id: string, count: number, processingTime: number): void {
+  private updateCollectionStats(source_id: string, count: number, processingTime: number, notModified: boolean = false): void {
     const stats = this.collectionStats.get(source_id) || {
       total_collected: 0,
       last_collection: null,
@@ -456,6 +602,10 @@ export class CollectorAgent {
     
     stats.total_collected += count;
     stats.last_collection = new Date();
+    if (notModified) {
+      // 条件请求命中（HTTP 304），未下载内容
+      stats.not_modified = (stats.not_modified || 0) + 1;
+    }
     stats.processing_times = stats.processing_times || [];
     stats.processing_times.push(processingTime);
     
@@ -512,8 +662,15 @@ export class CollectorAgent {
     // 启动通信服务
     this.communication.start();
     
-    // 启动任务调度器
+    // 启动任务调度器和代理健康检查
     this.taskScheduler.start();
+    this.proxyPool.start();
+
+    // 恢复上次运行时的采集源并启动定时采集
+    for (const task of this.collectionScheduler.restore()) {
+      this.registerSource(task.id, task.source_config, task);
+    }
+    this.collectionScheduler.start();
     
     // 注册到协调代理
     const selfStatus = AgentUtils.createAgentStatus(
@@ -530,8 +687,14 @@ export class CollectorAgent {
   public async stop(): Promise<void> {
     this.logger.info('Stopping Collector Agent');
     
-    // 停止任务调度器
+    // 停止定时采集和任务调度器
+    this.collectionScheduler.stop();
     this.taskScheduler.stop();
+    this.proxyPool.stop();
+    for (const stopWatching of this.watchers.values()) {
+      stopWatching();
+    }
+    this.watchers.clear();
     
     // 停止通信服务
     this.communication.stop();
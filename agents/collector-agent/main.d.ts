@@ -1,3 +0,0 @@
-import { CollectorAgent } from './index';
-export { CollectorAgent };
-//# sourceMappingURL=main.d.ts.map
\ No newline at end of file
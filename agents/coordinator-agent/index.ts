@@ -1,8 +1,8 @@
 // 主协调代理
-import { CommunicationProtocol } from '../shared/communication';
-import { AgentConfig, AgentMessage, AgentStatus, Task } from '../shared/types';
-import { AGENT_PORTS, TASK_ROUTES, HEALTH_CHECK_INTERVAL } from '../shared/config';
-import { MessageUtils, AgentUtils, LoggerUtils } from '../shared/utils';
+import { CommunicationProtocol } from '../../shared/communication';
+import { AgentConfig, AgentMessage, AgentStatus, Task, TaskStatus } from '../../shared/types';
+import { TASK_ROUTES, HEALTH_CHECK_INTERVAL } from '../../shared/config';
+import { MessageUtils, AgentUtils, LoggerUtils } from '../../shared/utils';
 
 export class CoordinatorAgent {
   private config: AgentConfig;
@@ -42,6 +42,9 @@ export class CoordinatorAgent {
     
     // 获取任务状态
     this.communication.registerHandler('get_task_status', this.handleGetTaskStatus.bind(this));
+    
+    // 转发同步查询到目标代理
+    this.communication.registerQueryHandler('forward_query', this.handleForwardQuery.bind(this));
   }
 
   private handleHealthCheck(message: AgentMessage): void {
@@ -142,6 +145,16 @@ export class CoordinatorAgent {
     this.sendMessageToAgent(message.from, response);
   }
 
+  private async handleForwardQuery(data: any): Promise<any> {
+    const { agent, action, data: queryData, timeout = 120000 } = data;
+    if (!agent || !action) {
+      throw new Error('agent and action are required');
+    }
+
+    LoggerUtils.info(`Forwarding query to ${agent}: ${action}`);
+    return CommunicationProtocol.query(agent, action, queryData || {}, timeout);
+  }
+
   private async sendMessageToAgent(targetAgent: string, message: AgentMessage): Promise<void> {
     try {
       await this.communication.sendMessage(targetAgent, message.action, message);
@@ -197,23 +210,15 @@ export class CoordinatorAgent {
 
   private async assignTaskToAgent(task: Task, agentName: string): Promise<void> {
     task.assigned_agent = agentName;
-    task.status = 'assigned';
-    task.assigned_at = Date.now();
-
-    const message = MessageUtils.createMessage(
-      this.config.agent_name,
-      agentName,
-      'request',
-      'execute_task',
-      task
-    );
+    task.status = TaskStatus.ASSIGNED;
+    task.assigned_at = new Date();
 
     try {
       await this.communication.sendMessage(agentName, 'execute_task', task);
       LoggerUtils.info(`Task assigned to ${agentName}: ${task.id}`);
     } catch (error) {
       LoggerUtils.error(`Failed to assign task to ${agentName}`, { error });
-      task.status = 'failed';
+      task.status = TaskStatus.FAILED;
       this.activeTasks.delete(task.id);
     }
   }
@@ -255,7 +260,7 @@ export class CoordinatorAgent {
 
     tasksToReassign.forEach(task => {
       this.activeTasks.delete(task.id);
-      task.status = 'pending';
+      task.status = TaskStatus.PENDING;
       task.assigned_agent = undefined;
       task.assigned_at = undefined;
       this.taskQueue.push(task);
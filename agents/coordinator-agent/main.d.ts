@@ -1,3 +0,0 @@
-import { CoordinatorAgent } from './index';
-export { CoordinatorAgent };
-//# sourceMappingURL=main.d.ts.map
\ No newline at end of file
@@ -1,3 +0,0 @@
-import { ProcessorAgent } from './index';
-export { ProcessorAgent };
-//# sourceMappingURL=main.d.ts.map
\ No newline at end of file
@@ -5,7 +5,12 @@ module.exports = {
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
     '^.+\\.ts$': 'ts-jest',
+    // MCP SDK 只发布 ESM 构建，需要转换为 CommonJS 才能在测试中加载
+    '^.+\\.js$': ['ts-jest', { tsconfig: { allowJs: true }, isolatedModules: true }],
   },
+  transformIgnorePatterns: ['/node_modules/(?!@modelcontextprotocol/sdk/)'],
+  // src/mcp 中按 ESM 约定以 .js 后缀引用 TypeScript 源文件
+  moduleNameMapper: { '^(\\.{1,2}/.*)\\.js$': '$1' },
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
@@ -1,14 +1,17 @@
 // 代理间通信协议
 import express from 'express';
+import http from 'http';
 import { AgentMessage, AgentStatus } from './types';
-import { AGENT_PORTS, MESSAGE_TYPES, AGENT_ACTIONS } from './config';
+import { AGENT_PORTS, MESSAGE_TYPES } from './config';
 
 export class CommunicationProtocol {
   private app: express.Application;
   private agentName: string;
   private port: number;
   private messageHandlers: Map<string, Function> = new Map();
+  private queryHandlers: Map<string, (data: any) => Promise<any>> = new Map();
   private connectedAgents: Map<string, AgentStatus> = new Map();
+  private server: http.Server | null = null;
 
   constructor(agentName: string, port: number) {
     this.agentName = agentName;
@@ -43,8 +46,29 @@ export class CommunicationProtocol {
       res.json({ success: true, message_id: message.message_id });
     });
 
+    // 同步查询端点：处理器的返回值直接作为HTTP响应
+    this.app.post('/query', async (req, res) => {
+      const { action, data } = req.body || {};
+      const handler = this.queryHandlers.get(action);
+      if (!handler) {
+        res.status(404).json({ success: false, error: `No query handler for action: ${action}` });
+        return;
+      }
+
+      try {
+        const result = await handler(data || {});
+        res.json({ success: true, data: result });
+      } catch (error) {
+        console.error(`Error handling query ${action}:`, error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
     // 健康检查端点
-    this.app.get('/health', (req, res) => {
+    this.app.get('/health', (_req, res) => {
       res.json({
         status: 'running',
         agent: this.agentName,
@@ -62,7 +86,7 @@ export class CommunicationProtocol {
     });
 
     // 代理发现端点
-    this.app.get('/agents', (req, res) => {
+    this.app.get('/agents', (_req, res) => {
       res.json({ agents: Array.from(this.connectedAgents.values()) });
     });
   }
@@ -85,6 +109,40 @@ export class CommunicationProtocol {
     this.messageHandlers.set(action, handler);
   }
 
+  // 注册同步查询处理器
+  public registerQueryHandler(action: string, handler: (data: any) => Promise<any>): void {
+    this.queryHandlers.set(action, handler);
+  }
+
+  // 同步查询其他代理，等待其返回结果
+  public static async query(
+    targetAgent: string,
+    action: string,
+    data: any,
+    timeout: number = 30000
+  ): Promise<any> {
+    const targetPort = AGENT_PORTS[targetAgent as keyof typeof AGENT_PORTS];
+    if (!targetPort) {
+      throw new Error(`Unknown target agent: ${targetAgent}`);
+    }
+
+    const response = await fetch(`http://localhost:${targetPort}/query`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action, data }),
+      signal: AbortSignal.timeout(timeout)
+    });
+
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || `Query ${action} to ${targetAgent} failed: ${response.statusText}`);
+    }
+
+    return body.data;
+  }
+
   // 发送消息到其他代理
   public async sendMessage(
     targetAgent: string,
@@ -168,15 +226,17 @@ export class CommunicationProtocol {
   }
 
   // 启动通信服务
-  public start(): void {
-    this.app.listen(this.port, () => {
+  public start(): http.Server {
+    this.server = this.app.listen(this.port, () => {
       console.log(`${this.agentName} communication server started on port ${this.port}`);
     });
+    return this.server;
   }
 
   // 停止通信服务
   public stop(): void {
-    // 这里可以实现优雅停机逻辑
     console.log(`${this.agentName} communication server stopping...`);
+    this.server?.close();
+    this.server = null;
   }
 }
\ No newline at end of file
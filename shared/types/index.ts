@@ -39,6 +39,14 @@ export interface NewsItem {
   raw_data?: any;
 }
 
+// exact: 带时区的完整时间；inferred: 时区、年份按默认值补全或由相对时间推算；fallback: 无法解析，使用采集时间
+export type DateConfidence = 'exact' | 'inferred' | 'fallback';
+
+export interface ParsedNewsDate {
+  date: Date;
+  confidence: DateConfidence;
+}
+
 export interface ProcessedNews extends NewsItem {
   cleaned_content: string;
   entities: Entity[];
@@ -72,11 +80,12 @@ export interface SentimentScore {
 
 export interface CollectionTask {
   id: string;
-  source_type: 'rss' | 'web' | 'api';
+  source_type: string; // 内置 rss / web / api，或插件注册的采集器类型
   source_config: any;
   schedule: string;
   enabled: boolean;
   last_run?: Date;
+  last_success?: Date; // 上次成功采集的开始时间，用于增量同步
   next_run?: Date;
 }
 
@@ -1,6 +1,7 @@
 // 共享工具函数
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { AgentMessage, AgentStatus } from '../types';
+import { AgentMessage, AgentStatus, ParsedNewsDate } from '../types';
 
 export class MessageUtils {
   static createMessage(
@@ -100,6 +101,449 @@ export class ValidationUtils {
   }
 }
 
+// 跟踪参数在规范化URL时去除；只列明确不影响页面内容的参数，from、source 等可能是正文参数的不去除
+const TRACKING_PARAMS = /^(utm_\w+|spm|fbclid|gclid|share_token|share_from|share_source|wxshare_count)$/i;
+
+export class NewsIdentityUtils {
+  // 规范化URL：小写主机名、去掉默认端口/锚点/跟踪参数、参数排序、去掉末尾斜杠；
+  // 不合并 www./m. 等子域名，不同主机可能是不同页面
+  static canonicalizeUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return url.trim();
+    }
+
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase();
+    if ((parsed.protocol === 'http:' && parsed.port === '80') || (parsed.protocol === 'https:' && parsed.port === '443')) {
+      parsed.port = '';
+    }
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    // http 与 https 视为同一地址
+    const pathname = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : '';
+    return `${parsed.hostname}${parsed.port ? `:${parsed.port}` : ''}${pathname}${parsed.search}`;
+  }
+
+  // 基于规范化URL和GUID生成稳定ID，重复采集同一条目得到相同ID
+  static generateNewsId(prefix: string, url: string, guid?: string): string {
+    const basis = `${this.canonicalizeUrl(url)}\n${guid?.trim() || ''}`;
+    return `${prefix}_${createHash('sha1').update(basis).digest('hex').slice(0, 20)}`;
+  }
+
+  // 标题归一化：去掉空白、标点和来源前后缀
+  static normalizeTitle(title: string): string {
+    return this.normalizeText(title.replace(/[【\[(（][^】\])）]{0,12}[】\])）]/g, ''));
+  }
+
+  // 基于字符二元组的 Dice 系数，适用于中英文标题
+  static titleSimilarity(a: string, b: string): number {
+    const left = this.bigrams(this.normalizeTitle(a));
+    const right = this.bigrams(this.normalizeTitle(b));
+    if (left.length === 0 || right.length === 0) {
+      return 0;
+    }
+
+    const counts = new Map<string, number>();
+    for (const gram of left) {
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+
+    let overlap = 0;
+    for (const gram of right) {
+      const count = counts.get(gram) || 0;
+      if (count > 0) {
+        overlap++;
+        counts.set(gram, count - 1);
+      }
+    }
+
+    return (2 * overlap) / (left.length + right.length);
+  }
+
+  // 64位 SimHash，返回16位十六进制字符串
+  static simhash(text: string): string {
+    const tokens = this.bigrams(this.normalizeText(text));
+    const weights = new Array<number>(64).fill(0);
+
+    for (const token of tokens) {
+      const hash = BigInt(`0x${createHash('md5').update(token).digest('hex').slice(0, 16)}`);
+      for (let bit = 0; bit < 64; bit++) {
+        weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+      }
+    }
+
+    let fingerprint = 0n;
+    for (let bit = 0; bit < 64; bit++) {
+      if (weights[bit] > 0) {
+        fingerprint |= 1n << BigInt(bit);
+      }
+    }
+
+    return fingerprint.toString(16).padStart(16, '0');
+  }
+
+  static hammingDistance(a: string, b: string): number {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let distance = 0;
+    while (diff > 0n) {
+      distance += Number(diff & 1n);
+      diff >>= 1n;
+    }
+    return distance;
+  }
+
+  private static normalizeText(text: string): string {
+    return text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+  }
+
+  private static bigrams(text: string): string[] {
+    const chars = Array.from(text);
+    if (chars.length < 2) {
+      return chars;
+    }
+
+    const grams: string[] = [];
+    for (let i = 0; i < chars.length - 1; i++) {
+      grams.push(chars[i] + chars[i + 1]);
+    }
+    return grams;
+  }
+}
+
+export interface DateParseOptions {
+  timezone?: string; // 未带时区的时间按该时区解释，默认 Asia/Shanghai
+  now?: Date;
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+
+// 相对时间单位（毫秒）
+const RELATIVE_UNITS: Record<string, number> = {
+  '秒': 1000, 'second': 1000, 'sec': 1000,
+  '分钟': 60000, '分': 60000, 'minute': 60000, 'min': 60000,
+  '小时': 3600000, '个小时': 3600000, 'hour': 3600000, 'hr': 3600000,
+  '天': 86400000, '日': 86400000, 'day': 86400000,
+  '周': 604800000, '星期': 604800000, 'week': 604800000,
+  '个月': 2592000000, 'month': 2592000000
+};
+
+const RELATIVE_DAYS: Record<string, number> = {
+  '今天': 0, '今日': 0, 'today': 0,
+  '昨天': 1, '昨日': 1, 'yesterday': 1,
+  '前天': 2
+};
+
+// 发布时间解析：支持 ISO 8601、RFC 822、中文日期、省略年份的日期和相对时间
+export class NewsDateUtils {
+  private static formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+  // 无法解析时返回当前时间，confidence 为 fallback
+  static parse(value: unknown, options: DateParseOptions = {}): ParsedNewsDate {
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    const now = options.now || new Date();
+
+    try {
+      const parsed = this.tryParse(value, timezone, now);
+      if (parsed) {
+        return parsed;
+      }
+    } catch (error) {
+      // 时区名称无效时 Intl 会抛出 RangeError
+      LoggerUtils.warn('Failed to parse date', { value, timezone, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    return { date: new Date(now.getTime()), confidence: 'fallback' };
+  }
+
+  private static tryParse(value: unknown, timezone: string, now: Date): ParsedNewsDate | null {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : { date: value, confidence: 'exact' };
+    }
+    if (typeof value === 'number') {
+      return this.fromTimestamp(value);
+    }
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const text = value
+      .replace(/[０-９]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+      .replace(/：/g, ':')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) {
+      return null;
+    }
+
+    if (/^\d{10}(\d{3})?$/.test(text)) {
+      return this.fromTimestamp(Number(text));
+    }
+
+    return this.parseRelative(text, timezone, now) ||
+      this.parseChinese(text, timezone, now) ||
+      this.parseNumeric(text, timezone, now) ||
+      this.parseNative(text, timezone);
+  }
+
+  // Unix 时间戳，10位为秒，13位为毫秒
+  private static fromTimestamp(value: number): ParsedNewsDate | null {
+    if (!Number.isFinite(value) || value <= 0) {
+      return null;
+    }
+    const date = new Date(value < 1e12 ? value * 1000 : value);
+    return isNaN(date.getTime()) ? null : { date, confidence: 'exact' };
+  }
+
+  // 刚刚 / 3分钟前 / 半小时前 / 2 hours ago / 昨天 09:30
+  private static parseRelative(text: string, timezone: string, now: Date): ParsedNewsDate | null {
+    if (/^(刚刚|刚才|just now)$/i.test(text)) {
+      return { date: new Date(now.getTime()), confidence: 'inferred' };
+    }
+
+    if (/^半(个)?小时前$/.test(text)) {
+      return { date: new Date(now.getTime() - 1800000), confidence: 'inferred' };
+    }
+
+    const ago = text.match(/^(\d+)\s*(秒|分钟|分|个小时|小时|天|日|周|星期|个月)前$/) ||
+      text.match(/^(\d+|an?|one)\s+(second|sec|minute|min|hour|hr|day|week|month)s?\s+ago$/i);
+    if (ago) {
+      const amount = /^\d+$/.test(ago[1]) ? Number(ago[1]) : 1;
+      const unit = RELATIVE_UNITS[ago[2].toLowerCase()];
+      return { date: new Date(now.getTime() - amount * unit), confidence: 'inferred' };
+    }
+
+    const day = text.match(/^(今天|今日|昨天|昨日|前天|today|yesterday)(?:\s*(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/i);
+    if (day) {
+      const today = this.toWallClock(now, timezone);
+      const wall = this.shiftDays(today, -RELATIVE_DAYS[day[1].toLowerCase()]);
+      return this.fromWallClock(
+        { ...wall, hour: Number(day[2] || 0), minute: Number(day[3] || 0), second: Number(day[4] || 0) },
+        timezone
+      );
+    }
+
+    return null;
+  }
+
+  // 2025年8月3日 14:05 / 8月3日 下午2:05 / 2025年08月03日
+  private static parseChinese(text: string, timezone: string, now: Date): ParsedNewsDate | null {
+    const match = text.match(
+      /^(?:(\d{4})年)?(\d{1,2})月(\d{1,2})日\s*(?:星期.|周.)?\s*(?:(上午|中午|下午|晚上)?\s*(\d{1,2})[:时点](\d{1,2})?分?(?::(\d{1,2})秒?)?)?$/
+    );
+    if (!match) {
+      return null;
+    }
+
+    let hour = Number(match[5] || 0);
+    if ((match[4] === '下午' || match[4] === '晚上') && hour < 12) {
+      hour += 12;
+    }
+
+    return this.resolveDate({
+      year: match[1] ? Number(match[1]) : undefined,
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour,
+      minute: Number(match[6] || 0),
+      second: Number(match[7] || 0)
+    }, timezone, now);
+  }
+
+  // 2025-08-03 14:05:00 / 2025/8/3 / 2025-08-03T14:05:00+08:00 / 08-03 14:05 / 14:05
+  private static parseNumeric(text: string, timezone: string, now: Date): ParsedNewsDate | null {
+    const full = text.match(
+      /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|UTC|GMT|[+-]\d{2}:?\d{2})?$/i
+    );
+    if (full) {
+      const wall = {
+        year: Number(full[1]),
+        month: Number(full[2]),
+        day: Number(full[3]),
+        hour: Number(full[4] || 0),
+        minute: Number(full[5] || 0),
+        second: Number(full[6] || 0)
+      };
+      if (!this.isValidWallClock(wall)) {
+        return null;
+      }
+      if (full[7]) {
+        const utc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+        return { date: new Date(utc - this.parseOffset(full[7])), confidence: 'exact' };
+      }
+      return this.fromWallClock(wall, timezone);
+    }
+
+    const monthDay = text.match(/^(\d{1,2})[-/](\d{1,2})(?: (\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (monthDay) {
+      return this.resolveDate({
+        month: Number(monthDay[1]),
+        day: Number(monthDay[2]),
+        hour: Number(monthDay[3] || 0),
+        minute: Number(monthDay[4] || 0),
+        second: Number(monthDay[5] || 0)
+      }, timezone, now);
+    }
+
+    // 只有时间时视为今天，晚于当前时间则为昨天
+    const timeOnly = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (timeOnly) {
+      const today = this.toWallClock(now, timezone);
+      const wall = { ...today, hour: Number(timeOnly[1]), minute: Number(timeOnly[2]), second: Number(timeOnly[3] || 0) };
+      const parsed = this.fromWallClock(wall, timezone);
+      if (parsed && parsed.date.getTime() > now.getTime() + 600000) {
+        return this.fromWallClock({ ...this.shiftDays(wall, -1), hour: wall.hour, minute: wall.minute, second: wall.second }, timezone);
+      }
+      return parsed;
+    }
+
+    return null;
+  }
+
+  // RFC 822 等其他格式交给 Date.parse；未带时区时按默认时区解释
+  private static parseNative(text: string, timezone: string): ParsedNewsDate | null {
+    // 国内站点的 CST 指中国标准时间，而不是美国中部时间
+    const normalized = timezone === DEFAULT_TIMEZONE ? text.replace(/\bCST\b/, '+0800') : text;
+    // Date.parse 对 "Issue 5" 之类的文本也会返回日期，要求同时包含年份和英文月份
+    if (!/\b(19|20)\d{2}\b/.test(normalized) || !/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i.test(normalized)) {
+      return null;
+    }
+    const hasZone = /(\bZ|\bGMT|\bUTC|[+-]\d{2}:?\d{2}|\b[ECMP][SD]T)\s*$/i.test(normalized);
+
+    if (hasZone) {
+      const ms = Date.parse(normalized);
+      return isNaN(ms) ? null : { date: new Date(ms), confidence: 'exact' };
+    }
+
+    // 先按 UTC 解析得到字面时间，再换算到默认时区
+    const ms = Date.parse(`${normalized} GMT`);
+    if (isNaN(ms)) {
+      return null;
+    }
+    const literal = new Date(ms);
+    return this.fromWallClock({
+      year: literal.getUTCFullYear(),
+      month: literal.getUTCMonth() + 1,
+      day: literal.getUTCDate(),
+      hour: literal.getUTCHours(),
+      minute: literal.getUTCMinutes(),
+      second: literal.getUTCSeconds()
+    }, timezone);
+  }
+
+  // 省略年份时取当前年份，得到的时间晚于明天则为去年
+  private static resolveDate(
+    parts: Omit<WallClock, 'year'> & { year?: number },
+    timezone: string,
+    now: Date
+  ): ParsedNewsDate | null {
+    if (parts.year !== undefined) {
+      return this.fromWallClock({ ...parts, year: parts.year }, timezone);
+    }
+
+    const currentYear = this.toWallClock(now, timezone).year;
+    const parsed = this.fromWallClock({ ...parts, year: currentYear }, timezone);
+    if (parsed && parsed.date.getTime() > now.getTime() + 86400000) {
+      return this.fromWallClock({ ...parts, year: currentYear - 1 }, timezone);
+    }
+    return parsed;
+  }
+
+  private static fromWallClock(wall: WallClock, timezone: string): ParsedNewsDate | null {
+    if (!this.isValidWallClock(wall)) {
+      return null;
+    }
+
+    const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    const offset = this.timezoneOffset(guess, timezone);
+    let utc = guess - offset;
+    // 夏令时切换前后偏移量可能不同，按换算后的时刻再校正一次
+    const corrected = this.timezoneOffset(utc, timezone);
+    if (corrected !== offset) {
+      utc = guess - corrected;
+    }
+
+    return { date: new Date(utc), confidence: 'inferred' };
+  }
+
+  private static toWallClock(date: Date, timezone: string): WallClock {
+    const parts: Record<string, number> = {};
+    for (const part of this.formatter(timezone).formatToParts(date)) {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    }
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour % 24,
+      minute: parts.minute,
+      second: parts.second
+    };
+  }
+
+  private static timezoneOffset(utc: number, timezone: string): number {
+    const wall = this.toWallClock(new Date(utc), timezone);
+    const local = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    return local - Math.floor(utc / 1000) * 1000;
+  }
+
+  private static shiftDays(wall: WallClock, days: number): WallClock {
+    const shifted = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+    return { ...wall, year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+  }
+
+  // +08:00 / +0800 / Z => 毫秒偏移
+  private static parseOffset(zone: string): number {
+    const match = zone.match(/^([+-])(\d{2}):?(\d{2})$/);
+    if (!match) {
+      return 0;
+    }
+    const minutes = Number(match[2]) * 60 + Number(match[3]);
+    return (match[1] === '-' ? -1 : 1) * minutes * 60000;
+  }
+
+  private static isValidWallClock(wall: WallClock): boolean {
+    return wall.month >= 1 && wall.month <= 12 &&
+      wall.day >= 1 && wall.day <= 31 &&
+      wall.hour <= 23 && wall.minute <= 59 && wall.second <= 59;
+  }
+
+  private static formatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+      this.formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+}
+
 export class LoggerUtils {
   private static getTimestamp(): string {
     return new Date().toISOString();
@@ -0,0 +1,47 @@
+import { timingSafeEqual } from 'crypto';
+import express from 'express';
+import { SimpleLogger } from '../utils/logger';
+import { ApiResponse } from '../types';
+
+// .env.example 中的占位密钥，未修改时视为未配置
+const PLACEHOLDER_API_KEY = 'your-secret-key-here';
+
+export function isApiKeyConfigured(apiKey: string): boolean {
+  return apiKey.trim().length > 0 && apiKey !== PLACEHOLDER_API_KEY;
+}
+
+/**
+ * API 密钥校验中间件，支持 Authorization: Bearer <key> 或 X-API-Key: <key>。
+ * 未配置密钥时拒绝全部请求。
+ */
+export function requireApiKey(apiKey: string, logger: SimpleLogger): express.RequestHandler {
+  const configured = isApiKeyConfigured(apiKey);
+
+  return (req, res, next) => {
+    const authorization = req.get('Authorization');
+    const provided = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length).trim()
+      : req.get('X-API-Key');
+
+    if (!configured || !provided || !isValidApiKey(apiKey, provided)) {
+      logger.warn('Rejected unauthenticated request', { ip: req.ip, path: req.originalUrl });
+      const response: ApiResponse = {
+        code: 401,
+        message: 'Unauthorized',
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        version: '1.0',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    next();
+  };
+}
+
+function isValidApiKey(apiKey: string, provided: string): boolean {
+  const expected = Buffer.from(apiKey);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,7 +1,13 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
+import { Server } from 'http';
 import { TestModule } from '../models/test-module';
+import { MCPServer } from '../mcp/server';
+import { MCPHttpTransport } from '../mcp/http-transport';
+import { isApiKeyConfigured, requireApiKey } from './auth';
+import { CollectionControl, CoordinatorClient } from '../mcp/agent-client';
+import { CatalogName, ImpactLevel, RouteCatalog } from '../catalog/route-catalog';
 import { SimpleLogger } from '../utils/logger';
 import { ApiResponse, SystemStatus } from '../types';
 import config from '../config';
@@ -10,12 +16,34 @@ export class APIServer {
   private app: express.Application;
   private testModule: TestModule;
   private logger: SimpleLogger;
-  private server: any;
+  private server: Server | null = null;
+  private mcpTransport: MCPHttpTransport | null = null;
+  private routeCatalog: RouteCatalog;
+  private collectionControl: CollectionControl;
 
-  constructor() {
+  constructor(
+    mcpServer?: MCPServer,
+    routeCatalog: RouteCatalog = RouteCatalog.fromFiles(config.rsshubUrl),
+    collectionControl: CollectionControl = new CoordinatorClient()
+  ) {
     this.app = express();
     this.testModule = new TestModule();
     this.logger = new SimpleLogger('APIServer');
+    this.routeCatalog = routeCatalog;
+    this.collectionControl = collectionControl;
+
+    // 远程传输可以调用 add_source、collect_now 等工具，未设置密钥时不允许挂载
+    if (mcpServer && config.mcp.httpEnabled) {
+      if (isApiKeyConfigured(config.security.apiKey)) {
+        this.mcpTransport = new MCPHttpTransport(mcpServer, {
+          apiKey: config.security.apiKey,
+          sessionTimeout: config.mcp.sessionTimeout,
+          maxSessions: config.mcp.maxSessions,
+        });
+      } else {
+        this.logger.error('MCP HTTP transport not mounted: API_SECRET_KEY is empty or still the placeholder value');
+      }
+    }
     
     this.setupMiddleware();
     this.setupRoutes();
@@ -174,6 +202,91 @@ export class APIServer {
       res.json(response);
     });
 
+    // RSSHub 路由目录
+    this.app.get('/api/routes', (req, res) => {
+      const routes = this.routeCatalog.listRoutes({
+        catalog: req.query['catalog'] as CatalogName | undefined,
+        category: req.query['category'] as string | undefined,
+        impact_level: req.query['impact_level'] as ImpactLevel | undefined,
+        source: req.query['source'] as string | undefined,
+      });
+
+      const response: ApiResponse = {
+        code: 200,
+        message: 'Routes retrieved successfully',
+        data: { routes, count: routes.length },
+        timestamp: new Date().toISOString(),
+        requestId: this.generateRequestId(),
+        version: '1.0',
+      };
+
+      res.json(response);
+    });
+
+    this.app.get('/api/routes/categories', (req, res) => {
+      const categories = this.routeCatalog.listCategories(req.query['catalog'] as CatalogName | undefined);
+
+      const response: ApiResponse = {
+        code: 200,
+        message: 'Route categories retrieved successfully',
+        data: { categories, count: categories.length },
+        timestamp: new Date().toISOString(),
+        requestId: this.generateRequestId(),
+        version: '1.0',
+      };
+
+      res.json(response);
+    });
+
+    // 按分类或路由ID启用采集源，会向采集代理添加源，需要 API 密钥
+    this.app.post('/api/routes/enable', requireApiKey(config.security.apiKey, this.logger), async (req, res): Promise<void> => {
+      const { catalog, category, impact_level, route_ids, params, max_items } = req.body || {};
+
+      if (!catalog && !category && !(Array.isArray(route_ids) && route_ids.length > 0)) {
+        const response: ApiResponse = {
+          code: 400,
+          message: 'catalog, category or route_ids is required',
+          timestamp: new Date().toISOString(),
+          requestId: this.generateRequestId(),
+          version: '1.0',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      try {
+        const result = await this.routeCatalog.enableRoutes(
+          { catalog, category, impact_level, route_ids, params, max_items },
+          this.collectionControl
+        );
+
+        const response: ApiResponse = {
+          code: 200,
+          message: 'Routes enabled',
+          data: result,
+          timestamp: new Date().toISOString(),
+          requestId: this.generateRequestId(),
+          version: '1.0',
+        };
+        res.json(response);
+      } catch (error) {
+        this.logger.error('Failed to enable routes', error);
+        const response: ApiResponse = {
+          code: 500,
+          message: 'Internal server error',
+          timestamp: new Date().toISOString(),
+          requestId: this.generateRequestId(),
+          version: '1.0',
+        };
+        res.status(500).json(response);
+      }
+    });
+
+    // MCP远程传输
+    if (this.mcpTransport) {
+      this.app.use('/mcp', this.mcpTransport.createRouter());
+    }
+
     // 404处理
     this.app.use('*', (_req, res) => {
       const response: ApiResponse = {
@@ -204,18 +317,24 @@ export class APIServer {
     });
   }
 
+  hasMCPTransport(): boolean {
+    return this.mcpTransport !== null;
+  }
+
   private generateRequestId(): string {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  async start(port: number = config.apiPort): Promise<void> {
+  // 返回监听中的 HTTP 服务器，port 为 0 时可由此取得实际端口
+  async start(port: number = config.apiPort): Promise<Server> {
     return new Promise((resolve, reject) => {
-      this.server = this.app.listen(port, () => {
+      const server = this.app.listen(port, () => {
         this.logger.info(`API server started on port ${port}`);
-        resolve();
+        resolve(server);
       });
+      this.server = server;
       
-      this.server.on('error', (error: Error) => {
+      server.on('error', (error: Error) => {
         this.logger.error('Failed to start API server', error);
         reject(error);
       });
@@ -223,6 +342,11 @@ export class APIServer {
   }
 
   async stop(): Promise<void> {
+    // SSE长连接不关闭会阻塞 server.close
+    if (this.mcpTransport) {
+      await this.mcpTransport.closeAll();
+    }
+
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -0,0 +1,325 @@
+import fs from 'fs';
+import path from 'path';
+import { RSSSourceConfig } from '../../agents/collector-agent/collectors/rss-collector';
+import { CollectionControl, SourceConfigInput } from '../mcp/agent-client';
+import { SimpleLogger } from '../utils/logger';
+
+export type CatalogName = 'realtime' | 'ashare';
+export type ImpactLevel = 'high' | 'medium' | 'low';
+
+export interface RouteParam {
+  name: string;
+  required: boolean;
+  wildcard: boolean; // :name* / :name+ 可包含多级路径
+}
+
+export interface CatalogRoute {
+  id: string;
+  catalog: CatalogName;
+  category: string;
+  category_description: string;
+  pattern: string;
+  params: RouteParam[];
+  source: string;
+  description: string;
+  update_frequency: string; // 原始的更新频率 / 时效性描述
+  poll_interval: number; // 轮询间隔（秒）
+  schedule: string;
+  impact_level: ImpactLevel;
+  impact?: string;
+  content_type?: string;
+  website?: string;
+}
+
+export interface RouteCategorySummary {
+  catalog: CatalogName;
+  category: string;
+  description: string;
+  impact_level: ImpactLevel;
+  route_count: number;
+}
+
+export interface RouteFilter {
+  catalog?: CatalogName;
+  category?: string;
+  impact_level?: ImpactLevel;
+  source?: string;
+}
+
+export interface RouteSelection extends RouteFilter {
+  route_ids?: string[];
+  params?: Record<string, Record<string, string>>; // 按路由ID提供的参数
+  max_items?: number;
+}
+
+export interface EnableRoutesResult {
+  enabled: Array<{ route_id: string; source_id: string; name: string; url: string }>;
+  skipped: Array<{ route_id: string; reason: string; source_id?: string }>; // 已注册的路由附带现有采集源ID
+}
+
+interface PollingRule {
+  poll_interval: number;
+  schedule: string;
+}
+
+// 更新频率 / 时效性到轮询周期的映射（cron 含秒字段）
+const POLLING_RULES: Record<string, PollingRule> = {
+  '秒级': { poll_interval: 30, schedule: '*/30 * * * * *' },
+  '实时': { poll_interval: 60, schedule: '0 * * * * *' },
+  '分钟级': { poll_interval: 300, schedule: '0 */5 * * * *' },
+  '事件驱动': { poll_interval: 900, schedule: '0 */15 * * * *' },
+  '小时级': { poll_interval: 3600, schedule: '0 0 * * * *' },
+  '每日': { poll_interval: 21600, schedule: '0 0 */6 * * *' },
+  '不定期': { poll_interval: 43200, schedule: '0 0 */12 * * *' },
+  '周刊': { poll_interval: 86400, schedule: '0 0 8 * * *' },
+  '月度': { poll_interval: 86400, schedule: '0 0 8 * * *' },
+};
+
+const DEFAULT_POLLING_RULE = POLLING_RULES['分钟级'];
+
+const IMPACT_PRIORITY: Record<ImpactLevel, number> = { high: 1, medium: 2, low: 3 };
+
+// 这些分类的条目链接到 PDF 公告，采集时提取 PDF 文本作为正文
+const PDF_CATEGORIES = new Set(['stock_exchanges']);
+
+// 路由清单位于项目根目录；按工作目录解析，编译到 dist/ 后路径不变
+export const DEFAULT_CATALOG_FILES: Record<CatalogName, string> = {
+  realtime: path.join(process.cwd(), 'realtime_routes.json'),
+  ashare: path.join(process.cwd(), 'ashare_market_routes.json'),
+};
+
+/**
+ * RSSHub 路由目录：读取仓库自带的路由清单，展开 :param 模式并生成 RSS 采集源配置
+ */
+export class RouteCatalog {
+  private rsshubUrl: string;
+  private routes: CatalogRoute[];
+  private categories: RouteCategorySummary[];
+
+  constructor(rsshubUrl: string, routes: CatalogRoute[], categories: RouteCategorySummary[]) {
+    this.rsshubUrl = rsshubUrl.replace(/\/+$/, '');
+    this.routes = routes;
+    this.categories = categories;
+  }
+
+  static fromFiles(rsshubUrl: string, files: Partial<Record<CatalogName, string>> = DEFAULT_CATALOG_FILES): RouteCatalog {
+    const logger = new SimpleLogger('RouteCatalog');
+    const routes: CatalogRoute[] = [];
+    const categories: RouteCategorySummary[] = [];
+
+    if (files.realtime) {
+      const data = readJson(files.realtime);
+      for (const tier of Object.values<any>(data.realtime_routes || {})) {
+        for (const [category, group] of Object.entries<any>(tier)) {
+          // 非 A 股清单没有影响等级，统一视为低影响
+          addCategory('realtime', category, group, 'low', route => route.update_frequency);
+        }
+      }
+    }
+
+    if (files.ashare) {
+      const data = readJson(files.ashare);
+      for (const [category, group] of Object.entries<any>(data.ashare_market_routes?.categories || {})) {
+        addCategory('ashare', category, group, normalizeImpact(group.impact_level), route => route.timeliness);
+      }
+    }
+
+    logger.info('Route catalog loaded', { routes: routes.length, categories: categories.length });
+    return new RouteCatalog(rsshubUrl, routes, categories);
+
+    function addCategory(
+      catalog: CatalogName,
+      category: string,
+      group: any,
+      impactLevel: ImpactLevel,
+      frequencyOf: (route: any) => string
+    ): void {
+      let summary = categories.find(item => item.catalog === catalog && item.category === category);
+      if (!summary) {
+        summary = { catalog, category, description: group.description || '', impact_level: impactLevel, route_count: 0 };
+        categories.push(summary);
+      }
+
+      for (const route of group.routes || []) {
+        const id = `${catalog}:${category}:${route.pattern}`;
+        // 同一路由可能出现在多个更新级别下，只保留第一次出现
+        if (routes.some(existing => existing.id === id)) {
+          continue;
+        }
+
+        const frequency = frequencyOf(route) || '';
+        const polling = pollingRuleFor(frequency);
+        routes.push({
+          id,
+          catalog,
+          category,
+          category_description: group.description || '',
+          pattern: route.pattern,
+          params: parsePatternParams(route.pattern),
+          source: route.source,
+          description: route.description,
+          update_frequency: frequency,
+          poll_interval: polling.poll_interval,
+          schedule: polling.schedule,
+          impact_level: impactLevel,
+          impact: route.impact,
+          content_type: route.content_type,
+          website: catalog === 'ashare' ? route.url : undefined,
+        });
+        summary.route_count++;
+      }
+    }
+  }
+
+  listRoutes(filter: RouteFilter = {}): CatalogRoute[] {
+    return this.routes.filter(route =>
+      (!filter.catalog || route.catalog === filter.catalog) &&
+      (!filter.category || route.category === filter.category) &&
+      (!filter.impact_level || route.impact_level === filter.impact_level) &&
+      (!filter.source || route.source.includes(filter.source))
+    );
+  }
+
+  listCategories(catalog?: CatalogName): RouteCategorySummary[] {
+    return this.categories.filter(category => !catalog || category.catalog === catalog);
+  }
+
+  getRoute(id: string): CatalogRoute | undefined {
+    return this.routes.find(route => route.id === id);
+  }
+
+  // 按参数展开路由模式并拼接 RSSHub 地址
+  buildUrl(route: CatalogRoute, params: Record<string, string> = {}): string {
+    return `${this.rsshubUrl}${expandPattern(route.pattern, params)}`;
+  }
+
+  toSourceConfig(route: CatalogRoute, params: Record<string, string> = {}, maxItems?: number): SourceConfigInput {
+    const values = route.params.map(param => params[param.name]).filter(Boolean);
+    const name = values.length > 0
+      ? `${route.source} - ${route.description} (${values.join('/')})`
+      : `${route.source} - ${route.description}`;
+
+    const rssConfig: RSSSourceConfig = {
+      url: this.buildUrl(route, params),
+      name,
+      category: route.category,
+      language: 'zh',
+      update_frequency: route.poll_interval,
+      impact_level: route.impact_level,
+      max_items: maxItems,
+      extract_pdf: PDF_CATEGORIES.has(route.category) || undefined,
+    };
+
+    return {
+      type: 'rss',
+      name,
+      schedule: route.schedule,
+      priority: IMPACT_PRIORITY[route.impact_level],
+      config: rssConfig,
+    };
+  }
+
+  // 按目录、分类或路由ID批量启用采集源；缺少必填参数或已注册（名称或地址相同）的路由会被跳过
+  async enableRoutes(selection: RouteSelection, collectionControl: CollectionControl): Promise<EnableRoutesResult> {
+    const routes = selection.route_ids && selection.route_ids.length > 0
+      ? selection.route_ids.map(id => this.getRoute(id) || id)
+      : this.listRoutes(selection);
+
+    const result: EnableRoutesResult = { enabled: [], skipped: [] };
+    const registered = new Map<string, string>();
+    for (const status of await collectionControl.getCollectionStatus()) {
+      for (const key of [status.source_name, status.source_url]) {
+        if (key) {
+          registered.set(key, status.source_id);
+        }
+      }
+    }
+
+    for (const route of routes) {
+      if (typeof route === 'string') {
+        result.skipped.push({ route_id: route, reason: 'Route not found' });
+        continue;
+      }
+
+      try {
+        const sourceConfig = this.toSourceConfig(route, selection.params?.[route.id], selection.max_items);
+        const existing = registered.get(sourceConfig.name) || registered.get(sourceConfig.config.url);
+        if (existing) {
+          result.skipped.push({ route_id: route.id, reason: 'Already registered', source_id: existing });
+          continue;
+        }
+
+        const added = await collectionControl.addSource(sourceConfig);
+        registered.set(sourceConfig.name, added.source_id);
+        registered.set(sourceConfig.config.url, added.source_id);
+        result.enabled.push({
+          route_id: route.id,
+          source_id: added.source_id,
+          name: sourceConfig.name,
+          url: sourceConfig.config.url,
+        });
+      } catch (error) {
+        result.skipped.push({ route_id: route.id, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return result;
+  }
+}
+
+export function parsePatternParams(pattern: string): RouteParam[] {
+  return pattern
+    .split('/')
+    .filter(segment => segment.startsWith(':'))
+    .map(segment => {
+      const modifier = segment.slice(-1);
+      const hasModifier = ['?', '*', '+'].includes(modifier);
+      return {
+        name: hasModifier ? segment.slice(1, -1) : segment.slice(1),
+        required: !hasModifier || modifier === '+',
+        wildcard: modifier === '*' || modifier === '+',
+      };
+    });
+}
+
+// 展开 RSSHub 路由模式：/sse/disclosure/:query? + { query: 'x' } => /sse/disclosure/x
+export function expandPattern(pattern: string, params: Record<string, string> = {}): string {
+  const segments: string[] = [];
+
+  for (const segment of pattern.split('/').filter(Boolean)) {
+    if (!segment.startsWith(':')) {
+      segments.push(segment);
+      continue;
+    }
+
+    const [param] = parsePatternParams(`/${segment}`);
+    const value = params[param.name];
+
+    if (value === undefined || value === '') {
+      if (param.required) {
+        throw new Error(`Missing required route parameter: ${param.name}`);
+      }
+      // 可选参数省略后，后续参数无法再按位置传递
+      break;
+    }
+
+    segments.push(param.wildcard
+      ? value.split('/').filter(Boolean).map(encodeURIComponent).join('/')
+      : encodeURIComponent(value));
+  }
+
+  return `/${segments.join('/')}`;
+}
+
+function pollingRuleFor(frequency: string): PollingRule {
+  const key = Object.keys(POLLING_RULES).find(label => frequency.startsWith(label));
+  return key ? POLLING_RULES[key] : DEFAULT_POLLING_RULE;
+}
+
+function normalizeImpact(level: unknown): ImpactLevel {
+  return level === 'high' || level === 'medium' || level === 'low' ? level : 'medium';
+}
+
+function readJson(file: string): any {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
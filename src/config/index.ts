@@ -22,6 +22,9 @@ const configSchema = z.object({
   LOG_FILE: z.string().optional(),
   API_SECRET_KEY: z.string().default('your-secret-key-here'),
   CORS_ORIGIN: z.string().default('http://localhost:3000'),
+  MCP_HTTP_ENABLED: z.string().default('false'),
+  MCP_SESSION_TIMEOUT: z.string().default('1800000'),
+  MCP_MAX_SESSIONS: z.string().default('100'),
 });
 
 const validatedConfig = configSchema.parse(process.env);
@@ -54,6 +57,11 @@ export const config: SystemConfig = {
     apiKey: validatedConfig.API_SECRET_KEY,
     corsOrigin: validatedConfig.CORS_ORIGIN,
   },
+  mcp: {
+    httpEnabled: validatedConfig.MCP_HTTP_ENABLED === 'true',
+    sessionTimeout: parseInt(validatedConfig.MCP_SESSION_TIMEOUT),
+    maxSessions: parseInt(validatedConfig.MCP_MAX_SESSIONS),
+  },
 };
 
 export default config;
\ No newline at end of file
@@ -1,4 +1,8 @@
 import { APIServer } from './api';
+import { MCPServer } from './mcp/server';
+import { NewsRepository } from './storage/repositories/news-repository';
+import { openDatabase } from './storage/database';
+import { RouteCatalog } from './catalog/route-catalog';
 import { SimpleLogger } from './utils/logger';
 import config from './config';
 
@@ -16,14 +20,19 @@ async function main() {
       databaseType: config.database.type,
     });
 
-    // 启动API服务器
-    const apiServer = new APIServer();
+    // 启动API服务器，MCP远程传输挂载在同一端口
+    const routeCatalog = RouteCatalog.fromFiles(config.rsshubUrl);
+    const mcpServer = new MCPServer(new NewsRepository(openDatabase(config.database)), undefined, undefined, routeCatalog);
+    const apiServer = new APIServer(mcpServer, routeCatalog);
     await apiServer.start();
 
     logger.info('✅ AI News Collector MCP Server started successfully');
     logger.info(`🚀 API Server: http://localhost:${config.apiPort}`);
     logger.info(`💚 Health Check: http://localhost:${config.apiPort}/health`);
     logger.info(`📊 System Info: http://localhost:${config.apiPort}/api/system/info`);
+    if (apiServer.hasMCPTransport()) {
+      logger.info(`🔌 MCP (SSE): http://localhost:${config.apiPort}/mcp/sse`);
+    }
 
     // 优雅关闭处理
     process.on('SIGTERM', async () => {
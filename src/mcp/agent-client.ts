@@ -0,0 +1,84 @@
+import { CommunicationProtocol } from '../../shared/communication';
+import { RiskAlert } from '../../shared/types';
+
+export interface RiskAlertFilter {
+  severity?: Array<RiskAlert['severity']>;
+  entity?: string;
+  news_ids?: string[];
+  since?: Date;
+  limit?: number;
+}
+
+export interface RiskAlertSource {
+  getRiskAlerts(filter: RiskAlertFilter): Promise<RiskAlert[]>;
+}
+
+/**
+ * 通过分析代理的同步查询接口获取风险告警
+ */
+export class AnalyzerClient implements RiskAlertSource {
+  private timeout: number;
+
+  constructor(timeout: number = 10000) {
+    this.timeout = timeout;
+  }
+
+  async getRiskAlerts(filter: RiskAlertFilter): Promise<RiskAlert[]> {
+    const result = await CommunicationProtocol.query('analyzer', 'get_risk_alerts', {
+      ...filter,
+      since: filter.since?.toISOString(),
+    }, this.timeout);
+
+    return (result.alerts || []).map((alert: any) => ({
+      ...alert,
+      created_at: new Date(alert.created_at),
+    }));
+  }
+}
+
+export interface SourceConfigInput {
+  type: string;
+  name: string;
+  schedule?: string;
+  priority?: number;
+  config: Record<string, any>;
+}
+
+export interface CollectionControl {
+  startCollection(source: string): Promise<any>;
+  addSource(sourceConfig: SourceConfigInput): Promise<any>;
+  getCollectionStatus(): Promise<any[]>;
+}
+
+/**
+ * 经由协调代理转发到采集代理的采集控制接口
+ */
+export class CoordinatorClient implements CollectionControl {
+  private timeout: number;
+
+  constructor(timeout: number = 120000) {
+    this.timeout = timeout;
+  }
+
+  // source 可以是采集源ID或名称
+  async startCollection(source: string): Promise<any> {
+    return this.forwardToCollector('start_collection', { source_id: source, source_name: source });
+  }
+
+  async addSource(sourceConfig: SourceConfigInput): Promise<any> {
+    return this.forwardToCollector('add_source', { source_config: sourceConfig });
+  }
+
+  async getCollectionStatus(): Promise<any[]> {
+    return this.forwardToCollector('get_collection_status', {});
+  }
+
+  private async forwardToCollector(action: string, data: any): Promise<any> {
+    return CommunicationProtocol.query('coordinator', 'forward_query', {
+      agent: 'collector',
+      action,
+      data,
+      timeout: this.timeout,
+    }, this.timeout + 5000);
+  }
+}
@@ -0,0 +1,215 @@
+import express from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { SimpleLogger } from '../utils/logger';
+import { ApiResponse } from '../types';
+import { requireApiKey } from '../api/auth';
+import { MCPServer } from './server';
+
+export interface MCPHttpOptions {
+  apiKey: string;
+  sessionTimeout: number; // 会话空闲超时（毫秒）
+  maxSessions: number;
+  keepAliveInterval?: number;
+}
+
+interface MCPSession {
+  id: string;
+  transport: SSEServerTransport;
+  server: Server;
+  createdAt: Date;
+  lastActivity: Date;
+  keepAliveTimer: NodeJS.Timeout;
+}
+
+/**
+ * 基于 SSE 的 MCP 远程传输：
+ * GET /sse 建立事件流并创建会话，POST /messages?sessionId=... 投递客户端消息。
+ */
+export class MCPHttpTransport {
+  private mcpServer: MCPServer;
+  private options: MCPHttpOptions;
+  private sessions: Map<string, MCPSession> = new Map();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private logger: SimpleLogger;
+
+  constructor(mcpServer: MCPServer, options: MCPHttpOptions) {
+    this.mcpServer = mcpServer;
+    this.options = options;
+    this.logger = new SimpleLogger('MCPHttpTransport');
+  }
+
+  createRouter(): express.Router {
+    const router = express.Router();
+
+    router.use(requireApiKey(this.options.apiKey, this.logger));
+
+    // 建立SSE连接
+    router.get('/sse', async (req, res): Promise<void> => {
+      if (this.sessions.size >= this.options.maxSessions) {
+        this.sendError(res, 503, 'Too many MCP sessions');
+        return;
+      }
+
+      try {
+        await this.openSession(`${req.baseUrl}/messages`, res);
+      } catch (error) {
+        this.logger.error('Failed to open MCP session', error);
+        if (!res.headersSent) {
+          this.sendError(res, 500, 'Failed to open MCP session');
+        }
+      }
+    });
+
+    // 接收客户端消息
+    router.post('/messages', async (req, res): Promise<void> => {
+      const sessionId = req.query['sessionId'] as string | undefined;
+      const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+      if (!session) {
+        this.sendError(res, 404, 'MCP session not found');
+        return;
+      }
+
+      session.lastActivity = new Date();
+
+      try {
+        await session.transport.handleMessage(req.body);
+        res.status(202).end('Accepted');
+      } catch (error) {
+        this.logger.warn('Invalid MCP message', { sessionId, error: error instanceof Error ? error.message : error });
+        this.sendError(res, 400, 'Invalid MCP message');
+      }
+    });
+
+    // 会话列表
+    router.get('/sessions', (_req, res) => {
+      const response: ApiResponse = {
+        code: 200,
+        message: 'MCP sessions retrieved successfully',
+        data: {
+          sessions: Array.from(this.sessions.values()).map(session => ({
+            id: session.id,
+            created_at: session.createdAt,
+            last_activity: session.lastActivity,
+          })),
+          max_sessions: this.options.maxSessions,
+        },
+        timestamp: new Date().toISOString(),
+        requestId: this.generateRequestId(),
+        version: '1.0',
+      };
+      res.json(response);
+    });
+
+    // 主动关闭会话
+    router.delete('/sessions/:sessionId', async (req, res): Promise<void> => {
+      const closed = await this.closeSession(req.params.sessionId);
+      if (!closed) {
+        this.sendError(res, 404, 'MCP session not found');
+        return;
+      }
+      res.status(204).end();
+    });
+
+    this.startCleanup();
+
+    return router;
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.closeSession(id)));
+  }
+
+  private async openSession(endpoint: string, res: express.Response): Promise<void> {
+    const transport = new SSEServerTransport(endpoint, res);
+    const server = this.mcpServer.createServer();
+
+    const keepAliveTimer = setInterval(() => {
+      // SSE 注释行，防止反向代理因空闲断开连接
+      res.write(': keep-alive\n\n');
+    }, this.options.keepAliveInterval ?? 25000);
+
+    const session: MCPSession = {
+      id: transport.sessionId,
+      transport,
+      server,
+      createdAt: new Date(),
+      lastActivity: new Date(),
+      keepAliveTimer,
+    };
+
+    // connect() 会接管 transport 的回调，因此在协议实例上监听关闭
+    server.onclose = () => {
+      clearInterval(keepAliveTimer);
+      if (this.sessions.delete(session.id)) {
+        this.logger.info('MCP session closed', { sessionId: session.id });
+      }
+    };
+
+    this.sessions.set(session.id, session);
+    await server.connect(transport);
+
+    this.logger.info('MCP session opened', { sessionId: session.id, activeSessions: this.sessions.size });
+  }
+
+  private async closeSession(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    clearInterval(session.keepAliveTimer);
+    this.sessions.delete(sessionId);
+
+    try {
+      await session.server.close();
+    } catch (error) {
+      this.logger.warn('Failed to close MCP session cleanly', { sessionId, error: error instanceof Error ? error.message : error });
+    }
+
+    this.logger.info('MCP session closed', { sessionId });
+    return true;
+  }
+
+  private startCleanup(): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+
+    this.cleanupInterval = setInterval(() => {
+      const expireBefore = Date.now() - this.options.sessionTimeout;
+      for (const session of this.sessions.values()) {
+        if (session.lastActivity.getTime() < expireBefore) {
+          this.logger.info('MCP session expired', { sessionId: session.id });
+          this.closeSession(session.id);
+        }
+      }
+    }, Math.min(this.options.sessionTimeout, 60000));
+    this.cleanupInterval.unref();
+  }
+
+  private sendError(res: express.Response, code: number, message: string): void {
+    const response: ApiResponse = {
+      code,
+      message,
+      timestamp: new Date().toISOString(),
+      requestId: this.generateRequestId(),
+      version: '1.0',
+    };
+    res.status(code).json(response);
+  }
+
+  private generateRequestId(): string {
+    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -1,8 +1,11 @@
 import { MCPServer } from './server';
+import { NewsRepository } from '../storage/repositories/news-repository';
+import { openDatabase } from '../storage/database';
+import config from '../config';
 
 async function main() {
   try {
-    const server = new MCPServer();
+    const server = new MCPServer(new NewsRepository(openDatabase(config.database)));
     await server.run();
   } catch (error) {
     console.error('Failed to start MCP server:', error);
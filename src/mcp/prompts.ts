@@ -0,0 +1,224 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { NewsItem, RiskAlert } from '../../shared/types';
+import { NewsRepository } from '../storage/repositories/news-repository';
+import { SimpleLogger } from '../utils/logger';
+import { RiskAlertFilter, RiskAlertSource } from './agent-client';
+
+// MCP 提示参数均为字符串，数值参数在此转换
+const MorningBriefingSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+const TickerRiskDigestSchema = z.object({
+  ticker: z.string().min(1),
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+const SentimentComparisonSchema = z.object({
+  sources: z.string().min(1),
+  topic: z.string().optional(),
+  days: z.coerce.number().int().min(1).max(30).default(3),
+});
+
+const PROMPT_TEMPLATES: Prompt[] = [
+  {
+    name: 'morning_ashare_briefing',
+    description: 'A股早盘简报：汇总前一交易日收盘至当日开盘前的新闻和高风险告警',
+    arguments: [
+      { name: 'date', description: '简报日期 (YYYY-MM-DD，北京时间)，默认今天', required: false },
+      { name: 'limit', description: '纳入的新闻条数，默认30', required: false },
+    ],
+  },
+  {
+    name: 'ticker_risk_digest',
+    description: '个股风险摘要：汇总指定股票代码或公司相关的新闻和风险告警',
+    arguments: [
+      { name: 'ticker', description: '股票代码或公司名称，例如 600519 或 贵州茅台', required: true },
+      { name: 'days', description: '回溯天数，默认7', required: false },
+    ],
+  },
+  {
+    name: 'source_sentiment_comparison',
+    description: '跨来源情绪对比：比较不同新闻来源对同一话题的报道倾向',
+    arguments: [
+      { name: 'sources', description: '逗号分隔的来源名称，例如 新浪财经,东方财富', required: true },
+      { name: 'topic', description: '关注的话题关键词，不填则比较全部报道', required: false },
+      { name: 'days', description: '回溯天数，默认3', required: false },
+    ],
+  },
+];
+
+const DAY_MS = 86400000;
+const CONTENT_PREVIEW_LENGTH = 200;
+
+export class NewsPromptProvider {
+  private newsRepository: NewsRepository;
+  private riskAlertSource: RiskAlertSource;
+  private logger: SimpleLogger;
+
+  constructor(newsRepository: NewsRepository, riskAlertSource: RiskAlertSource) {
+    this.newsRepository = newsRepository;
+    this.riskAlertSource = riskAlertSource;
+    this.logger = new SimpleLogger('NewsPromptProvider');
+  }
+
+  listPrompts(): Prompt[] {
+    return PROMPT_TEMPLATES;
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    this.logger.info('Building prompt', { name, args });
+
+    switch (name) {
+      case 'morning_ashare_briefing':
+        return this.buildMorningBriefing(MorningBriefingSchema.parse(args));
+      case 'ticker_risk_digest':
+        return this.buildTickerRiskDigest(TickerRiskDigestSchema.parse(args));
+      case 'source_sentiment_comparison':
+        return this.buildSentimentComparison(SentimentComparisonSchema.parse(args));
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  }
+
+  private async buildMorningBriefing(args: z.infer<typeof MorningBriefingSchema>): Promise<GetPromptResult> {
+    const date = args.date || formatBeijingDate(new Date());
+    // 上一交易日15:00收盘至当日09:30开盘；跳过周末，节假日休市不做处理
+    const endDate = new Date(`${date}T09:30:00+08:00`);
+    if (isNaN(endDate.getTime())) {
+      throw new Error(`Invalid briefing date: ${date}`);
+    }
+    const startDate = new Date(`${previousWeekday(date)}T15:00:00+08:00`);
+
+    const news = await this.newsRepository.getNewsByDateRange(startDate, endDate, args.limit);
+    const alerts = await this.fetchRiskAlerts({ severity: ['high', 'critical'], since: startDate });
+
+    const text = [
+      `请根据以下资料撰写 ${date} 的A股早盘简报。`,
+      '要求：按宏观政策、监管动态、行业板块、个股公告分类归纳要点，指出可能影响当日开盘的关键事件，并单独列出需要重点关注的风险。',
+      '',
+      `## 新闻（${formatBeijingTime(startDate)} 至 ${formatBeijingTime(endDate)}，共 ${news.length} 条）`,
+      formatNewsList(news),
+      '',
+      '## 高风险告警',
+      formatRiskAlerts(alerts),
+    ].join('\n');
+
+    return {
+      description: `${date} A股早盘简报`,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  private async buildTickerRiskDigest(args: z.infer<typeof TickerRiskDigestSchema>): Promise<GetPromptResult> {
+    const startDate = new Date(Date.now() - args.days * DAY_MS);
+    const news = await this.newsRepository.searchNews(args.ticker, { start_date: startDate, limit: 30 });
+    const alerts = await this.fetchRiskAlerts({
+      entity: args.ticker,
+      news_ids: news.map(item => item.id),
+      since: startDate,
+    });
+
+    const text = [
+      `请根据以下资料为 ${args.ticker} 撰写近 ${args.days} 天的风险摘要。`,
+      '要求：识别财务、经营、监管和市场层面的风险信号，评估每项风险的严重程度与可信度，说明依据的新闻来源，最后给出需要持续跟踪的事项。',
+      '',
+      `## 相关新闻（共 ${news.length} 条）`,
+      formatNewsList(news),
+      '',
+      '## 风险告警',
+      formatRiskAlerts(alerts),
+    ].join('\n');
+
+    return {
+      description: `${args.ticker} 风险摘要`,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  private async buildSentimentComparison(args: z.infer<typeof SentimentComparisonSchema>): Promise<GetPromptResult> {
+    const startDate = new Date(Date.now() - args.days * DAY_MS);
+    const sources = args.sources.split(',').map(source => source.trim()).filter(Boolean);
+    if (sources.length === 0) {
+      throw new Error('At least one source is required');
+    }
+
+    const sections: string[] = [];
+    for (const source of sources) {
+      const news = args.topic
+        ? await this.newsRepository.searchNews(args.topic, { source, start_date: startDate, limit: 10 })
+        : await this.newsRepository.getNews({ source, start_date: startDate, limit: 10 });
+      sections.push(`## ${source}（共 ${news.length} 条）`, formatNewsList(news), '');
+    }
+
+    const subject = args.topic ? `关于“${args.topic}”的报道` : '的报道';
+    const text = [
+      `请比较以下来源近 ${args.days} 天${subject}在情绪倾向上的差异。`,
+      '要求：为每个来源给出整体情绪判断（正面/中性/负面）及理由，指出各来源之间观点分歧最大的事件，并说明这种分歧可能对市场预期产生的影响。',
+      '',
+      ...sections,
+    ].join('\n');
+
+    return {
+      description: `${sources.join(' / ')} 情绪对比`,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  // 分析代理不可用时提示降级，不影响新闻部分
+  private async fetchRiskAlerts(filter: RiskAlertFilter): Promise<RiskAlert[] | null> {
+    try {
+      return await this.riskAlertSource.getRiskAlerts(filter);
+    } catch (error) {
+      this.logger.warn('Risk alerts unavailable', { error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+}
+
+function formatNewsList(news: NewsItem[]): string {
+  if (news.length === 0) {
+    return '- 暂无数据';
+  }
+
+  return news.map(item => {
+    const preview = item.content.replace(/\s+/g, ' ').trim().slice(0, CONTENT_PREVIEW_LENGTH);
+    const lines = [`- [${formatBeijingTime(item.publish_time)}] ${item.title}（${item.source}，ID: ${item.id}）`];
+    if (preview && preview !== item.title) {
+      lines.push(`  ${preview}`);
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+function formatRiskAlerts(alerts: RiskAlert[] | null): string {
+  if (alerts === null) {
+    return '- 风险告警数据暂不可用';
+  }
+  if (alerts.length === 0) {
+    return '- 暂无风险告警';
+  }
+
+  return alerts.map(alert =>
+    `- [${alert.severity}] ${alert.risk_type}：${alert.description}（置信度 ${alert.confidence.toFixed(2)}，新闻ID: ${alert.news_id}）`
+  ).join('\n');
+}
+
+// 前一个工作日的日期，周一回溯到上周五
+function previousWeekday(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  do {
+    day.setUTCDate(day.getUTCDate() - 1);
+  } while (day.getUTCDay() === 0 || day.getUTCDay() === 6);
+  return day.toISOString().slice(0, 10);
+}
+
+function formatBeijingDate(date: Date): string {
+  return new Date(date.getTime() + 8 * 3600000).toISOString().slice(0, 10);
+}
+
+function formatBeijingTime(date: Date): string {
+  return new Date(date.getTime() + 8 * 3600000).toISOString().slice(0, 16).replace('T', ' ');
+}
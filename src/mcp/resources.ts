@@ -0,0 +1,175 @@
+import { NewsItem } from '../../shared/types';
+import { NewsRepository } from '../storage/repositories/news-repository';
+import { SimpleLogger } from '../utils/logger';
+import { MCPResource, MCPResourceTemplate } from '../types';
+
+export interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: 'news://item/{id}',
+    name: '新闻详情',
+    description: '单条新闻的完整内容，包括原始采集数据',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'news://source/{name}/latest',
+    name: '来源最新新闻',
+    description: '指定来源最近发布的新闻列表',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'report://summary/{date}',
+    name: '每日新闻摘要',
+    description: '指定日期 (YYYY-MM-DD，北京时间) 的新闻统计与头条摘要',
+    mimeType: 'text/markdown',
+  },
+];
+
+const LISTED_ITEM_COUNT = 20;
+const SOURCE_LATEST_COUNT = 20;
+const REPORT_HEADLINE_COUNT = 20;
+const REPORT_DAYS = 7;
+
+export class NewsResourceProvider {
+  private newsRepository: NewsRepository;
+  private logger: SimpleLogger;
+
+  constructor(newsRepository: NewsRepository) {
+    this.newsRepository = newsRepository;
+    this.logger = new SimpleLogger('NewsResourceProvider');
+  }
+
+  listTemplates(): MCPResourceTemplate[] {
+    return RESOURCE_TEMPLATES;
+  }
+
+  /**
+   * 列出可直接读取的资源：最新新闻、各来源最新列表和最近几天的日报
+   */
+  async listResources(): Promise<MCPResource[]> {
+    const [recentNews, sources] = await Promise.all([
+      this.newsRepository.getRecentNews(LISTED_ITEM_COUNT),
+      this.newsRepository.getSources(),
+    ]);
+
+    const resources: MCPResource[] = [];
+
+    for (const item of recentNews) {
+      resources.push({
+        uri: `news://item/${encodeURIComponent(item.id)}`,
+        name: item.title,
+        description: `${item.source} · ${item.publish_time.toISOString()}`,
+        mimeType: 'application/json',
+      });
+    }
+
+    for (const source of sources) {
+      resources.push({
+        uri: `news://source/${encodeURIComponent(source.source)}/latest`,
+        name: `${source.source} 最新新闻`,
+        description: `共 ${source.news_count} 条新闻`,
+        mimeType: 'application/json',
+      });
+    }
+
+    for (let i = 0; i < REPORT_DAYS; i++) {
+      const date = formatReportDate(new Date(Date.now() - i * 86400000));
+      resources.push({
+        uri: `report://summary/${date}`,
+        name: `${date} 新闻摘要`,
+        description: `${date} 的新闻统计与头条`,
+        mimeType: 'text/markdown',
+      });
+    }
+
+    return resources;
+  }
+
+  async readResource(uri: string): Promise<ResourceContent> {
+    this.logger.info('Reading resource', { uri });
+
+    const itemMatch = uri.match(/^news:\/\/item\/([^/]+)$/);
+    if (itemMatch) {
+      const id = decodeURIComponent(itemMatch[1]);
+      const item = await this.newsRepository.getNewsById(id);
+      if (!item) {
+        throw new Error(`News not found: ${id}`);
+      }
+      return { uri, mimeType: 'application/json', text: JSON.stringify(item, null, 2) };
+    }
+
+    const sourceMatch = uri.match(/^news:\/\/source\/([^/]+)\/latest$/);
+    if (sourceMatch) {
+      const source = decodeURIComponent(sourceMatch[1]);
+      const items = await this.newsRepository.getNewsBySource(source, SOURCE_LATEST_COUNT);
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify({ source, count: items.length, items }, null, 2),
+      };
+    }
+
+    const reportMatch = uri.match(/^report:\/\/summary\/(\d{4}-\d{2}-\d{2})$/);
+    if (reportMatch) {
+      return { uri, mimeType: 'text/markdown', text: await this.buildDailySummary(reportMatch[1]) };
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  private async buildDailySummary(date: string): Promise<string> {
+    const startDate = new Date(`${date}T00:00:00+08:00`);
+    if (isNaN(startDate.getTime())) {
+      throw new Error(`Invalid report date: ${date}`);
+    }
+    const endDate = new Date(startDate.getTime() + 86400000 - 1);
+
+    const [stats, headlines] = await Promise.all([
+      this.newsRepository.getStats(startDate, endDate),
+      this.newsRepository.getNewsByDateRange(startDate, endDate, REPORT_HEADLINE_COUNT),
+    ]);
+
+    const lines: string[] = [
+      `# ${date} 新闻摘要`,
+      '',
+      `共采集新闻 ${stats.total_news} 条。`,
+      '',
+      '## 来源分布',
+      '',
+    ];
+
+    const sources = Object.entries(stats.by_source).sort((a, b) => b[1] - a[1]);
+    if (sources.length === 0) {
+      lines.push('- 暂无数据');
+    } else {
+      for (const [source, count] of sources) {
+        lines.push(`- ${source}: ${count}`);
+      }
+    }
+
+    lines.push('', '## 头条', '');
+    if (headlines.length === 0) {
+      lines.push('- 暂无数据');
+    } else {
+      for (const item of headlines) {
+        lines.push(formatHeadline(item));
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
+
+function formatHeadline(item: NewsItem): string {
+  return `- [${item.title}](${item.url}) — ${item.source}，${item.publish_time.toISOString()}（ID: ${item.id}）`;
+}
+
+// 按北京时间格式化日期
+function formatReportDate(date: Date): string {
+  return new Date(date.getTime() + 8 * 3600000).toISOString().slice(0, 10);
+}
@@ -2,34 +2,124 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TestModule } from '../models/test-module.js';
+import { NewsRepository } from '../storage/repositories/news-repository.js';
+import { openDatabase } from '../storage/database.js';
 import { SimpleLogger } from '../utils/logger.js';
+import { NewsResourceProvider } from './resources.js';
+import { NewsPromptProvider } from './prompts.js';
+import { AnalyzerClient, CollectionControl, CoordinatorClient, RiskAlertSource } from './agent-client.js';
+import { RouteCatalog } from '../catalog/route-catalog.js';
+import { CollectorFactory } from '../../agents/collector-agent/collectors/collector-factory.js';
+import { NewsItem } from '../../shared/types/index.js';
+import config from '../config/index.js';
 
 // 定义工具 schemas
-const TestFunctionSchema = z.object({
-  message: z.string().describe('要测试的消息内容'),
+const HealthCheckSchema = z.object({});
+
+const SearchNewsSchema = z.object({
+  query: z.string().min(1).describe('搜索关键词，匹配标题和正文'),
+  source: z.string().optional().describe('限定新闻来源'),
+  start_date: z.string().datetime().optional().describe('发布时间下限 (ISO 8601)'),
+  end_date: z.string().datetime().optional().describe('发布时间上限 (ISO 8601)'),
+  limit: z.number().int().min(1).max(100).default(20).describe('返回条数'),
 });
 
-const HealthCheckSchema = z.object({});
+const GetNewsByIdSchema = z.object({
+  id: z.string().min(1).describe('新闻ID'),
+});
+
+const GetRecentNewsSchema = z.object({
+  source: z.string().optional().describe('限定新闻来源'),
+  limit: z.number().int().min(1).max(100).default(10).describe('返回条数'),
+});
 
-const GenerateTestDataSchema = z.object({
-  count: z.number().min(1).max(100).optional().describe('生成测试数据的数量'),
+const ListSourcesSchema = z.object({});
+
+const GetNewsStatsSchema = z.object({
+  start_date: z.string().datetime().optional().describe('统计起始时间 (ISO 8601)'),
+  end_date: z.string().datetime().optional().describe('统计结束时间 (ISO 8601)'),
+});
+
+const CollectNowSchema = z.object({
+  source: z.string().optional().describe('采集源ID或名称，不填则采集全部已启用的源'),
+});
+
+const AddSourceSchema = z.object({
+  type: z.string().min(1).describe('采集器类型，例如 rss、web、api、sitemap、jsonfeed、ndjson、file、mailbox'),
+  name: z.string().min(1).describe('采集源名称'),
+  schedule: z.string().optional().describe('cron 表达式'),
+  priority: z.number().int().min(1).optional().describe('优先级'),
+  config: z.record(z.any()).describe('采集器配置，例如 RSS 源的 url、max_items'),
+});
+
+const GetCollectionStatusSchema = z.object({});
+
+const ImpactLevelSchema = z.enum(['high', 'medium', 'low']);
+const CatalogNameSchema = z.enum(['realtime', 'ashare']);
+
+const ListRouteCatalogSchema = z.object({
+  catalog: CatalogNameSchema.optional().describe('路由目录：realtime 或 ashare'),
+  category: z.string().optional().describe('路由分类，例如 regulatory_authorities'),
+  impact_level: ImpactLevelSchema.optional().describe('影响等级'),
+  source: z.string().optional().describe('来源名称关键词'),
+  categories_only: z.boolean().default(false).describe('只返回分类汇总'),
+});
+
+const EnableCatalogRoutesSchema = z.object({
+  catalog: CatalogNameSchema.optional(),
+  category: z.string().optional(),
+  impact_level: ImpactLevelSchema.optional(),
+  route_ids: z.array(z.string()).optional(),
+  params: z.record(z.record(z.string())).optional(),
+  max_items: z.number().int().min(1).max(200).optional(),
+}).refine(args => args.category || args.catalog || (args.route_ids && args.route_ids.length > 0), {
+  message: 'catalog, category or route_ids is required',
 });
 
 export class MCPServer {
-  private server: Server;
   private testModule: TestModule;
+  private newsRepository: NewsRepository;
+  private resourceProvider: NewsResourceProvider;
+  private promptProvider: NewsPromptProvider;
+  private collectionControl: CollectionControl;
+  private routeCatalog: RouteCatalog;
+  private collectorFactory: CollectorFactory;
   private logger: SimpleLogger;
 
-  constructor() {
+  // collectorFactory 只用于校验 add_source 的配置；未配置本地根目录，因此远程调用无法添加读取本地文件的采集源
+  constructor(
+    newsRepository: NewsRepository,
+    riskAlertSource: RiskAlertSource = new AnalyzerClient(),
+    collectionControl: CollectionControl = new CoordinatorClient(),
+    routeCatalog: RouteCatalog = RouteCatalog.fromFiles(config.rsshubUrl),
+    collectorFactory: CollectorFactory = new CollectorFactory()
+  ) {
     this.logger = new SimpleLogger('MCPServer');
     this.testModule = new TestModule();
-    
-    this.server = new Server(
+    this.newsRepository = newsRepository;
+    this.resourceProvider = new NewsResourceProvider(newsRepository);
+    this.promptProvider = new NewsPromptProvider(newsRepository, riskAlertSource);
+    this.collectionControl = collectionControl;
+    this.routeCatalog = routeCatalog;
+    this.collectorFactory = collectorFactory;
+  }
+
+  /**
+   * 创建一个注册好全部处理器的协议实例。
+   * 每个传输连接需要独立的实例，stdio 和每个 HTTP 会话各自调用一次。
+   */
+  createServer(): Server {
+    const server = new Server(
       {
         name: 'ai-news-collector-mcp',
         version: '1.0.0',
@@ -37,36 +127,96 @@ export class MCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // 列出可用工具
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       this.logger.info('Listing available tools');
       
       const tools: Tool[] = [
         {
-          name: 'test_function',
-          description: '简单的测试函数，用于验证系统功能',
+          name: 'search_news',
+          description: '按关键词搜索已采集的新闻，可按来源和发布时间过滤',
           inputSchema: {
             type: 'object',
             properties: {
-              message: {
+              query: {
+                type: 'string',
+                description: '搜索关键词，匹配标题和正文',
+              },
+              source: {
                 type: 'string',
-                description: '要测试的消息内容',
+                description: '限定新闻来源',
+              },
+              start_date: {
+                type: 'string',
+                format: 'date-time',
+                description: '发布时间下限 (ISO 8601)',
+              },
+              end_date: {
+                type: 'string',
+                format: 'date-time',
+                description: '发布时间上限 (ISO 8601)',
+              },
+              limit: {
+                type: 'number',
+                minimum: 1,
+                maximum: 100,
+                description: '返回条数，默认20',
               },
             },
-            required: ['message'],
+            required: ['query'],
           },
         },
         {
-          name: 'health_check',
-          description: '检查系统健康状态',
+          name: 'get_news_by_id',
+          description: '根据ID获取单条新闻的完整内容',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: '新闻ID',
+              },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'get_recent_news',
+          description: '获取最新发布的新闻，可限定来源',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source: {
+                type: 'string',
+                description: '限定新闻来源',
+              },
+              limit: {
+                type: 'number',
+                minimum: 1,
+                maximum: 100,
+                description: '返回条数，默认10',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'list_sources',
+          description: '列出所有新闻来源及其新闻数量和最近更新时间',
           inputSchema: {
             type: 'object',
             properties: {},
@@ -74,69 +224,269 @@ export class MCPServer {
           },
         },
         {
-          name: 'generate_test_data',
-          description: '生成测试数据用于开发验证',
+          name: 'get_news_stats',
+          description: '获取新闻统计信息，包括总数、按来源和按日期分布',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              start_date: {
+                type: 'string',
+                format: 'date-time',
+                description: '统计起始时间 (ISO 8601)',
+              },
+              end_date: {
+                type: 'string',
+                format: 'date-time',
+                description: '统计结束时间 (ISO 8601)',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'collect_now',
+          description: '立即触发采集并将结果写入新闻库，通过进度通知汇报每个源的完成情况',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source: {
+                type: 'string',
+                description: '采集源ID或名称，不填则采集全部已启用的源',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'add_source',
+          description: '向采集代理添加新的采集源',
           inputSchema: {
             type: 'object',
             properties: {
-              count: {
+              type: {
+                type: 'string',
+                description: '采集器类型，例如 rss、web、api、sitemap、jsonfeed、ndjson、file、mailbox',
+              },
+              name: {
+                type: 'string',
+                description: '采集源名称',
+              },
+              schedule: {
+                type: 'string',
+                description: 'cron 表达式',
+              },
+              priority: {
                 type: 'number',
                 minimum: 1,
-                maximum: 100,
-                description: '生成测试数据的数量',
+                description: '优先级',
+              },
+              config: {
+                type: 'object',
+                description: '采集器配置，例如 RSS 源的 url、max_items',
+              },
+            },
+            required: ['type', 'name', 'config'],
+          },
+        },
+        {
+          name: 'get_collection_status',
+          description: '查看各采集源的启用状态、上次运行时间和采集统计',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: [],
+          },
+        },
+        {
+          name: 'list_route_catalog',
+          description: '浏览 RSSHub 路由目录（实时路由与A股市场路由），包括分类、影响等级和轮询频率',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              catalog: {
+                type: 'string',
+                enum: ['realtime', 'ashare'],
+                description: '路由目录',
+              },
+              category: {
+                type: 'string',
+                description: '路由分类，例如 regulatory_authorities',
+              },
+              impact_level: {
+                type: 'string',
+                enum: ['high', 'medium', 'low'],
+                description: '影响等级',
+              },
+              source: {
+                type: 'string',
+                description: '来源名称关键词',
+              },
+              categories_only: {
+                type: 'boolean',
+                default: false,
+                description: '只返回分类汇总',
               },
             },
             required: [],
           },
         },
+        {
+          name: 'enable_catalog_routes',
+          description: '按目录、分类或路由ID批量启用 RSSHub 路由为采集源，带必填参数的路由需通过 params 提供参数',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              catalog: {
+                type: 'string',
+                enum: ['realtime', 'ashare'],
+                description: '路由目录',
+              },
+              category: {
+                type: 'string',
+                description: '启用该分类下的全部路由',
+              },
+              impact_level: {
+                type: 'string',
+                enum: ['high', 'medium', 'low'],
+                description: '只启用该影响等级的路由',
+              },
+              route_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: '指定路由ID，优先于分类筛选',
+              },
+              params: {
+                type: 'object',
+                description: '按路由ID提供的路由参数，例如 {"ashare:stock_exchanges:/sse/disclosure/:query?": {"query": "600519"}}',
+              },
+              max_items: {
+                type: 'number',
+                minimum: 1,
+                maximum: 200,
+                description: '每次采集的最大条目数',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'health_check',
+          description: '检查系统健康状态',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: [],
+          },
+        },
       ];
 
       return { tools };
     });
 
     // 处理工具调用
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       this.logger.info('Tool called', { name, args });
 
       try {
         switch (name) {
-          case 'test_function':
-            const testArgs = TestFunctionSchema.parse(args);
-            const testResult = await this.testModule.testFunction(testArgs.message);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: testResult,
-                },
-              ],
-            };
-
-          case 'health_check':
-            HealthCheckSchema.parse(args);
+          case 'search_news': {
+            const searchArgs = SearchNewsSchema.parse(args ?? {});
+            const items = await this.newsRepository.searchNews(searchArgs.query, {
+              source: searchArgs.source,
+              start_date: searchArgs.start_date ? new Date(searchArgs.start_date) : undefined,
+              end_date: searchArgs.end_date ? new Date(searchArgs.end_date) : undefined,
+              limit: searchArgs.limit,
+            });
+            return this.jsonResult({ count: items.length, items });
+          }
+
+          case 'get_news_by_id': {
+            const idArgs = GetNewsByIdSchema.parse(args ?? {});
+            const item = await this.newsRepository.getNewsById(idArgs.id);
+            if (!item) {
+              throw new Error(`News not found: ${idArgs.id}`);
+            }
+            // 附带同一聚类中其他来源的报道
+            const related = await this.newsRepository.getRelatedNews(idArgs.id);
+            return this.jsonResult({
+              ...item,
+              related: related.map(news => ({ id: news.id, title: news.title, source: news.source, url: news.url })),
+            });
+          }
+
+          case 'get_recent_news': {
+            const recentArgs = GetRecentNewsSchema.parse(args ?? {});
+            const items = recentArgs.source
+              ? await this.newsRepository.getNewsBySource(recentArgs.source, recentArgs.limit)
+              : await this.newsRepository.getRecentNews(recentArgs.limit);
+            return this.jsonResult({ count: items.length, items });
+          }
+
+          case 'list_sources': {
+            ListSourcesSchema.parse(args ?? {});
+            const sources = await this.newsRepository.getSources();
+            return this.jsonResult({ count: sources.length, sources });
+          }
+
+          case 'get_news_stats': {
+            const statsArgs = GetNewsStatsSchema.parse(args ?? {});
+            const stats = await this.newsRepository.getStats(
+              statsArgs.start_date ? new Date(statsArgs.start_date) : undefined,
+              statsArgs.end_date ? new Date(statsArgs.end_date) : undefined
+            );
+            return this.jsonResult(stats);
+          }
+
+          case 'collect_now': {
+            const collectArgs = CollectNowSchema.parse(args ?? {});
+            const progressToken = request.params._meta?.progressToken;
+            const summary = await this.collectNow(collectArgs.source, async (progress, total) => {
+              if (progressToken !== undefined) {
+                await server.notification({
+                  method: 'notifications/progress',
+                  params: { progressToken, progress, total },
+                });
+              }
+            });
+            return this.jsonResult(summary);
+          }
+
+          case 'add_source': {
+            const sourceArgs = AddSourceSchema.parse(args ?? {});
+            this.validateSourceConfig(sourceArgs);
+            const result = await this.collectionControl.addSource(sourceArgs);
+            return this.jsonResult(result);
+          }
+
+          case 'get_collection_status': {
+            GetCollectionStatusSchema.parse(args ?? {});
+            const status = await this.collectionControl.getCollectionStatus();
+            return this.jsonResult({ count: status.length, sources: status });
+          }
+
+          case 'list_route_catalog': {
+            const catalogArgs = ListRouteCatalogSchema.parse(args ?? {});
+            const categories = this.routeCatalog.listCategories(catalogArgs.catalog);
+            if (catalogArgs.categories_only) {
+              return this.jsonResult({ count: categories.length, categories });
+            }
+            const routes = this.routeCatalog.listRoutes(catalogArgs);
+            return this.jsonResult({ count: routes.length, routes });
+          }
+
+          case 'enable_catalog_routes': {
+            const enableArgs = EnableCatalogRoutesSchema.parse(args ?? {});
+            const result = await this.routeCatalog.enableRoutes(enableArgs, this.collectionControl);
+            return this.jsonResult(result);
+          }
+
+          case 'health_check': {
+            HealthCheckSchema.parse(args ?? {});
             const healthResult = await this.testModule.healthCheck();
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(healthResult, null, 2),
-                },
-              ],
-            };
-
-          case 'generate_test_data':
-            const dataArgs = GenerateTestDataSchema.parse(args);
-            const testData = this.testModule.generateTestData(dataArgs.count);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(testData, null, 2),
-                },
-              ],
-            };
+            return this.jsonResult(healthResult);
+          }
 
           default:
             throw new Error(`Unknown tool: ${name}`);
@@ -156,11 +506,127 @@ export class MCPServer {
     });
   }
 
+  private setupResourceHandlers(server: Server): void {
+    // 列出可读取的资源
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      this.logger.info('Listing available resources');
+      const resources = await this.resourceProvider.listResources();
+      return { resources };
+    });
+
+    // 列出资源模板
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.resourceProvider.listTemplates() };
+    });
+
+    // 读取资源
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const content = await this.resourceProvider.readResource(request.params.uri);
+      return { contents: [content] };
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    // 列出提示模板
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      this.logger.info('Listing available prompts');
+      return { prompts: this.promptProvider.listPrompts() };
+    });
+
+    // 根据模板和参数生成提示
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      return this.promptProvider.getPrompt(name, args);
+    });
+  }
+
+  // 转发前按采集器的 config_schema 校验；插件注册的类型只有采集代理知道，由采集代理校验
+  private validateSourceConfig(source: z.infer<typeof AddSourceSchema>): void {
+    if (!this.collectorFactory.getCollector(source.type)) {
+      return;
+    }
+
+    const validation = this.collectorFactory.validateConfig(source);
+    if (!validation.valid) {
+      throw new Error(`Invalid source config for ${source.type}: ${validation.errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * 逐个源执行采集并保存结果，每完成一个源回报一次进度
+   */
+  private async collectNow(
+    source: string | undefined,
+    onProgress: (progress: number, total: number) => Promise<void>
+  ) {
+    const sources: string[] = source
+      ? [source]
+      : (await this.collectionControl.getCollectionStatus())
+          .filter(status => status.enabled)
+          .map(status => status.source_id);
+
+    const results = [];
+    await onProgress(0, sources.length);
+
+    for (let i = 0; i < sources.length; i++) {
+      try {
+        const { result } = await this.collectionControl.startCollection(sources[i]);
+        const items = this.reviveNewsItems(result.news_items || []);
+        const clusters = items.length > 0 ? await this.newsRepository.saveBatch(items) : [];
+        results.push({
+          source_id: result.source_id,
+          collected_count: result.collected_count,
+          saved_count: items.length,
+          duplicate_count: clusters.filter(cluster => cluster.duplicate_of).length,
+          processing_time: result.processing_time,
+          error: result.error,
+        });
+      } catch (error) {
+        this.logger.error('Collection failed', error, { source: sources[i] });
+        results.push({
+          source_id: sources[i],
+          collected_count: 0,
+          saved_count: 0,
+          duplicate_count: 0,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      await onProgress(i + 1, sources.length);
+    }
+
+    return {
+      total_sources: sources.length,
+      total_saved: results.reduce((sum, result) => sum + result.saved_count, 0),
+      results,
+    };
+  }
+
+  // 经HTTP传输后日期字段变为字符串
+  private reviveNewsItems(items: any[]): NewsItem[] {
+    return items.map(item => ({
+      ...item,
+      publish_time: new Date(item.publish_time),
+      collected_at: new Date(item.collected_at),
+    }));
+  }
+
+  private jsonResult(data: unknown) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
   async run(): Promise<void> {
     this.logger.info('Starting MCP server');
     
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     
     this.logger.info('MCP server started successfully');
   }
@@ -168,7 +634,7 @@ export class MCPServer {
 
 // 启动服务器
 async function main() {
-  const server = new MCPServer();
+  const server = new MCPServer(new NewsRepository(openDatabase(config.database)));
   await server.run().catch((error) => {
     console.error('Failed to start MCP server:', error);
     process.exit(1);
@@ -0,0 +1,19 @@
+// 数据库连接
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseConfig } from '../types';
+
+export function openDatabase(dbConfig: DatabaseConfig): Database.Database {
+  if (dbConfig.type !== 'sqlite') {
+    throw new Error(`Unsupported database type: ${dbConfig.type}`);
+  }
+
+  const dbPath = dbConfig.path || './data/news.db';
+  fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+
+  return db;
+}
@@ -0,0 +1,227 @@
+// 跨来源新闻去重：同一事件的多篇报道归入同一聚类，而不是丢弃
+import { NewsItem } from '../../shared/types';
+import { LoggerUtils, NewsIdentityUtils } from '../../shared/utils';
+
+export type DuplicateMatchReason = 'url' | 'title' | 'simhash';
+
+export interface DedupOptions {
+  window_hours: number; // 只与该时间窗口内的新闻比较
+  title_threshold: number; // 标题相似度阈值 (0-1)
+  cross_source_title_threshold: number; // 不同来源、不同站点之间的标题相似度阈值，应高于 title_threshold
+  cross_source_min_title_length: number; // 跨来源比较标题时，规范化后标题的最小长度
+  cross_source_hours: number; // 跨来源按标题匹配时，发布时间的最大间隔
+  simhash_distance: number; // 正文 SimHash 最大汉明距离
+  min_content_length: number; // 正文过短时不做 SimHash 比较
+  max_candidates: number;
+}
+
+export interface NewsClusterInfo {
+  cluster_id: string;
+  duplicate_of?: string;
+  match_reason?: DuplicateMatchReason;
+}
+
+interface FingerprintRow {
+  news_id: string;
+  cluster_id: string;
+  source: string;
+  canonical_url: string;
+  title_key: string;
+  title: string;
+  simhash: string | null;
+  publish_time: string;
+  duplicate_of: string | null;
+  match_reason: DuplicateMatchReason | null;
+}
+
+const DEFAULT_OPTIONS: DedupOptions = {
+  window_hours: 72,
+  title_threshold: 0.85,
+  cross_source_title_threshold: 0.9,
+  cross_source_min_title_length: 8,
+  cross_source_hours: 12,
+  simhash_distance: 6,
+  min_content_length: 120,
+  max_candidates: 2000
+};
+
+export class NewsDeduplicator {
+  private db: any;
+  private options: DedupOptions;
+  private logger = LoggerUtils;
+
+  constructor(db: any, options: Partial<DedupOptions> = {}) {
+    this.db = db;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  initialize(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS news_fingerprints (
+        news_id TEXT PRIMARY KEY,
+        cluster_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        canonical_url TEXT NOT NULL,
+        title_key TEXT NOT NULL,
+        title TEXT NOT NULL,
+        simhash TEXT,
+        publish_time DATETIME NOT NULL,
+        duplicate_of TEXT,
+        match_reason TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_fingerprints_cluster ON news_fingerprints(cluster_id);
+      CREATE INDEX IF NOT EXISTS idx_fingerprints_url ON news_fingerprints(canonical_url);
+      CREATE INDEX IF NOT EXISTS idx_fingerprints_publish_time ON news_fingerprints(publish_time);
+    `);
+  }
+
+  // 为新闻分配聚类并记录指纹，需在保存新闻的同一事务中调用
+  assignCluster(item: NewsItem): NewsClusterInfo {
+    const existing: FingerprintRow | undefined = this.db
+      .prepare('SELECT * FROM news_fingerprints WHERE news_id = ?')
+      .get(item.id);
+
+    // 重复采集同一条新闻时保留原有聚类
+    if (existing) {
+      return this.toClusterInfo(existing);
+    }
+
+    const canonicalUrl = NewsIdentityUtils.canonicalizeUrl(item.url);
+    const titleKey = NewsIdentityUtils.normalizeTitle(item.title);
+    const simhash = item.content.length >= this.options.min_content_length
+      ? NewsIdentityUtils.simhash(item.content)
+      : null;
+
+    const match = this.findMatch(item, canonicalUrl, titleKey, simhash);
+    const row: FingerprintRow = {
+      news_id: item.id,
+      cluster_id: match ? match.row.cluster_id : item.id,
+      source: item.source,
+      canonical_url: canonicalUrl,
+      title_key: titleKey,
+      title: item.title,
+      simhash,
+      publish_time: item.publish_time.toISOString(),
+      duplicate_of: match ? match.row.news_id : null,
+      match_reason: match ? match.reason : null
+    };
+
+    this.db.prepare(`
+      INSERT INTO news_fingerprints (
+        news_id, cluster_id, source, canonical_url, title_key, title, simhash, publish_time, duplicate_of, match_reason
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      row.news_id, row.cluster_id, row.source, row.canonical_url, row.title_key,
+      row.title, row.simhash, row.publish_time, row.duplicate_of, row.match_reason
+    );
+
+    if (match) {
+      this.logger.debug('Duplicate news linked to cluster', {
+        news_id: item.id,
+        cluster_id: row.cluster_id,
+        duplicate_of: row.duplicate_of,
+        match_reason: match.reason
+      });
+    }
+
+    return this.toClusterInfo(row);
+  }
+
+  getCluster(newsId: string): NewsClusterInfo | null {
+    const row: FingerprintRow | undefined = this.db
+      .prepare('SELECT * FROM news_fingerprints WHERE news_id = ?')
+      .get(newsId);
+    return row ? this.toClusterInfo(row) : null;
+  }
+
+  getClusterMemberIds(clusterId: string): string[] {
+    return this.db
+      .prepare('SELECT news_id FROM news_fingerprints WHERE cluster_id = ? ORDER BY publish_time ASC')
+      .all(clusterId)
+      .map((row: { news_id: string }) => row.news_id);
+  }
+
+  removeNews(newsId: string): void {
+    this.db.prepare('DELETE FROM news_fingerprints WHERE news_id = ?').run(newsId);
+  }
+
+  // 依次比较：规范化URL、标题相似度、正文 SimHash
+  private findMatch(
+    item: NewsItem,
+    canonicalUrl: string,
+    titleKey: string,
+    simhash: string | null
+  ): { row: FingerprintRow; reason: DuplicateMatchReason } | null {
+    const urlMatch: FingerprintRow | undefined = this.db
+      .prepare('SELECT * FROM news_fingerprints WHERE canonical_url = ? ORDER BY publish_time ASC LIMIT 1')
+      .get(canonicalUrl);
+    if (urlMatch) {
+      return { row: urlMatch, reason: 'url' };
+    }
+
+    const windowMs = this.options.window_hours * 3600000;
+    const candidates: FingerprintRow[] = this.db.prepare(`
+      SELECT * FROM news_fingerprints
+      WHERE publish_time BETWEEN ? AND ?
+      ORDER BY publish_time DESC
+      LIMIT ?
+    `).all(
+      new Date(item.publish_time.getTime() - windowMs).toISOString(),
+      new Date(item.publish_time.getTime() + windowMs).toISOString(),
+      this.options.max_candidates
+    );
+
+    if (titleKey) {
+      const host = this.hostOf(canonicalUrl);
+      const titleMatch = candidates.find(candidate =>
+        candidate.source === item.source || this.hostOf(candidate.canonical_url) === host
+          ? this.titlesMatch(item, titleKey, candidate, this.options.title_threshold)
+          : this.crossSourceTitlesMatch(item, titleKey, candidate)
+      );
+      if (titleMatch) {
+        return { row: titleMatch, reason: 'title' };
+      }
+    }
+
+    if (simhash) {
+      const simhashMatch = candidates.find(candidate =>
+        candidate.simhash !== null &&
+        NewsIdentityUtils.hammingDistance(simhash, candidate.simhash) <= this.options.simhash_distance
+      );
+      if (simhashMatch) {
+        return { row: simhashMatch, reason: 'simhash' };
+      }
+    }
+
+    return null;
+  }
+
+  private titlesMatch(item: NewsItem, titleKey: string, candidate: FingerprintRow, threshold: number): boolean {
+    return candidate.title_key === titleKey ||
+      NewsIdentityUtils.titleSimilarity(item.title, candidate.title) >= threshold;
+  }
+
+  // 不同来源的相同标题不一定是同一事件（如“午间收评”“关于召开临时股东大会的通知”），
+  // 要求标题足够长、相似度更高，且发布时间接近
+  private crossSourceTitlesMatch(item: NewsItem, titleKey: string, candidate: FingerprintRow): boolean {
+    if (titleKey.length < this.options.cross_source_min_title_length) {
+      return false;
+    }
+    const gapMs = Math.abs(item.publish_time.getTime() - new Date(candidate.publish_time).getTime());
+    return gapMs <= this.options.cross_source_hours * 3600000 &&
+      this.titlesMatch(item, titleKey, candidate, this.options.cross_source_title_threshold);
+  }
+
+  // 规范化URL以主机名开头
+  private hostOf(canonicalUrl: string): string {
+    return canonicalUrl.split(/[/?]/)[0];
+  }
+
+  private toClusterInfo(row: FingerprintRow): NewsClusterInfo {
+    return {
+      cluster_id: row.cluster_id,
+      duplicate_of: row.duplicate_of || undefined,
+      match_reason: row.match_reason || undefined
+    };
+  }
+}
@@ -1,6 +1,7 @@
 // 新闻仓库
-import { NewsItem, ProcessedNews } from '../../shared/types';
-import { LoggerUtils } from '../../shared/utils';
+import { NewsItem } from '../../../shared/types';
+import { LoggerUtils } from '../../../shared/utils';
+import { NewsClusterInfo, NewsDeduplicator } from '../news-deduplicator';
 
 export interface NewsFilter {
   source?: string;
@@ -23,14 +24,23 @@ export interface NewsStats {
   top_entities: Array<{ entity: string; count: number }>;
 }
 
+export interface NewsSourceSummary {
+  source: string;
+  news_count: number;
+  latest_publish_time: Date | null;
+  last_collected_at: Date | null;
+}
+
 export class NewsRepository {
   private db: any; // 这里应该是数据库连接
   private logger = LoggerUtils;
   private cache: Map<string, NewsItem[]> = new Map();
   private cacheTimeout: number = 300000; // 5分钟缓存
+  private deduplicator: NewsDeduplicator;
 
-  constructor(db: any) {
+  constructor(db: any, deduplicator?: NewsDeduplicator) {
     this.db = db;
+    this.deduplicator = deduplicator || new NewsDeduplicator(db);
     this.initializeDatabase();
   }
 
@@ -58,6 +68,9 @@ export class NewsRepository {
         CREATE INDEX IF NOT EXISTS idx_news_collected_at ON news(collected_at);
       `);
 
+      // 去重指纹表
+      this.deduplicator.initialize();
+
       this.logger.info('News repository initialized');
     } catch (error) {
       this.logger.error('Failed to initialize news repository', { error });
@@ -66,7 +79,7 @@ export class NewsRepository {
   }
 
   // 保存新闻
-  async save(newsItem: NewsItem): Promise<void> {
+  async save(newsItem: NewsItem): Promise<NewsClusterInfo> {
     try {
       const stmt = this.db.prepare(`
         INSERT OR REPLACE INTO news (
@@ -74,27 +87,20 @@ export class NewsRepository {
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
-      stmt.run(
-        newsItem.id,
-        newsItem.title,
-        newsItem.content,
-        newsItem.url,
-        newsItem.source,
-        newsItem.publish_time.toISOString(),
-        newsItem.collected_at.toISOString(),
-        JSON.stringify(newsItem.raw_data)
-      );
+      const insertOne = this.db.transaction((item: NewsItem) => this.insertWithCluster(stmt, item));
+      const cluster: NewsClusterInfo = insertOne(newsItem);
 
       this.clearCache();
-      this.logger.debug('News item saved', { news_id: newsItem.id });
+      this.logger.debug('News item saved', { news_id: newsItem.id, cluster_id: cluster.cluster_id });
+      return cluster;
     } catch (error) {
       this.logger.error('Failed to save news item', { news_id: newsItem.id, error });
       throw error;
     }
   }
 
-  // 批量保存新闻
-  async saveBatch(newsItems: NewsItem[]): Promise<void> {
+  // 批量保存新闻，返回每条新闻的聚类信息
+  async saveBatch(newsItems: NewsItem[]): Promise<NewsClusterInfo[]> {
     try {
       const stmt = this.db.prepare(`
         INSERT OR REPLACE INTO news (
@@ -102,30 +108,41 @@ export class NewsRepository {
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
-      const insertMany = this.db.transaction((items: NewsItem[]) => {
-        for (const item of items) {
-          stmt.run(
-            item.id,
-            item.title,
-            item.content,
-            item.url,
-            item.source,
-            item.publish_time.toISOString(),
-            item.collected_at.toISOString(),
-            JSON.stringify(item.raw_data)
-          );
-        }
-      });
+      const insertMany = this.db.transaction((items: NewsItem[]) =>
+        items.map(item => this.insertWithCluster(stmt, item))
+      );
 
-      insertMany(newsItems);
+      const clusters: NewsClusterInfo[] = insertMany(newsItems);
       this.clearCache();
-      this.logger.info('Batch news items saved', { count: newsItems.length });
+      this.logger.info('Batch news items saved', {
+        count: newsItems.length,
+        duplicates: clusters.filter(cluster => cluster.duplicate_of).length
+      });
+      return clusters;
     } catch (error) {
       this.logger.error('Failed to save batch news items', { error });
       throw error;
     }
   }
 
+  // 分配聚类后写入，聚类信息同时记录在 raw_data.cluster 中
+  private insertWithCluster(stmt: any, item: NewsItem): NewsClusterInfo {
+    const cluster = this.deduplicator.assignCluster(item);
+
+    stmt.run(
+      item.id,
+      item.title,
+      item.content,
+      item.url,
+      item.source,
+      item.publish_time.toISOString(),
+      item.collected_at.toISOString(),
+      JSON.stringify({ ...item.raw_data, cluster })
+    );
+
+    return cluster;
+  }
+
   // 获取新闻
   async getNews(filter?: NewsFilter): Promise<NewsItem[]> {
     const cacheKey = this.generateCacheKey(filter);
@@ -133,7 +150,7 @@ export class NewsRepository {
     // 检查缓存
     if (this.cache.has(cacheKey)) {
       const cached = this.cache.get(cacheKey)!;
-      if (Date.now() - cached[0].collected_at.getTime() < this.cacheTimeout) {
+      if (cached.length > 0 && Date.now() - cached[0].collected_at.getTime() < this.cacheTimeout) {
         return cached;
       }
     }
@@ -157,11 +174,13 @@ export class NewsRepository {
           query += ' AND publish_time <= ?';
           params.push(filter.end_date.toISOString());
         }
+      }
 
-        if (filter.limit) {
-          query += ' LIMIT ?';
-          params.push(filter.limit);
-        }
+      query += ' ORDER BY publish_time DESC';
+
+      if (filter?.limit) {
+        query += ' LIMIT ?';
+        params.push(filter.limit);
 
         if (filter.offset) {
           query += ' OFFSET ?';
@@ -169,8 +188,6 @@ export class NewsRepository {
         }
       }
 
-      query += ' ORDER BY publish_time DESC';
-
       const rows = this.db.prepare(query).all(...params);
       const newsItems: NewsItem[] = rows.map((row: any) => ({
         id: row.id,
@@ -222,6 +239,7 @@ export class NewsRepository {
   async deleteNews(id: string): Promise<boolean> {
     try {
       const result = this.db.prepare('DELETE FROM news WHERE id = ?').run(id);
+      this.deduplicator.removeNews(id);
       this.clearCache();
       
       if (result.changes > 0) {
@@ -294,7 +312,7 @@ export class NewsRepository {
   async searchNews(query: string, filter?: NewsFilter): Promise<NewsItem[]> {
     try {
       let sqlQuery = 'SELECT * FROM news WHERE (title LIKE ? OR content LIKE ?)';
-      const params = [`%${query}%`, `%${query}%`];
+      const params: any[] = [`%${query}%`, `%${query}%`];
 
       if (filter) {
         if (filter.source) {
@@ -338,6 +356,28 @@ export class NewsRepository {
     }
   }
 
+  // 获取来源列表
+  async getSources(): Promise<NewsSourceSummary[]> {
+    try {
+      const rows = this.db.prepare(`
+        SELECT source, COUNT(*) as count, MAX(publish_time) as latest_publish_time, MAX(collected_at) as last_collected_at
+        FROM news
+        GROUP BY source
+        ORDER BY count DESC
+      `).all();
+
+      return rows.map((row: any) => ({
+        source: row.source,
+        news_count: row.count,
+        latest_publish_time: row.latest_publish_time ? new Date(row.latest_publish_time) : null,
+        last_collected_at: row.last_collected_at ? new Date(row.last_collected_at) : null
+      }));
+    } catch (error) {
+      this.logger.error('Failed to get news sources', { error });
+      throw error;
+    }
+  }
+
   // 清理旧新闻
   async cleanup(olderThanDays: number = 30): Promise<number> {
     try {
@@ -347,6 +387,9 @@ export class NewsRepository {
       const result = this.db.prepare(
         'DELETE FROM news WHERE publish_time < ?'
       ).run(cutoffDate.toISOString());
+      this.db.prepare(
+        'DELETE FROM news_fingerprints WHERE news_id NOT IN (SELECT id FROM news)'
+      ).run();
 
       this.clearCache();
       
@@ -362,6 +405,32 @@ export class NewsRepository {
     }
   }
 
+  // 获取同一聚类中的其他报道
+  async getRelatedNews(id: string): Promise<NewsItem[]> {
+    try {
+      const cluster = this.deduplicator.getCluster(id);
+      if (!cluster) {
+        return [];
+      }
+
+      const related: NewsItem[] = [];
+      for (const memberId of this.deduplicator.getClusterMemberIds(cluster.cluster_id)) {
+        if (memberId === id) {
+          continue;
+        }
+        const item = await this.getNewsById(memberId);
+        if (item) {
+          related.push(item);
+        }
+      }
+
+      return related;
+    } catch (error) {
+      this.logger.error('Failed to get related news', { news_id: id, error });
+      throw error;
+    }
+  }
+
   // 获取最近的新闻
   async getRecentNews(limit: number = 10): Promise<NewsItem[]> {
     return this.getNews({ limit });
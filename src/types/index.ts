@@ -10,6 +10,7 @@ export interface SystemConfig {
   openaiApiKey?: string;
   logging: LoggingConfig;
   security: SecurityConfig;
+  mcp: MCPConfig;
 }
 
 export interface RedisConfig {
@@ -44,6 +45,12 @@ export interface SecurityConfig {
   corsOrigin: string;
 }
 
+export interface MCPConfig {
+  httpEnabled: boolean;
+  sessionTimeout: number;
+  maxSessions: number;
+}
+
 // 新闻相关类型
 export interface NewsItem {
   id: string;
@@ -88,6 +95,13 @@ export interface MCPResource {
   mimeType: string;
 }
 
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
 // API响应类型
 export interface ApiResponse<T = any> {
   code: number;
@@ -0,0 +1,73 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CommunicationProtocol } from '../shared/communication';
+import { AGENT_PORTS } from '../shared/config';
+import { AnalyzerClient } from '../src/mcp/agent-client';
+
+describe('CommunicationProtocol query', () => {
+  const originalPort = AGENT_PORTS.analyzer;
+  const protocol = new CommunicationProtocol('analyzer-agent', 0);
+  let server: http.Server;
+
+  beforeAll(async () => {
+    protocol.registerQueryHandler('get_risk_alerts', async (data) => ({
+      alerts: [{
+        id: 'alert_1',
+        news_id: 'rss_abc',
+        risk_type: 'regulatory',
+        severity: 'high',
+        description: '收到监管问询函',
+        confidence: 0.9,
+        related_entities: data.entity ? [data.entity] : [],
+        created_at: '2025-08-03T12:10:00.000Z',
+      }],
+      total: 1,
+    }));
+    protocol.registerQueryHandler('get_stats', async () => {
+      throw new Error('Stats are being rebuilt');
+    });
+
+    server = protocol.start();
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    // 查询按代理名称解析端口，指向测试服务
+    AGENT_PORTS.analyzer = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    AGENT_PORTS.analyzer = originalPort;
+    protocol.stop();
+  });
+
+  it('should return the handler result', async () => {
+    const alerts = await new AnalyzerClient(2000).getRiskAlerts({ entity: '600519', since: new Date('2025-08-01T00:00:00Z') });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].related_entities).toEqual(['600519']);
+    expect(alerts[0].created_at).toEqual(new Date('2025-08-03T12:10:00.000Z'));
+  });
+
+  it('should answer 404 for actions without a query handler', async () => {
+    const response = await fetch(`http://localhost:${AGENT_PORTS.analyzer}/query`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'analyze_trends', data: {} }),
+    });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'No query handler for action: analyze_trends' });
+    await expect(CommunicationProtocol.query('analyzer', 'analyze_trends', {}, 2000))
+      .rejects.toThrow('No query handler for action: analyze_trends');
+  });
+
+  it('should surface handler errors to the caller', async () => {
+    const response = await fetch(`http://localhost:${AGENT_PORTS.analyzer}/query`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'get_stats' }),
+    });
+
+    expect(response.status).toBe(500);
+    await expect(CommunicationProtocol.query('analyzer', 'get_stats', {}, 2000)).rejects.toThrow('Stats are being rebuilt');
+    await expect(CommunicationProtocol.query('unknown', 'get_stats', {})).rejects.toThrow('Unknown target agent: unknown');
+  });
+});
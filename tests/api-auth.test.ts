@@ -0,0 +1,202 @@
+import { createHmac } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { canonicalQuery } from '../agents/collector-agent/collectors/api-auth';
+import { APICollector } from '../agents/collector-agent/collectors/api-collector';
+
+const CLIENT_ID = 'collector';
+const CLIENT_SECRET = 's3cret';
+const HMAC_KEY = 'app-001';
+const HMAC_SECRET = 'hmac-secret';
+
+// 本地模拟的授权服务与数据接口
+class MockAuthServer {
+  tokenRequests: Array<Record<string, string>> = [];
+  validTokens: Set<string> = new Set();
+  expiresIn = 7200;
+  private server: http.Server;
+  private issued = 0;
+
+  constructor() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  revokeAll(): void {
+    this.validTokens.clear();
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', this.baseUrl);
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (url.pathname === '/oauth/token') {
+        this.issueToken(req, body, res);
+      } else if (url.pathname === '/api/news') {
+        const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+        if (!this.validTokens.has(token)) {
+          this.send(res, 401, { error: 'invalid_token' });
+          return;
+        }
+        this.send(res, 200, { data: [{ id: 1, title: '沪深交易所发布公告', url: 'https://api.example.com/news/1' }] });
+      } else if (url.pathname === '/api/signed') {
+        this.verifySignature(url, res);
+      } else {
+        this.send(res, 404, { error: 'not_found' });
+      }
+    });
+  }
+
+  private issueToken(req: http.IncomingMessage, body: string, res: http.ServerResponse): void {
+    const form = Object.fromEntries(new URLSearchParams(body));
+    const basic = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64');
+    const clientOk = req.headers.authorization === `Basic ${basic}`
+      || (form.client_id === CLIENT_ID && form.client_secret === CLIENT_SECRET);
+    this.tokenRequests.push(form);
+
+    if (!clientOk) {
+      this.send(res, 401, { error: 'invalid_client' });
+      return;
+    }
+    if (form.grant_type === 'refresh_token' && form.refresh_token !== 'refresh-1') {
+      this.send(res, 400, { error: 'invalid_grant' });
+      return;
+    }
+
+    const token = `token-${++this.issued}`;
+    this.validTokens.add(token);
+    this.send(res, 200, { access_token: token, token_type: 'bearer', expires_in: this.expiresIn, refresh_token: 'refresh-1' });
+  }
+
+  private verifySignature(url: URL, res: http.ServerResponse): void {
+    const params = Object.fromEntries(url.searchParams);
+    const { sign, ...rest } = params;
+    const expected = createHmac('sha256', HMAC_SECRET).update(canonicalQuery(rest)).digest('hex');
+    const fresh = Math.abs(Date.now() / 1000 - Number(params.timestamp)) < 300;
+
+    if (params.app_key !== HMAC_KEY || sign !== expected || !fresh || !params.nonce) {
+      this.send(res, 403, { error: 'bad_signature' });
+      return;
+    }
+    this.send(res, 200, { data: { list: [{ id: 9, title: '签名接口新闻', url: 'https://api.example.com/news/9' }] } });
+  }
+
+  private send(res: http.ServerResponse, status: number, payload: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(payload));
+  }
+}
+
+describe('APICollector auth', () => {
+  let server: MockAuthServer;
+
+  beforeEach(async () => {
+    server = new MockAuthServer();
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  function oauthSource(extra: Record<string, any> = {}) {
+    return {
+      url: `${server.baseUrl}/api/news`,
+      name: 'OAuth API',
+      response_path: 'data',
+      auth: {
+        type: 'oauth2' as const,
+        token_url: `${server.baseUrl}/oauth/token`,
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+        scope: 'news.read',
+        ...extra
+      }
+    };
+  }
+
+  it('should fetch a client-credentials token once and reuse it', async () => {
+    const collector = new APICollector();
+
+    const first = await collector.collectFromSource(oauthSource());
+    const second = await collector.collectFromSource(oauthSource());
+
+    expect(first.error).toBeUndefined();
+    expect(first.items[0].title).toBe('沪深交易所发布公告');
+    expect(second.collected_count).toBe(1);
+    expect(server.tokenRequests).toEqual([{ grant_type: 'client_credentials', scope: 'news.read' }]);
+  });
+
+  it('should send client credentials in the form body when configured', async () => {
+    const result = await new APICollector().collectFromSource(oauthSource({ client_auth: 'body' }));
+
+    expect(result.error).toBeUndefined();
+    expect(server.tokenRequests[0]).toMatchObject({ client_id: CLIENT_ID, client_secret: CLIENT_SECRET });
+  });
+
+  it('should refresh the token and retry once on 401', async () => {
+    const collector = new APICollector();
+    await collector.collectFromSource(oauthSource());
+
+    server.revokeAll();
+    const result = await collector.collectFromSource(oauthSource());
+
+    expect(result.error).toBeUndefined();
+    expect(result.collected_count).toBe(1);
+    expect(server.tokenRequests.map(form => form.grant_type)).toEqual(['client_credentials', 'refresh_token']);
+  });
+
+  it('should request a new token when the cached one expires', async () => {
+    server.expiresIn = 1;
+    const collector = new APICollector();
+    await collector.collectFromSource(oauthSource());
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    await collector.collectFromSource(oauthSource());
+
+    expect(server.tokenRequests).toHaveLength(2);
+  });
+
+  it('should report token endpoint failures', async () => {
+    const result = await new APICollector().collectFromSource(oauthSource({ client_secret: 'wrong' }));
+
+    expect(result.collected_count).toBe(0);
+    expect(result.error).toMatch(/OAuth2 token request failed/);
+  });
+
+  it('should sign query strings with timestamp, nonce and HMAC', async () => {
+    const result = await new APICollector().collectFromSource({
+      url: `${server.baseUrl}/api/signed`,
+      name: 'Signed API',
+      params: { market: 'sh', symbols: '600000,600036' },
+      response_path: 'data.list',
+      auth: { type: 'hmac', apikey: HMAC_KEY, secret: HMAC_SECRET }
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.items[0].title).toBe('签名接口新闻');
+  });
+
+  it('should reject requests signed with the wrong secret', async () => {
+    const result = await new APICollector().collectFromSource({
+      url: `${server.baseUrl}/api/signed`,
+      name: 'Signed API',
+      response_path: 'data.list',
+      auth: { type: 'hmac', apikey: HMAC_KEY, secret: 'other' }
+    });
+
+    expect(result.error).toBe('HTTP 403: Forbidden');
+  });
+});
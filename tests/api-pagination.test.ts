@@ -0,0 +1,168 @@
+import axios from 'axios';
+import { APICollector } from '../agents/collector-agent/collectors/api-collector';
+
+jest.mock('axios');
+
+const mockedAxios = axios as unknown as jest.Mock;
+
+function newsPage(ids: number[], extra: Record<string, any> = {}) {
+  return {
+    data: ids.map(id => ({
+      id,
+      title: `新闻 ${id}`,
+      url: `https://api.example.com/news/${id}`,
+      publishedAt: `2025-08-04T${String(20 - id).padStart(2, '0')}:00:00+08:00`
+    })),
+    ...extra
+  };
+}
+
+function respond(data: any, headers: Record<string, string> = {}) {
+  return { status: 200, data, headers };
+}
+
+describe('APICollector pagination', () => {
+  beforeEach(() => {
+    mockedAxios.mockReset();
+  });
+
+  it('should follow page numbers until a short page', async () => {
+    mockedAxios
+      .mockResolvedValueOnce(respond(newsPage([1, 2])))
+      .mockResolvedValueOnce(respond(newsPage([3, 4])))
+      .mockResolvedValueOnce(respond(newsPage([5])));
+
+    const result = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/news',
+      name: 'Paged API',
+      params: { channel: 'finance' },
+      response_path: 'data',
+      pagination: { type: 'page', page_size: 2, size_param: 'limit' }
+    });
+
+    expect(result.items.map(item => item.title)).toEqual(['新闻 1', '新闻 2', '新闻 3', '新闻 4', '新闻 5']);
+    expect(result).toMatchObject({ pages_fetched: 3, stop_reason: 'last_page' });
+    expect(mockedAxios.mock.calls.map(([request]) => request.params)).toEqual([
+      { channel: 'finance', limit: 2, page: 1 },
+      { channel: 'finance', limit: 2, page: 2 },
+      { channel: 'finance', limit: 2, page: 3 }
+    ]);
+  });
+
+  it('should pass offsets in the POST body', async () => {
+    mockedAxios
+      .mockResolvedValueOnce(respond(newsPage([1, 2])))
+      .mockResolvedValueOnce(respond(newsPage([])));
+
+    const result = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/search',
+      name: 'Offset API',
+      method: 'POST',
+      data: { keyword: '降准' },
+      response_path: 'data',
+      pagination: { type: 'offset', param_location: 'body' }
+    });
+
+    expect(result.collected_count).toBe(2);
+    expect(mockedAxios.mock.calls.map(([request]) => request.data)).toEqual([
+      { keyword: '降准', offset: 0 },
+      { keyword: '降准', offset: 2 }
+    ]);
+  });
+
+  it('should follow cursors and next urls from the response body', async () => {
+    mockedAxios
+      .mockResolvedValueOnce(respond(newsPage([1], { meta: { next: 'abc' } })))
+      .mockResolvedValueOnce(respond(newsPage([2], { meta: { next: 'https://api.example.com/news?cursor=def' } })))
+      .mockResolvedValueOnce(respond(newsPage([3], { meta: { next: null } })));
+
+    const result = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/news',
+      name: 'Cursor API',
+      response_path: 'data',
+      pagination: { type: 'cursor', cursor_path: 'meta.next', cursor_param: 'after' }
+    });
+
+    expect(result.collected_count).toBe(3);
+    expect(mockedAxios.mock.calls[1][0]).toMatchObject({ url: 'https://api.example.com/news', params: { after: 'abc' } });
+    expect(mockedAxios.mock.calls[2][0]).toMatchObject({ url: 'https://api.example.com/news?cursor=def' });
+    expect(mockedAxios.mock.calls[2][0].params).toBeUndefined();
+  });
+
+  it('should follow the Link header and stop at max_pages', async () => {
+    mockedAxios
+      .mockResolvedValueOnce(respond(newsPage([1]), { link: '</news?page=2>; rel="next", </news?page=9>; rel="last"' }))
+      .mockResolvedValueOnce(respond(newsPage([2]), { link: '</news?page=3>; rel="next"' }));
+
+    const result = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/news',
+      name: 'Link API',
+      response_path: 'data',
+      pagination: { type: 'link_header', max_pages: 2 }
+    });
+
+    expect(result).toMatchObject({ collected_count: 2, pages_fetched: 2, stop_reason: 'max_pages' });
+    expect(mockedAxios.mock.calls[1][0].url).toBe('https://api.example.com/news?page=2');
+  });
+
+  it('should stop at items older than the last run', async () => {
+    // 新闻 n 的发布时间为北京时间 (20 - n):00
+    mockedAxios
+      .mockResolvedValueOnce(respond(newsPage([1, 2])))
+      .mockResolvedValueOnce(respond(newsPage([3, 4])))
+      .mockResolvedValueOnce(respond(newsPage([5, 6])));
+
+    const result = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/news',
+      name: 'Incremental API',
+      response_path: 'data',
+      pagination: { type: 'page', page_size: 2 }
+    }, { since: new Date('2025-08-04T16:30:00+08:00') });
+
+    expect(result.items.map(item => item.title)).toEqual(['新闻 1', '新闻 2', '新闻 3']);
+    expect(result).toMatchObject({ pages_fetched: 2, stop_reason: 'reached_last_run' });
+  });
+
+  it('should return earlier pages when a later page fails', async () => {
+    mockedAxios
+      .mockResolvedValueOnce(respond(newsPage([1, 2])))
+      .mockResolvedValueOnce(respond(newsPage([3, 4])))
+      .mockRejectedValueOnce(new Error('socket hang up'));
+
+    const result = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/news',
+      name: 'Flaky API',
+      response_path: 'data',
+      pagination: { type: 'page', page_size: 2 }
+    });
+
+    expect(result.items.map(item => item.title)).toEqual(['新闻 1', '新闻 2', '新闻 3', '新闻 4']);
+    expect(result).toMatchObject({ pages_fetched: 2, stop_reason: 'error', error: 'socket hang up' });
+  });
+
+  it('should not follow next links to another origin', async () => {
+    mockedAxios
+      .mockResolvedValueOnce(respond(newsPage([1], { meta: { next: 'https://evil.example.net/collect?cursor=def' } })))
+      .mockResolvedValueOnce(respond(newsPage([2]), { link: '<https://evil.example.net/news?page=2>; rel="next"' }));
+
+    const cursorResult = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/news',
+      name: 'Cursor API',
+      auth: { type: 'bearer', token: 'secret-token' },
+      response_path: 'data',
+      pagination: { type: 'cursor', cursor_path: 'meta.next' }
+    });
+    const linkResult = await new APICollector().collectFromSource({
+      url: 'https://api.example.com/news',
+      name: 'Link API',
+      auth: { type: 'bearer', token: 'secret-token' },
+      response_path: 'data',
+      pagination: { type: 'link_header' }
+    });
+
+    expect(cursorResult).toMatchObject({ collected_count: 1, pages_fetched: 1 });
+    expect(linkResult).toMatchObject({ collected_count: 1, pages_fetched: 1 });
+    expect(mockedAxios).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.mock.calls.map(([request]) => new URL(request.url).host)).toEqual(['api.example.com', 'api.example.com']);
+  });
+});
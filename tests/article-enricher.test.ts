@@ -0,0 +1,79 @@
+import { ArticleEnricher } from '../agents/collector-agent/collectors/article-enricher';
+import { ExtractedArticle } from '../agents/collector-agent/collectors/article-extractor';
+import { WebCollector } from '../agents/collector-agent/collectors/web-collector';
+import { NewsItem } from '../shared/types';
+
+function createItem(url: string, content = '摘要……'): NewsItem {
+  return {
+    id: `rss_${url}`,
+    title: `标题 ${url}`,
+    content,
+    url,
+    source: 'Test Feed',
+    publish_time: new Date('2025-08-04T00:30:00Z'),
+    collected_at: new Date(),
+    raw_data: { guid: url }
+  };
+}
+
+function createArticle(url: string): ExtractedArticle {
+  return { url, title: '原文标题', content: `原文正文 ${url}`.repeat(20), content_html: '', byline: '记者' };
+}
+
+describe('ArticleEnricher', () => {
+  it('should replace snippets with full text and keep the snippet in raw_data', async () => {
+    const webCollector = { extractArticle: jest.fn(async (url: string) => createArticle(url)) };
+    const enricher = new ArticleEnricher(webCollector as unknown as WebCollector);
+
+    const result = await enricher.enrich([createItem('https://a.example.com/1')], { name: 'Test Feed' });
+
+    expect(result.enriched_count).toBe(1);
+    expect(result.items[0].content).toBe(createArticle('https://a.example.com/1').content);
+    expect(result.items[0].raw_data).toMatchObject({
+      guid: 'https://a.example.com/1',
+      snippet: '摘要……',
+      author: '记者',
+      enrichment: { status: 'enriched', article_url: 'https://a.example.com/1' }
+    });
+  });
+
+  it('should limit concurrent requests per domain and cache results by url', async () => {
+    const active: Record<string, number> = {};
+    const peak: Record<string, number> = {};
+    const webCollector = {
+      extractArticle: jest.fn(async (url: string) => {
+        const host = new URL(url).hostname;
+        active[host] = (active[host] || 0) + 1;
+        peak[host] = Math.max(peak[host] || 0, active[host]);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        active[host]--;
+        return createArticle(url);
+      })
+    };
+    const enricher = new ArticleEnricher(webCollector as unknown as WebCollector, { max_per_domain: 2 });
+    const urls = [1, 2, 3, 4, 5].map(n => `https://a.example.com/${n}`).concat('https://b.example.com/1');
+
+    await enricher.enrich(urls.map(url => createItem(url)), { name: 'Test Feed' });
+    expect(peak['a.example.com']).toBe(2);
+    expect(webCollector.extractArticle).toHaveBeenCalledTimes(6);
+
+    await enricher.enrich([createItem('https://a.example.com/1')], { name: 'Test Feed' });
+    expect(webCollector.extractArticle).toHaveBeenCalledTimes(6);
+  });
+
+  it('should keep the original item when the page cannot be fetched or is long enough', async () => {
+    const webCollector = { extractArticle: jest.fn().mockRejectedValue(new Error('HTTP 404: Not Found')) };
+    const enricher = new ArticleEnricher(webCollector as unknown as WebCollector);
+
+    const result = await enricher.enrich(
+      [createItem('https://a.example.com/404'), createItem('https://a.example.com/long', '完整正文'.repeat(200))],
+      { name: 'Test Feed' }
+    );
+
+    expect(result.failed_count).toBe(1);
+    expect(result.items[0].content).toBe('摘要……');
+    expect(result.items[0].raw_data.enrichment).toEqual({ status: 'failed', error: 'HTTP 404: Not Found' });
+    expect(result.items[1].raw_data.enrichment).toBeUndefined();
+    expect(webCollector.extractArticle).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import axios from 'axios';
+import { ArticleExtractionError, extractArticle } from '../agents/collector-agent/collectors/article-extractor';
+import { WebCollector } from '../agents/collector-agent/collectors/web-collector';
+
+jest.mock('axios');
+
+const ARTICLE_URL = 'https://news.example.com/finance/1001.html?from=rss';
+
+function loadFixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'articles', name), 'utf-8');
+}
+
+describe('extractArticle', () => {
+  it('should extract the main body and metadata while stripping boilerplate', () => {
+    const article = extractArticle(loadFixture('news-article.html'), ARTICLE_URL);
+
+    expect(article.url).toBe('https://news.example.com/finance/2025/08/04/1001.html');
+    expect(article.title).toBe('央行宣布下调存款准备金率0.5个百分点');
+    expect(article.byline).toBe('张三, 李四');
+    expect(article.published).toEqual(new Date('2025-08-04T00:30:00Z'));
+    expect(article.modified).toEqual(new Date('2025-08-04T01:15:00Z'));
+    expect(article.lead_image).toBe('https://news.example.com/images/2025/08/rrr-cut.jpg');
+    expect(article.site_name).toBe('示例新闻网');
+    expect(article.language).toBe('zh-CN');
+
+    const paragraphs = article.content.split('\n\n');
+    expect(paragraphs[0]).toMatch(/^中国人民银行8月4日宣布/);
+    expect(paragraphs[paragraphs.length - 1]).toMatch(/^分析师指出/);
+    for (const boilerplate of ['首页', '相关阅读', '热门新闻', '网友评论', 'Copyright', 'analytics']) {
+      expect(article.content).not.toContain(boilerplate);
+    }
+  });
+
+  it('should fall back to meta tags and the first content image', () => {
+    const html = `
+      <html><head>
+        <title>Markets rally after rate decision | Example Times</title>
+        <meta name="author" content="Jane Doe">
+        <meta name="PubDate" content="2025年08月04日 10:00">
+      </head><body>
+        <div id="menu"><a href="/a">Home</a><a href="/b">World</a></div>
+        <div class="story-body">
+          <img data-src="//cdn.example.com/lead.jpg">
+          Stocks rose sharply on Monday, with the benchmark index closing at a record high.<br>
+          Investors welcomed the decision, which had been widely expected by analysts, economists and traders.
+        </div>
+      </body></html>`;
+
+    const article = extractArticle(html, 'https://example.com/markets/1');
+
+    expect(article.title).toBe('Markets rally after rate decision');
+    expect(article.byline).toBe('Jane Doe');
+    // 未带时区的中文日期按北京时间解释
+    expect(article.published).toEqual(new Date('2025-08-04T02:00:00Z'));
+    expect(article.published_confidence).toBe('inferred');
+    expect(article.lead_image).toBe('https://cdn.example.com/lead.jpg');
+    expect(article.content).toBe([
+      'Stocks rose sharply on Monday, with the benchmark index closing at a record high.',
+      'Investors welcomed the decision, which had been widely expected by analysts, economists and traders.'
+    ].join('\n'));
+  });
+
+  it('should reject pages without any content', () => {
+    expect(() => extractArticle('<html><body><nav><a href="/">Home</a></nav></body></html>', ARTICLE_URL))
+      .toThrow(ArticleExtractionError);
+  });
+});
+
+describe('WebCollector article mode', () => {
+  it('should collect a single article item from an article url', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, data: loadFixture('news-article.html'), headers: {} });
+
+    const result = await new WebCollector().collectFromSource({ url: ARTICLE_URL, name: '示例新闻网', mode: 'article' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      title: '央行宣布下调存款准备金率0.5个百分点',
+      url: 'https://news.example.com/finance/2025/08/04/1001.html',
+      publish_time: new Date('2025-08-04T00:30:00Z'),
+      raw_data: { extraction: 'article', author: '张三, 李四' }
+    });
+  });
+});
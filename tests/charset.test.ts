@@ -0,0 +1,61 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import axios from 'axios';
+import { decodeBody, detectCharset } from '../agents/collector-agent/collectors/charset';
+import { RSSCollector } from '../agents/collector-agent/collectors/rss-collector';
+import { WebCollector } from '../agents/collector-agent/collectors/web-collector';
+import { APICollector } from '../agents/collector-agent/collectors/api-collector';
+
+jest.mock('axios');
+
+function loadFixture(name: string): Buffer {
+  return readFileSync(join(__dirname, 'fixtures', 'charset', name));
+}
+
+describe('detectCharset', () => {
+  it('should prefer the Content-Type header, then the XML prolog and <meta charset>', () => {
+    expect(detectCharset(loadFixture('gbk-feed.xml'), 'text/xml; charset=GB2312')).toEqual({ charset: 'gb18030', detected_from: 'header' });
+    expect(detectCharset(loadFixture('gbk-feed.xml'), 'text/xml')).toEqual({ charset: 'gb18030', detected_from: 'xml' });
+    expect(detectCharset(loadFixture('gb2312-article.html'))).toEqual({ charset: 'gb18030', detected_from: 'meta' });
+    expect(detectCharset(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('<p>正文</p>')]))).toEqual({ charset: 'utf-8', detected_from: 'bom' });
+    expect(detectCharset(Buffer.from('<p>正文</p>'), 'text/html; charset=unknown-charset')).toEqual({ charset: 'utf-8', detected_from: 'default' });
+  });
+
+  it('should decode GBK characters outside GB2312 declared as gb2312', () => {
+    expect(decodeBody(loadFixture('gb2312-article.html')).text).toContain('朱镕基');
+  });
+});
+
+describe('collector transcoding', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should transcode GBK feeds in RSSCollector', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, data: loadFixture('gbk-feed.xml'), headers: { 'content-type': 'application/xml' } });
+
+    const result = await new RSSCollector().collectFromSource({ url: 'http://www.szse.cn/rss', name: '深交所' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.items[0].title).toBe('关于平安银行股份有限公司股票交易异常波动的公告');
+    expect(result.items[0].content).toContain('收盘价格涨幅偏离值');
+  });
+
+  it('should transcode GB2312 pages in WebCollector', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, data: loadFixture('gb2312-article.html'), headers: { 'content-type': 'text/html' } });
+
+    const article = await new WebCollector().extractArticle('http://www.gov.cn/zhengce/1.htm');
+
+    expect(article.title).toBe('国务院常务会议部署稳就业举措');
+    expect(article.content).toContain('朱镕基同志');
+  });
+
+  it('should transcode GBK JSON in APICollector', async () => {
+    (axios as unknown as jest.Mock).mockResolvedValue({ status: 200, data: loadFixture('gbk-api.json'), headers: { 'content-type': 'application/json; charset=GBK' } });
+
+    const result = await new APICollector().collectFromSource({ url: 'http://www.sse.com.cn/api/news', name: '上交所', response_path: 'data' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.items[0]).toMatchObject({ title: '上交所发布科创板改革措施', content: '上海证券交易所发布深化科创板改革的若干措施。' });
+  });
+});
@@ -0,0 +1,158 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { z } from 'zod';
+import { BaseCollector, CollectorFactory, CollectorPluginError, CollectorResult } from '../agents/collector-agent/collectors/collector-factory';
+import { loadCollectorPlugins } from '../agents/collector-agent/collectors/plugin-loader';
+
+const PLUGIN_DIR = path.join(__dirname, 'fixtures', 'plugins');
+
+class StaticCollector extends BaseCollector {
+  async collect(config: { keyword: string }): Promise<CollectorResult> {
+    return {
+      source: 'static',
+      type: 'static',
+      items: [{ title: config.keyword }],
+      collected_count: 1,
+      processing_time: 0
+    };
+  }
+
+  async validate(): Promise<boolean> {
+    return true;
+  }
+
+  async test(config: { keyword: string }): Promise<CollectorResult> {
+    return this.collect(config);
+  }
+}
+
+describe('CollectorFactory registry', () => {
+  it('should register custom collectors and collect with them', async () => {
+    const factory = new CollectorFactory();
+    factory.registerCollector({
+      type: 'static',
+      config_schema: z.object({ keyword: z.string().min(1) }),
+      create: () => new StaticCollector()
+    });
+
+    const result = await factory.collect({ type: 'static', name: '关键词', enabled: true, priority: 1, config: { keyword: '回购' } });
+
+    expect(factory.getAvailableTypes()).toEqual(['rss', 'web', 'api', 'sitemap', 'jsonfeed', 'ndjson', 'file', 'mailbox', 'static']);
+    expect(result.source).toBe('关键词');
+    expect(result.items).toEqual([{ title: '回购' }]);
+  });
+
+  it('should resolve ${VAR} secret references when collecting', async () => {
+    const factory = new CollectorFactory();
+    factory.registerCollector({ type: 'static', create: () => new StaticCollector() });
+    const config = { type: 'static', name: '关键词', enabled: true, priority: 1, config: { keyword: '${COLLECTOR_TEST_KEYWORD}' } };
+
+    process.env.COLLECTOR_TEST_KEYWORD = '回购';
+    try {
+      expect((await factory.collect(config)).items).toEqual([{ title: '回购' }]);
+      expect(config.config.keyword).toBe('${COLLECTOR_TEST_KEYWORD}');
+    } finally {
+      delete process.env.COLLECTOR_TEST_KEYWORD;
+    }
+
+    expect((await factory.collect(config)).error).toBe('Environment variable COLLECTOR_TEST_KEYWORD is not set');
+  });
+
+  it('should keep resolved secrets out of collected items', async () => {
+    const server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data: [{ title: '回购公告', content: '公司拟回购股份', url: 'https://example.com/1', date: '2025-08-04T01:00:00Z' }] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const factory = new CollectorFactory();
+    const config = {
+      type: 'api',
+      name: '公告接口',
+      enabled: true,
+      priority: 1,
+      config: {
+        name: '公告接口',
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/notices`,
+        response_path: 'data',
+        respect_robots: false,
+        headers: { Authorization: 'Bearer plain-header-token' },
+        auth: { type: 'bearer', token: '${COLLECTOR_TEST_TOKEN}' }
+      }
+    };
+
+    process.env.COLLECTOR_TEST_TOKEN = 'resolved-api-token';
+    try {
+      const result = await factory.collect(config);
+
+      expect(result.error).toBeUndefined();
+      expect(result.items).toHaveLength(1);
+      const stored = JSON.stringify(result.items);
+      expect(stored).not.toContain('resolved-api-token');
+      expect(stored).not.toContain('plain-header-token');
+      expect(result.items[0].raw_data.source_config.auth.token).toBe('${COLLECTOR_TEST_TOKEN}');
+      expect(result.items[0].raw_data.source_config.headers.Authorization).toBe('[REDACTED]');
+    } finally {
+      delete process.env.COLLECTOR_TEST_TOKEN;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  it('should refuse to override an existing collector type', () => {
+    const factory = new CollectorFactory();
+
+    expect(() => factory.registerCollector({ type: 'rss', create: () => new StaticCollector() }))
+      .toThrow(CollectorPluginError);
+  });
+
+  it('should validate source configs against the collector schema', () => {
+    const factory = new CollectorFactory();
+
+    expect(factory.validateConfig({ type: 'rss', config: { url: 'https://example.com/feed.xml', max_items: 20 } }))
+      .toEqual({ valid: true, errors: [] });
+    expect(factory.validateConfig({ type: 'api', config: { url: 'not a url', auth: { type: 'oauth1' } } }).errors)
+      .toEqual([expect.stringMatching(/^url: /), expect.stringMatching(/^auth\.type: /)]);
+    expect(factory.validateConfig({ type: 'ftp', config: {} }))
+      .toEqual({ valid: false, errors: ['Unknown collector type: ftp'] });
+  });
+
+  it('should describe collector types and their config fields', () => {
+    const types = new CollectorFactory().getCollectorTypes();
+    const rss = types.find(type => type.type === 'rss')!;
+
+    expect(rss.builtin).toBe(true);
+    expect(rss.fields).toContainEqual({ name: 'url', type: 'string', required: true, description: 'RSS / Atom 订阅地址' });
+    expect(rss.fields).toContainEqual(expect.objectContaining({ name: 'max_items', type: 'number', required: false }));
+  });
+});
+
+describe('loadCollectorPlugins', () => {
+  it('should load plugins from a directory and skip invalid ones', async () => {
+    const factory = new CollectorFactory();
+
+    const result = loadCollectorPlugins(factory, { directory: PLUGIN_DIR });
+
+    expect(result.loaded).toEqual(['exchange_notice']);
+    expect(result.errors).toEqual([
+      { module: path.join(PLUGIN_DIR, 'invalid-plugin.js'), error: expect.stringMatching(/create\(\) function/) }
+    ]);
+
+    const plugin = factory.getCollectorTypes().find(type => type.type === 'exchange_notice');
+    expect(plugin).toMatchObject({ builtin: false, description: '交易所公告（测试用）' });
+    expect(factory.validateConfig({ type: 'exchange_notice', config: { exchange: 'hkex' } }).valid).toBe(false);
+
+    const collected = await factory.collect({ type: 'exchange_notice', name: '上交所公告', enabled: true, priority: 1, config: { exchange: 'sse' } });
+    expect(collected.items).toEqual([{ title: 'sse 公告' }]);
+  });
+
+  it('should load plugins by module path or package name', () => {
+    const factory = new CollectorFactory();
+
+    const result = loadCollectorPlugins(factory, {
+      packages: [path.join(PLUGIN_DIR, 'exchange-notice.js'), 'ai-news-collector-missing-plugin']
+    });
+
+    expect(result.loaded).toEqual(['exchange_notice']);
+    expect(result.errors).toEqual([{ module: 'ai-news-collector-missing-plugin', error: 'Cannot find collector plugin module: ai-news-collector-missing-plugin' }]);
+  });
+});
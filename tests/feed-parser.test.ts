@@ -0,0 +1,124 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import axios from 'axios';
+import { FeedParseError, parseFeed } from '../agents/collector-agent/collectors/feed-parser';
+import { RSSCollector } from '../agents/collector-agent/collectors/rss-collector';
+
+jest.mock('axios');
+
+function loadFixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'feeds', name), 'utf-8');
+}
+
+describe('parseFeed', () => {
+  it('should parse RSS 2.0 with CDATA, namespaces and enclosures', () => {
+    const feed = parseFeed(loadFixture('rss2.xml'));
+
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('财经快讯');
+    expect(feed.link).toBe('https://finance.example.com/');
+    expect(feed.items).toHaveLength(2);
+
+    const [first, second] = feed.items;
+    expect(first.title).toBe('央行宣布降准 <b>0.5</b> 个百分点');
+    expect(first.link).toBe('https://finance.example.com/news/1001.html');
+    expect(first.guid).toBe('news-1001');
+    expect(first.content).toContain('下调金融机构存款准备金率');
+    expect(first.published).toBe('Mon, 04 Aug 2025 08:30:00 +0800');
+    expect(first.author).toBe('财经记者');
+    expect(first.categories).toEqual(['宏观', '货币政策']);
+    expect(first.enclosures).toEqual([
+      { url: 'https://finance.example.com/audio/1001.mp3', type: 'audio/mpeg', length: 102400 },
+      { url: 'https://finance.example.com/img/1001.jpg', type: 'image/jpeg', length: undefined, medium: 'image' },
+    ]);
+
+    // 无 link 时回退到永久链接 guid
+    expect(second.link).toBe('https://finance.example.com/news/1002.html');
+    expect(second.published).toBe('2025-08-04T11:30:00+08:00');
+    expect(second.categories).toEqual(['A股']);
+  });
+
+  it('should parse Atom entries with link relations and multiple authors', () => {
+    const feed = parseFeed(loadFixture('atom.xml'));
+
+    expect(feed.format).toBe('atom');
+    expect(feed.link).toBe('https://regulator.example.com/');
+
+    const [first, second] = feed.items;
+    expect(first.title).toBe('证监会发布<em>上市公司</em>信息披露新规');
+    expect(first.link).toBe('https://regulator.example.com/notice/2025/0804.html');
+    expect(first.guid).toBe('tag:regulator.example.com,2025:notice-0804');
+    expect(first.published).toBe('2025-08-04T08:00:00Z');
+    expect(first.author).toBe('新闻办公室, 法律部');
+    expect(first.categories).toEqual(['监管']);
+    expect(first.description).toBe('新规明确了重大事项的披露时限。');
+    expect(first.enclosures.map(enclosure => enclosure.url)).toEqual([
+      'https://regulator.example.com/files/0804.pdf',
+      'https://regulator.example.com/img/0804.png',
+    ]);
+
+    // 无 alternate 链接时使用 URL 形式的 id
+    expect(second.link).toBe('https://regulator.example.com/notice/2025/0803.html');
+    expect(second.published).toBeUndefined();
+    expect(second.updated).toBe('2025-08-03T10:00:00Z');
+  });
+
+  it('should keep the markup of Atom xhtml content', () => {
+    const feed = parseFeed(loadFixture('atom-xhtml.xml'));
+
+    const [first, second] = feed.items;
+    expect(first.description).toBe('保证金比例由 <b>80%</b> 调整为 100%。');
+    expect(first.content).toMatch(/^<p>为防范市场风险，本所决定调整融资保证金最低比例。<\/p>\s+<p>自 <time datetime="2025-08-08">8月8日<\/time> 起/);
+    expect(first.content).toContain('<strong>100%</strong>，R&amp;D 类证券不受影响。</p>');
+    expect(second.content).toBe('本周六进行全网测试。');
+  });
+
+  it('should parse RSS 1.0 (RDF) items', () => {
+    const feed = parseFeed(loadFixture('rdf.xml'));
+
+    expect(feed.format).toBe('rdf');
+    expect(feed.title).toBe('科技资讯');
+    expect(feed.items).toHaveLength(1);
+    expect(feed.items[0]).toMatchObject({
+      title: '国产芯片厂商发布新一代处理器',
+      link: 'https://tech.example.com/article/42',
+      guid: 'https://tech.example.com/article/42',
+      published: '2025-08-02T14:00:00+08:00',
+      author: '科技编辑',
+      categories: ['半导体'],
+    });
+  });
+
+  it('should reject documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>not a feed</body></html>')).toThrow(FeedParseError);
+  });
+});
+
+describe('RSSCollector', () => {
+  it('should map feed items to news items with metadata in raw_data', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({ status: 200, data: loadFixture('rss2.xml') });
+
+    const collector = new RSSCollector();
+    const result = await collector.collectFromSource({ name: '财经快讯', url: 'https://finance.example.com/rss.xml' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.items).toHaveLength(2);
+
+    const [first, second] = result.items;
+    expect(first.title).toBe('央行宣布降准 0.5 个百分点');
+    expect(first.content).toBe('中国人民银行决定于下周下调金融机构存款准备金率 0.5 个百分点&释放长期资金。');
+    expect(first.publish_time.toISOString()).toBe('2025-08-04T00:30:00.000Z');
+    expect(first.raw_data).toMatchObject({
+      feed_format: 'rss',
+      guid: 'news-1001',
+      author: '财经记者',
+      categories: ['宏观', '货币政策'],
+      summary: '摘要：央行决定下调存款准备金率。',
+    });
+    expect(first.raw_data.enclosures).toHaveLength(2);
+
+    // 无标题的快讯使用正文作为标题
+    expect(second.title).toBe('沪指午间收涨 1.2%，券商板块领涨。');
+    expect(second.publish_time.toISOString()).toBe('2025-08-04T03:30:00.000Z');
+  });
+});
@@ -0,0 +1,68 @@
+import axios from 'axios';
+import { APICollector } from '../agents/collector-agent/collectors/api-collector';
+import { evaluatePath, FieldMappingError, resolveField } from '../agents/collector-agent/collectors/field-mapping';
+
+jest.mock('axios');
+
+const article = {
+  docid: 'A1001',
+  headline: '央行宣布降准',
+  'pub-date': '20250804143000',
+  summary: '<p>中国人民银行宣布<b>降准</b>0.5个百分点&nbsp;</p><script>track()</script>',
+  authors: [{ name: '张三' }, { name: '李四' }],
+  images: [{ url: 'https://img.example.com/1.jpg' }],
+  section: { code: 'finance' }
+};
+
+describe('evaluatePath', () => {
+  it('should support JMESPath, JSONPath-style prefixes and legacy dotted paths', () => {
+    expect(evaluatePath(article, 'title || headline')).toBe('央行宣布降准');
+    expect(evaluatePath(article, 'images[0].url')).toBe('https://img.example.com/1.jpg');
+    expect(evaluatePath(article, 'authors[*].name')).toEqual(['张三', '李四']);
+    expect(evaluatePath(article, '$.section.code')).toBe('finance');
+    expect(evaluatePath(article, 'pub-date')).toBe('20250804143000');
+    expect(() => evaluatePath(article, 'title ||')).toThrow(FieldMappingError);
+  });
+});
+
+describe('resolveField', () => {
+  it('should apply templates, concatenation and transforms', () => {
+    expect(resolveField(article, { template: 'https://news.example.com/{{section.code}}/{{docid}}.html' }))
+      .toBe('https://news.example.com/finance/A1001.html');
+    expect(resolveField(article, { concat: ['authors[0].name', 'missing', 'authors[1].name'], separator: ' / ' })).toBe('张三 / 李四');
+    expect(resolveField(article, { path: 'summary', transforms: ['strip_html'] })).toBe('中国人民银行宣布降准0.5个百分点');
+    expect(resolveField(article, { path: 'pub-date', transforms: [{ type: 'date', format: 'YYYYMMDDHHmmss' }] })).toBe('2025-08-04 14:30:00');
+    expect(resolveField(article, { path: 'headline', transforms: [{ type: 'truncate', length: 2 }, { type: 'suffix', value: '…' }] })).toBe('央行…');
+    expect(resolveField(article, { path: 'docid', transforms: [{ type: 'replace', pattern: '^A', replacement: 'doc-' }, 'lowercase'] })).toBe('doc-1001');
+    expect(resolveField(article, { path: 'author', default: '佚名' })).toBe('佚名');
+  });
+});
+
+describe('APICollector mapping', () => {
+  it('should map vendor fields without code changes', async () => {
+    (axios as unknown as jest.Mock).mockResolvedValue({ status: 200, data: { result: { list: [article] } }, headers: {} });
+
+    const result = await new APICollector().collectFromSource({
+      url: 'https://vendor.example.com/api/news',
+      name: 'Vendor API',
+      response_path: 'result.list',
+      mapping: {
+        id: 'docid',
+        title: 'title || headline',
+        content: { path: 'content || summary', transforms: ['strip_html'] },
+        url: { template: 'https://news.example.com/{{section.code}}/{{docid}}.html' },
+        date: { path: '"pub-date"', transforms: [{ type: 'date', format: 'YYYYMMDDHHmmss' }] },
+        author: 'join(`, `, authors[*].name)'
+      }
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.items[0]).toMatchObject({
+      title: '央行宣布降准',
+      content: '中国人民银行宣布降准0.5个百分点',
+      url: 'https://news.example.com/finance/A1001.html',
+      publish_time: new Date('2025-08-04T06:30:00Z'),
+      raw_data: { author: '张三, 李四', publish_time_confidence: 'inferred' }
+    });
+  });
+});
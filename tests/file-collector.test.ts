@@ -0,0 +1,180 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CollectionScheduler } from '../agents/collector-agent/collection-scheduler';
+import { CollectorFactory } from '../agents/collector-agent/collectors/collector-factory';
+import { FileCollector } from '../agents/collector-agent/collectors/file-collector';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'files');
+
+// 把修改时间设为过去，避开 settle_ms 的写入保护
+function drop(directory: string, name: string, ageMs: number = 60000): string {
+  const target = path.join(directory, name);
+  fs.copyFileSync(path.join(FIXTURE_DIR, name), target);
+  const modified = new Date(Date.now() - ageMs);
+  fs.utimesSync(target, modified, modified);
+  return target;
+}
+
+describe('FileCollector', () => {
+  let tempDir: string;
+  let inbox: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-collector-'));
+    inbox = path.join(tempDir, 'inbox');
+    fs.mkdirSync(inbox);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse each supported format into news items', async () => {
+    for (const name of ['notice.eml', 'article.html', 'brief.txt', 'weekly.md', 'alerts.json', 'feed.xml']) {
+      drop(inbox, name);
+    }
+    const collector = new FileCollector();
+
+    const result = await collector.collectFromSource({ directory: inbox, name: '投放目录', category: '公告' });
+
+    expect(result).toMatchObject({ files_processed: 6, files_failed: 0, collected_count: 7 });
+    const byTitle = Object.fromEntries(result.items.map(item => [item.title, item]));
+
+    const email = byTitle['公司关于召开业绩说明会的通知'];
+    expect(email.content).toBe('公司定于 2025 年 8 月 8 日召开半年度业绩说明会。');
+    expect(email.publish_time.toISOString()).toBe('2025-08-04T01:30:00.000Z');
+    expect(email.raw_data).toMatchObject({
+      author: '投资者关系 <ir@example.com>',
+      from_address: 'ir@example.com',
+      message_id: '<notice-20250804@example.com>',
+      file: { name: 'notice.eml', type: 'email' },
+      category: '公告'
+    });
+
+    const article = byTitle['新能源车销量创新高'];
+    expect(article.url).toBe('https://finance.example.com/news/2025/0805.html');
+    expect(article.content).toContain('渗透率继续提升');
+    expect(article.raw_data?.language).toBe('zh-CN');
+
+    const brief = byTitle['午间快讯'];
+    expect(brief.content).toBe('沪指半日涨 0.5%，成交额放大。');
+    // 文本没有时间时以文件修改时间为准，链接指向归档后的文件
+    expect(brief.raw_data?.publish_time_confidence).toBe('inferred');
+    expect(brief.url).toMatch(/^file:\/\/.*\/archive\/\d{4}-\d{2}-\d{2}\/brief\.txt$/);
+
+    const weekly = byTitle['宏观周报：流动性保持合理充裕'];
+    expect(weekly.publish_time.toISOString()).toBe('2025-08-03T10:00:00.000Z');
+    expect(weekly.content).toContain('央行开展 MLF 操作');
+    expect(weekly.content).toContain('详见 原文');
+    expect(weekly.raw_data?.author).toBe('研究部');
+
+    expect(byTitle['公司C中标重大项目']).toMatchObject({ content: '中标金额约 12 亿元。', url: 'https://ir.example.com/c/1' });
+    expect(byTitle['公司C股东增持'].raw_data?.record_id).toBe('a-2');
+    expect(byTitle['关于调整交易时间的通知']).toMatchObject({ url: 'https://exchange.example.com/notice/88' });
+  });
+
+  it('should archive processed files and move unparseable ones aside', async () => {
+    drop(inbox, 'brief.txt');
+    drop(inbox, 'broken.json');
+    const archive = path.join(tempDir, 'archive');
+    const collector = new FileCollector();
+
+    const result = await collector.collectFromSource({ directory: inbox, name: '投放目录', archive_directory: archive });
+
+    expect(result).toMatchObject({ files_processed: 1, files_failed: 1, collected_count: 1 });
+    expect(result.failed_files?.[0].file).toBe('broken.json');
+    expect(fs.readdirSync(inbox)).toEqual([]);
+    const [dateDir] = fs.readdirSync(archive).filter(name => name !== 'failed');
+    expect(fs.readdirSync(path.join(archive, dateDir))).toEqual(['brief.txt']);
+    expect(fs.readdirSync(path.join(archive, 'failed'))).toEqual(['broken.json']);
+
+    // 同名文件再次投放时不覆盖已归档的文件，内容相同时ID不变
+    drop(inbox, 'brief.txt');
+    const again = await collector.collectFromSource({ directory: inbox, name: '投放目录', archive_directory: archive });
+    expect(fs.readdirSync(path.join(archive, dateDir))).toHaveLength(2);
+    expect(again.items[0].id).toBe(result.items[0].id);
+  });
+
+  it('should leave files that may still be written and unsupported files in place', async () => {
+    drop(inbox, 'brief.txt', 0);
+    drop(inbox, 'weekly.md');
+    fs.writeFileSync(path.join(inbox, 'report.pdf'), 'not supported');
+    fs.writeFileSync(path.join(inbox, '.brief.txt.swp'), 'editor swap file');
+    const collector = new FileCollector();
+
+    const result = await collector.collectFromSource({ directory: inbox, name: '投放目录', settle_ms: 5000 });
+
+    expect(result.items.map(item => item.raw_data?.file.name)).toEqual(['weekly.md']);
+    expect(fs.readdirSync(inbox).sort()).toEqual(['.brief.txt.swp', 'archive', 'brief.txt', 'report.pdf']);
+  });
+
+  it('should not move files when testing a source', async () => {
+    drop(inbox, 'brief.txt');
+    const factory = new CollectorFactory(undefined, undefined, undefined, [tempDir]);
+
+    const result = await factory.test({ type: 'file', name: '投放目录', enabled: true, priority: 1, config: { directory: inbox, name: '投放目录' } });
+
+    expect(result.collected_count).toBe(1);
+    expect(fs.readdirSync(inbox)).toEqual(['brief.txt']);
+    expect(await factory.validate({ type: 'file', name: '缺失', enabled: true, priority: 1, config: { directory: path.join(tempDir, 'missing') } })).toBe(false);
+    expect(factory.validateConfig({ type: 'file', config: {} }).valid).toBe(false);
+  });
+
+  it('should only read and move files inside the allowed roots', async () => {
+    drop(inbox, 'brief.txt');
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'file-outside-'));
+    try {
+      const factory = new CollectorFactory(undefined, undefined, undefined, [inbox]);
+      const source = (config: Record<string, any>) => ({ type: 'file', name: '投放目录', enabled: true, priority: 1, config });
+
+      expect(factory.validateConfig(source({ directory: inbox, archive_directory: path.join(inbox, 'done') })).valid).toBe(true);
+      expect(factory.validateConfig(source({ directory: outside })).errors).toEqual([`Local path is outside the allowed roots: ${outside}`]);
+      expect(factory.validateConfig(source({ directory: inbox, archive_directory: path.join(inbox, '..', 'archive') })).valid).toBe(false);
+      expect(new CollectorFactory().validateConfig(source({ directory: inbox })).valid).toBe(false);
+
+      // 允许目录中指向外部的符号链接同样拒绝
+      const link = path.join(inbox, 'linked');
+      fs.symlinkSync(outside, link);
+      const result = await factory.collect(source({ directory: link }));
+      expect(result.error).toBe(`Local path is outside the allowed roots: ${link}`);
+      expect(fs.readdirSync(inbox).sort()).toEqual(['brief.txt', 'linked']);
+      expect(factory.watch(source({ directory: outside }), () => undefined)).toBeUndefined();
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should trigger collection when a file is dropped into a watched directory', async () => {
+    const factory = new CollectorFactory(undefined, undefined, undefined, [tempDir]);
+    const config = { type: 'file', name: '投放目录', enabled: true, priority: 1, config: { directory: inbox, name: '投放目录', settle_ms: 50 } };
+    const runner = jest.fn().mockResolvedValue(undefined);
+    const scheduler = new CollectionScheduler(runner, { state_path: null });
+    scheduler.schedule({ id: 'inbox', source_type: 'file', source_config: config, schedule: '0 0 * * * *', enabled: true });
+
+    const stopWatching = factory.watch(config, () => scheduler.trigger('inbox'));
+    try {
+      expect(stopWatching).toBeDefined();
+      fs.copyFileSync(path.join(FIXTURE_DIR, 'brief.txt'), path.join(inbox, 'brief.txt'));
+
+      await new Promise<void>((resolve, reject) => {
+        const started = Date.now();
+        const poll = setInterval(() => {
+          scheduler.tick().then(() => {
+            if (runner.mock.calls.length > 0) {
+              clearInterval(poll);
+              resolve();
+            } else if (Date.now() - started > 3000) {
+              clearInterval(poll);
+              reject(new Error('watched directory did not trigger collection'));
+            }
+          });
+        }, 50);
+      });
+    } finally {
+      stopWatching?.();
+    }
+
+    expect(factory.watch({ ...config, config: { ...config.config, watch: false } }, () => undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,28 @@
+// 示例采集器插件：返回固定的交易所公告
+const { z } = require('zod');
+
+module.exports = {
+  type: 'exchange_notice',
+  description: '交易所公告（测试用）',
+  config_schema: z.object({
+    exchange: z.enum(['sse', 'szse']).describe('交易所'),
+    limit: z.number().int().positive().optional()
+  }),
+  create: () => ({
+    async collect(config) {
+      return {
+        source: `${config.exchange}-notice`,
+        type: 'exchange_notice',
+        items: [{ title: `${config.exchange} 公告` }],
+        collected_count: 1,
+        processing_time: 0
+      };
+    },
+    async validate() {
+      return true;
+    },
+    async test(config) {
+      return this.collect(config);
+    }
+  })
+};
@@ -0,0 +1,2 @@
+// 缺少 create()，加载时应报错
+module.exports = { type: 'invalid_plugin' };
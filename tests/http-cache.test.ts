@@ -0,0 +1,151 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { HttpCacheStore } from '../agents/collector-agent/collectors/http-cache';
+import { RSSCollector } from '../agents/collector-agent/collectors/rss-collector';
+import { WebCollector } from '../agents/collector-agent/collectors/web-collector';
+
+const FEED = fs.readFileSync(path.join(__dirname, 'fixtures/feeds/rss2.xml'));
+const ARTICLE = fs.readFileSync(path.join(__dirname, 'fixtures/articles/news-article.html'));
+const LAST_MODIFIED = 'Mon, 04 Aug 2025 01:00:00 GMT';
+
+// 本地站点：订阅源带 ETag，文章页只带 Last-Modified，校验头匹配时返回 304
+class ConditionalSite {
+  requests: Array<{ path: string; headers: http.IncomingHttpHeaders }> = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    this.requests.push({ path: req.url || '/', headers: req.headers });
+
+    if (req.url === '/feed.xml') {
+      if (req.headers['if-none-match'] === '"v1"') {
+        res.writeHead(304, { ETag: '"v1"' });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/rss+xml; charset=utf-8', ETag: '"v1"' });
+      res.end(FEED);
+      return;
+    }
+
+    if (req.headers['if-modified-since'] === LAST_MODIFIED) {
+      res.writeHead(304);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Last-Modified': LAST_MODIFIED });
+    res.end(ARTICLE);
+  }
+}
+
+describe('HttpCacheStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build conditional headers and persist entries across restarts', () => {
+    const filePath = path.join(tempDir, 'cache.json');
+    const cache = new HttpCacheStore(filePath);
+    const key = HttpCacheStore.key('证监会要闻', 'https://example.com/feed.xml');
+
+    expect(cache.getConditionalHeaders(key)).toEqual({});
+    cache.update(key, 'https://example.com/feed.xml', { etag: '"v1"', 'last-modified': LAST_MODIFIED });
+    cache.markNotModified(key, { etag: '"v2"' });
+
+    const reloaded = new HttpCacheStore(filePath);
+    expect(reloaded.getConditionalHeaders(key)).toEqual({ 'If-None-Match': '"v2"', 'If-Modified-Since': LAST_MODIFIED });
+    expect(reloaded.get(key)).toMatchObject({ url: 'https://example.com/feed.xml', not_modified_count: 1 });
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+
+    // 响应不再带校验头时删除记录
+    reloaded.update(key, 'https://example.com/feed.xml', {});
+    expect(new HttpCacheStore(filePath).get(key)).toBeUndefined();
+  });
+
+  it('should start empty when the cache file is corrupt', () => {
+    const filePath = path.join(tempDir, 'cache.json');
+    fs.writeFileSync(filePath, '{"truncated');
+
+    expect(new HttpCacheStore(filePath).get('any')).toBeUndefined();
+  });
+});
+
+describe('Conditional requests', () => {
+  let site: ConditionalSite;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    site = new ConditionalSite();
+    await site.listen();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-cache-'));
+  });
+
+  afterEach(async () => {
+    await site.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should send the cached ETag and report an unchanged feed as not modified', async () => {
+    const filePath = path.join(tempDir, 'cache.json');
+    const config = { name: '证监会要闻', url: `${site.baseUrl}/feed.xml` };
+
+    const first = await new RSSCollector(undefined, undefined, new HttpCacheStore(filePath)).collectFromSource(config);
+    // 重新加载缓存文件，模拟采集代理重启
+    const cache = new HttpCacheStore(filePath);
+    const second = await new RSSCollector(undefined, undefined, cache).collectFromSource(config);
+
+    expect(first.collected_count).toBeGreaterThan(0);
+    expect(first.not_modified).toBeUndefined();
+    expect(site.requests[0].headers['if-none-match']).toBeUndefined();
+    expect(site.requests[1].headers['if-none-match']).toBe('"v1"');
+    expect(second).toMatchObject({ items: [], collected_count: 0, not_modified: true });
+    expect(second.error).toBeUndefined();
+    expect(cache.get(HttpCacheStore.key(config.name, config.url))?.not_modified_count).toBe(1);
+  });
+
+  it('should skip conditional headers when a source opts out', async () => {
+    const cache = new HttpCacheStore(null);
+    const collector = new RSSCollector(undefined, undefined, cache);
+    const config = { name: '证监会要闻', url: `${site.baseUrl}/feed.xml`, conditional_get: false };
+
+    await collector.collectFromSource(config);
+    const second = await collector.collectFromSource(config);
+
+    expect(site.requests[1].headers['if-none-match']).toBeUndefined();
+    expect(second.collected_count).toBeGreaterThan(0);
+  });
+
+  it('should send the cached Last-Modified for web pages and return no items on 304', async () => {
+    const cache = new HttpCacheStore(path.join(tempDir, 'cache.json'));
+    const collector = new WebCollector(undefined, undefined, cache);
+    const config = { name: '公司公告', url: `${site.baseUrl}/news/1.html`, mode: 'article' as const };
+
+    const first = await collector.collectFromSource(config);
+    const second = await collector.collectFromSource(config);
+
+    expect(first.collected_count).toBe(1);
+    expect(site.requests[1].headers['if-modified-since']).toBe(LAST_MODIFIED);
+    expect(second).toMatchObject({ items: [], collected_count: 0, not_modified: true });
+    expect(cache.get(HttpCacheStore.key(config.name, config.url))).toMatchObject({ last_modified: LAST_MODIFIED, not_modified_count: 1 });
+  });
+});
@@ -0,0 +1,239 @@
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CollectorFactory } from '../agents/collector-agent/collectors/collector-factory';
+import { CursorStore } from '../agents/collector-agent/collectors/cursor-store';
+import { JSONFeedCollector, JSONFeedError, parseJSONFeed } from '../agents/collector-agent/collectors/json-feed-collector';
+import { NDJSONCollector } from '../agents/collector-agent/collectors/ndjson-collector';
+
+jest.mock('axios');
+
+const mockedGet = axios.get as jest.Mock;
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'jsonfeed');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf8');
+}
+
+function serve(documents: Record<string, string>): void {
+  mockedGet.mockImplementation(async (url: string) => documents[url] !== undefined
+    ? { status: 200, data: Buffer.from(documents[url]), headers: { 'content-type': 'application/json' } }
+    : { status: 404, statusText: 'Not Found', data: Buffer.from(''), headers: {} });
+}
+
+const FEED_URL = 'https://research.example.com/feed.json';
+
+describe('parseJSONFeed', () => {
+  it('should reject documents that are not JSON Feeds', () => {
+    expect(parseJSONFeed(fixture('feed-page1.json')).items).toHaveLength(2);
+    expect(() => parseJSONFeed('{"items": []}')).toThrow(JSONFeedError);
+    expect(() => parseJSONFeed('<rss/>')).toThrow('Invalid JSON');
+  });
+});
+
+describe('JSONFeedCollector', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    serve({
+      [FEED_URL]: fixture('feed-page1.json'),
+      'https://research.example.com/feed-page2.json': fixture('feed-page2.json')
+    });
+  });
+
+  it('should follow next_url and map JSON Feed 1.0 and 1.1 fields', async () => {
+    const collector = new JSONFeedCollector();
+
+    const result = await collector.collectFromSource({ url: FEED_URL, name: '研究所快讯' });
+
+    expect(result.error).toBeUndefined();
+    expect(result.pages_fetched).toBe(2);
+    expect(result.items.map(item => item.url)).toEqual([
+      'https://research.example.com/notes/1003',
+      'https://research.example.com/notes/1002',
+      'https://www.example.com/news/1001.html',
+      ''
+    ]);
+
+    const [weekly, flash, review, internal] = result.items;
+    expect(weekly).toMatchObject({ title: '半导体行业周报：设备订单继续回暖', content: '本周设备厂商订单环比增长。' });
+    expect(weekly.publish_time.toISOString()).toBe('2025-08-04T01:30:00.000Z');
+    expect(weekly.raw_data).toMatchObject({
+      guid: 'r-1003',
+      author: '张三',
+      tags: ['半导体', '周报'],
+      lead_image: 'https://research.example.com/images/1003.png',
+      language: 'zh-CN'
+    });
+    // 没有标题时截取正文开头
+    expect(flash.title).toBe('央行开展 5000 亿元 MLF 操作，利率持平。');
+    expect(flash.publish_time.toISOString()).toBe('2025-08-03T07:00:00.000Z');
+    expect(review.raw_data?.author).toBe('李四');
+    expect(internal.id).not.toBe(review.id);
+  });
+
+  it('should stop at the last seen item on later runs', async () => {
+    const collector = new JSONFeedCollector(undefined, undefined, undefined, new CursorStore(null));
+    await collector.collectFromSource({ url: FEED_URL, name: '研究所快讯' });
+
+    const unchanged = await collector.collectFromSource({ url: FEED_URL, name: '研究所快讯' });
+    expect(unchanged).toMatchObject({ collected_count: 0, pages_fetched: 1, reached_cursor: true });
+
+    const feed = JSON.parse(fixture('feed-page1.json'));
+    feed.items.unshift({ id: 'r-1004', url: 'https://research.example.com/notes/1004', title: '银行业点评', content_text: '息差企稳。' });
+    serve({ [FEED_URL]: JSON.stringify(feed) });
+
+    const updated = await collector.collectFromSource({ url: FEED_URL, name: '研究所快讯' });
+    expect(updated.items.map(item => item.raw_data?.guid)).toEqual(['r-1004']);
+  });
+
+  it('should continue after the last emitted item when more new items than max_items arrive', async () => {
+    const cursors = new CursorStore(null);
+    const collector = new JSONFeedCollector(undefined, undefined, undefined, cursors);
+    const source = { url: FEED_URL, name: '研究所快讯', max_items: 2 };
+    const publish = (ids: number[]) => serve({
+      [FEED_URL]: JSON.stringify({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: '示例证券研究所快讯',
+        items: ids.map(id => ({ id: `r-${id}`, url: `https://research.example.com/notes/${id}`, title: `快讯 ${id}` }))
+      })
+    });
+    const guids = (result: { items: Array<{ raw_data?: Record<string, any> }> }) => result.items.map(item => item.raw_data?.guid);
+
+    publish([2001]);
+    await collector.collectFromSource(source);
+
+    publish([2006, 2005, 2004, 2003, 2002, 2001]);
+    const first = await collector.collectFromSource(source);
+    expect(guids(first)).toEqual(['r-2006', 'r-2005']);
+    expect(cursors.get(CursorStore.key('研究所快讯', FEED_URL))).toMatchObject({ last_id: 'r-2001', resume_id: 'r-2005' });
+
+    // 截断期间又有新条目：先取新条目，再从 r-2005 之后继续
+    publish([2007, 2006, 2005, 2004, 2003, 2002, 2001]);
+    const second = await collector.collectFromSource(source, { since: new Date() });
+    expect(guids(second)).toEqual(['r-2007', 'r-2004']);
+
+    const third = await collector.collectFromSource(source, { since: new Date() });
+    expect(guids(third)).toEqual(['r-2003', 'r-2002']);
+    expect(third.reached_cursor).toBe(true);
+    expect(cursors.get(CursorStore.key('研究所快讯', FEED_URL))).toEqual({ last_id: 'r-2007', updated_at: expect.any(String) });
+
+    expect((await collector.collectFromSource(source)).collected_count).toBe(0);
+  });
+
+  it('should not send configured headers to a next_url on another host', async () => {
+    const feed = JSON.parse(fixture('feed-page1.json'));
+    feed.next_url = 'https://cdn.example.net/feed-page2.json';
+    serve({ [FEED_URL]: JSON.stringify(feed), 'https://cdn.example.net/feed-page2.json': fixture('feed-page2.json') });
+
+    const result = await new JSONFeedCollector().collectFromSource({ url: FEED_URL, name: '研究所快讯', headers: { Authorization: 'Bearer secret' } });
+
+    expect(result.pages_fetched).toBe(2);
+    expect(mockedGet.mock.calls[0][1].headers.Authorization).toBe('Bearer secret');
+    expect(mockedGet.mock.calls[1][1].headers.Authorization).toBeUndefined();
+  });
+
+  it('should apply mapping overrides and not move the cursor when testing', async () => {
+    const cursors = new CursorStore(null);
+    const collector = new JSONFeedCollector(undefined, undefined, undefined, cursors);
+
+    const result = await collector.testJSONFeedSource({ url: FEED_URL, name: '研究所快讯', mapping: { author: '_ext.department' } });
+
+    expect(result.items).toHaveLength(3);
+    expect(result.items[0].raw_data?.author).toBe('电子组');
+    expect(cursors.get(CursorStore.key('研究所快讯', FEED_URL))).toBeUndefined();
+  });
+});
+
+describe('NDJSONCollector', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    mockedGet.mockReset();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ndjson-'));
+    filePath = path.join(tempDir, 'exports.ndjson');
+    fs.copyFileSync(path.join(FIXTURE_DIR, 'exports.ndjson'), filePath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should map records and skip invalid lines', async () => {
+    const collector = new NDJSONCollector();
+
+    const result = await collector.collectFromSource({ path: filePath, name: '公告导出' });
+
+    expect(result).toMatchObject({ records_read: 3, invalid_lines: 2, collected_count: 3 });
+    expect(result.items[0]).toMatchObject({
+      title: '公司A发布半年报',
+      content: '营收同比增长 12%。',
+      url: 'https://ir.example.com/a/1',
+      raw_data: { record_id: 'n-1', author: 'IR' }
+    });
+    expect(result.items[0].publish_time.toISOString()).toBe('2025-08-01T00:00:00.000Z');
+    expect(result.items[1]).toMatchObject({ title: '公司B股东减持', url: '' });
+  });
+
+  it('should continue local files from the saved byte offset', async () => {
+    const cursorPath = path.join(tempDir, 'cursors.json');
+    const collector = new NDJSONCollector(undefined, undefined, undefined, new CursorStore(cursorPath));
+    const config = { path: filePath, name: '公告导出', max_items: 2 };
+
+    const first = await collector.collectFromSource(config);
+    expect(first.items.map(item => item.raw_data?.record_id)).toEqual(['n-1', 'n-2']);
+
+    // 未写完的行留到下次读取
+    fs.appendFileSync(filePath, '{"id":"n-4","title":"公司D');
+    const second = await collector.collectFromSource(config);
+    expect(second.items.map(item => item.raw_data?.record_id)).toEqual(['n-3']);
+
+    fs.appendFileSync(filePath, '回购","url":"https://ir.example.com/d/4"}\n');
+    const reloaded = new NDJSONCollector(undefined, undefined, undefined, new CursorStore(cursorPath));
+    const third = await reloaded.collectFromSource(config);
+    expect(third.items.map(item => item.raw_data?.record_id)).toEqual(['n-4']);
+    expect(third.offset).toBe(fs.statSync(filePath).size);
+
+    // 文件被轮转为更小的新文件时从头读取
+    fs.writeFileSync(filePath, '{"id":"m-1","title":"新文件第一条","url":"https://ir.example.com/m/1"}\n');
+    const rotated = await reloaded.collectFromSource(config);
+    expect(rotated.items.map(item => item.raw_data?.record_id)).toEqual(['m-1']);
+  });
+
+  it('should read remote dumps after the last seen record id', async () => {
+    const url = 'https://exports.example.com/announcements.ndjson';
+    serve({ [url]: fixture('exports.ndjson') });
+    const collector = new NDJSONCollector();
+
+    const first = await collector.collectFromSource({ url, name: '远程导出', max_items: 2 });
+    const second = await collector.collectFromSource({ url, name: '远程导出', max_items: 2 });
+    const third = await collector.collectFromSource({ url, name: '远程导出', max_items: 2 });
+
+    expect(first.items.map(item => item.raw_data?.record_id)).toEqual(['n-1', 'n-2']);
+    expect(second.items.map(item => item.raw_data?.record_id)).toEqual(['n-3']);
+    expect(third.collected_count).toBe(0);
+  });
+
+  it('should require a url or a local path inside the allowed roots', () => {
+    const factory = new CollectorFactory(undefined, undefined, undefined, [path.join(process.cwd(), 'exports')]);
+
+    expect(factory.validateConfig({ type: 'ndjson', config: { max_items: 10 } }))
+      .toEqual({ valid: false, errors: ['config: url or path is required'] });
+    expect(factory.validateConfig({ type: 'ndjson', config: { path: './exports/news.ndjson' } }).valid).toBe(true);
+    expect(factory.validateConfig({ type: 'ndjson', config: { path: './exports/../data/news.ndjson' } }))
+      .toEqual({ valid: false, errors: ['Local path is outside the allowed roots: ./exports/../data/news.ndjson'] });
+    expect(new CollectorFactory().validateConfig({ type: 'ndjson', config: { path: './exports/news.ndjson' } }).valid).toBe(false);
+    expect(factory.getCollectorTypes().find(type => type.type === 'ndjson')?.fields).toContainEqual(
+      expect.objectContaining({ name: 'path', required: false })
+    );
+  });
+
+  it('should report missing files as errors', async () => {
+    const result = await new NDJSONCollector().collectFromSource({ path: path.join(tempDir, 'missing.ndjson'), name: '缺失' });
+
+    expect(result.collected_count).toBe(0);
+    expect(result.error).toBe(`NDJSON file not found: ${path.join(tempDir, 'missing.ndjson')}`);
+  });
+});
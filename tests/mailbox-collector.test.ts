@@ -0,0 +1,194 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CollectionScheduler } from '../agents/collector-agent/collection-scheduler';
+import { CollectorFactory } from '../agents/collector-agent/collectors/collector-factory';
+import { CursorStore } from '../agents/collector-agent/collectors/cursor-store';
+import { DigestSplitError, splitDigest } from '../agents/collector-agent/collectors/digest-splitter';
+import { parseEmail } from '../agents/collector-agent/collectors/email-parser';
+import { MailboxCollector } from '../agents/collector-agent/collectors/mailbox-collector';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'mailbox');
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf8');
+}
+
+// mboxrd 格式：正文中以 "From " 开头的行需转义
+function toMbox(names: string[]): string {
+  return names
+    .map(name => `From sender@example.com Tue Aug  5 07:30:00 2025\n${fixture(name).replace(/^(>*From )/gm, '>$1')}\n`)
+    .join('');
+}
+
+describe('splitDigest', () => {
+  it('should split text digests on heading lines and html digests on blocks', async () => {
+    const note = await parseEmail(fixture('morning-note.eml'));
+
+    const sections = splitDigest(note, { mode: 'heading' });
+
+    expect(sections.map(section => section.title)).toEqual([
+      '【宏观】7月制造业PMI回升至荣枯线上方',
+      '【行业】半导体设备订单环比增长',
+      '【公司】公司A中标海外储能项目'
+    ]);
+    expect(sections[0].url).toBe('https://research.broker.example.com/notes/8801');
+    expect(sections[1].content).toBe('From 本周起，设备厂商交付周期明显缩短，国产化率继续提升。');
+
+    const digest = await parseEmail(fixture('weekly-digest.eml'));
+    expect(splitDigest(digest, { mode: 'html', selector: '.story' })).toEqual([
+      { title: '原油库存意外下降', content: '美国原油库存下降 300 万桶，油价小幅上涨。\n阅读全文', url: 'https://vendor.example.org/s/101' },
+      { title: '铜价创年内新高', content: '供应扰动叠加需求回暖，铜价突破前高。\n阅读全文', url: 'https://vendor.example.org/s/102' }
+    ]);
+  });
+
+  it('should keep the whole message when the rule does not match', async () => {
+    const digest = await parseEmail(fixture('weekly-digest.eml'));
+
+    const [whole] = splitDigest(digest, { mode: 'heading' });
+
+    expect(whole.title).toBe('每周精选：能源与大宗');
+    expect(whole.content).toContain('铜价创年内新高');
+    expect(() => splitDigest(digest, { mode: 'html' })).toThrow(DigestSplitError);
+    expect(() => splitDigest(digest, { mode: 'separator', pattern: '(' })).toThrow('Invalid split pattern');
+  });
+});
+
+describe('MailboxCollector', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mailbox-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read Maildir messages from allowed senders and move them to cur', async () => {
+    const maildir = path.join(tempDir, 'Maildir');
+    for (const sub of ['new', 'cur', 'tmp']) {
+      fs.mkdirSync(path.join(maildir, sub), { recursive: true });
+    }
+    fs.writeFileSync(path.join(maildir, 'new', '1754350200.M1P1.host'), fixture('morning-note.eml'));
+    fs.writeFileSync(path.join(maildir, 'new', '1754350100.M2P1.host'), fixture('promo.eml'));
+    fs.writeFileSync(path.join(maildir, 'new', '1754350000.M3P1.host'), fixture('weekly-digest.eml'));
+    const collector = new MailboxCollector();
+    const config = {
+      name: '研究邮件',
+      maildir,
+      category: 'research',
+      from: ['broker.example.com', 'newsletter@vendor.example.org'],
+      split: { mode: 'heading' as const }
+    };
+
+    const result = await collector.collectFromSource(config);
+
+    expect(result).toMatchObject({ messages_read: 3, messages_skipped: 1, messages_failed: 0, collected_count: 4 });
+    expect(result.items.map(item => item.title)).toEqual([
+      '每周精选：能源与大宗',
+      '【宏观】7月制造业PMI回升至荣枯线上方',
+      '【行业】半导体设备订单环比增长',
+      '【公司】公司A中标海外储能项目'
+    ]);
+    const [, macro, industry] = result.items;
+    expect(macro.url).toBe('https://research.broker.example.com/notes/8801');
+    expect(macro.publish_time.toISOString()).toBe('2025-08-04T23:30:00.000Z');
+    expect(macro.raw_data).toMatchObject({
+      message_id: '<morning-20250805@broker.example.com>',
+      author: '示例证券研究所 <research@broker.example.com>',
+      section_index: 0,
+      section_count: 3,
+      category: 'research'
+    });
+    expect(industry.id).not.toBe(macro.id);
+
+    expect(fs.readdirSync(path.join(maildir, 'new'))).toEqual([]);
+    expect(fs.readdirSync(path.join(maildir, 'cur')).sort()).toEqual([
+      '1754350000.M3P1.host:2,S',
+      '1754350100.M2P1.host:2,',
+      '1754350200.M1P1.host:2,S'
+    ]);
+    expect((await collector.collectFromSource(config)).messages_read).toBe(0);
+  });
+
+  it('should continue an mbox file from the last processed message', async () => {
+    const mbox = path.join(tempDir, 'newsletters.mbox');
+    fs.writeFileSync(mbox, toMbox(['morning-note.eml', 'weekly-digest.eml']));
+    const cursorPath = path.join(tempDir, 'cursors.json');
+    const collector = new MailboxCollector(new CursorStore(cursorPath));
+    const config = { name: '研究邮件', mbox, max_messages: 1, split: { mode: 'heading' as const } };
+
+    // 测试采集源不推进读取位置
+    expect((await collector.testMailboxSource(config)).messages_read).toBe(2);
+
+    const first = await collector.collectFromSource(config);
+    expect(first.items[1].content).toBe('From 本周起，设备厂商交付周期明显缩短，国产化率继续提升。');
+
+    fs.appendFileSync(mbox, toMbox(['promo.eml']));
+    const reloaded = new MailboxCollector(new CursorStore(cursorPath));
+    const second = await reloaded.collectFromSource({ ...config, max_messages: 5 });
+    expect(second.items.map(item => item.title)).toEqual(['每周精选：能源与大宗', '限时优惠']);
+    expect((await reloaded.collectFromSource(config)).messages_read).toBe(0);
+  });
+
+  it('should leave an mbox message that is still being written for the next run', async () => {
+    const mbox = path.join(tempDir, 'newsletters.mbox');
+    // 第一封超过一个读取块
+    const padding = `${'设备订单继续回暖。'.repeat(3000)}\n`;
+    const note = toMbox(['morning-note.eml']).replace('\n\n', `\n\n${padding}`);
+    const digest = toMbox(['weekly-digest.eml']);
+    // 第二封写到一半
+    const cut = digest.lastIndexOf('铜价') + 1;
+    fs.writeFileSync(mbox, note + digest.slice(0, cut));
+    const collector = new MailboxCollector();
+    const config = { name: '研究邮件', mbox, split: { mode: 'heading' as const } };
+
+    const first = await collector.collectFromSource(config);
+    expect(first.messages_read).toBe(1);
+    expect(first.items[0].title).toBe('【宏观】7月制造业PMI回升至荣枯线上方');
+
+    fs.appendFileSync(mbox, digest.slice(cut));
+    const second = await collector.collectFromSource(config);
+    expect(second.items.map(item => item.title)).toEqual(['每周精选：能源与大宗']);
+  });
+
+  it('should require exactly one mailbox location', async () => {
+    const factory = new CollectorFactory();
+
+    expect(factory.validateConfig({ type: 'mailbox', config: { from: ['broker.example.com'] } }))
+      .toEqual({ valid: false, errors: ['config: exactly one of imap, maildir or mbox is required'] });
+    expect(factory.validateConfig({ type: 'mailbox', config: { maildir: './Maildir', mbox: './news.mbox' } }).valid).toBe(false);
+    expect(factory.validateConfig({
+      type: 'mailbox',
+      config: { imap: { host: 'imap.example.com', user: 'news', password: 'secret' }, split: { mode: 'heading' } }
+    }).valid).toBe(true);
+
+    const missing = await new MailboxCollector().collectFromSource({ name: '缺失', mbox: path.join(tempDir, 'missing.mbox') });
+    expect(missing.error).toBe(`mbox file not found: ${path.join(tempDir, 'missing.mbox')}`);
+  });
+
+  it('should keep the IMAP password out of the persisted schedule', () => {
+    const statePath = path.join(tempDir, 'schedule.json');
+    const imap = { host: 'imap.example.com', user: 'news', password: 'plain-imap-password' };
+    const scheduler = new CollectionScheduler(jest.fn(), { state_path: statePath });
+
+    scheduler.schedule({
+      id: 'source_mail',
+      source_type: 'mailbox',
+      source_config: { type: 'mailbox', name: '研究邮件', config: { imap } },
+      schedule: '0 */5 * * * *',
+      enabled: true
+    });
+    scheduler.schedule({
+      id: 'source_mail_env',
+      source_type: 'mailbox',
+      source_config: { type: 'mailbox', name: '研究邮件', config: { imap: { ...imap, password: '${RESEARCH_IMAP_PASSWORD}' } } },
+      schedule: '0 */5 * * * *',
+      enabled: true
+    });
+
+    const tasks = JSON.parse(fs.readFileSync(statePath, 'utf8')).tasks;
+    expect(tasks.map((task: any) => task.source_config.config.imap.password)).toEqual(['[REDACTED]', '${RESEARCH_IMAP_PASSWORD}']);
+  });
+});
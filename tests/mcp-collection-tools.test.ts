@@ -0,0 +1,177 @@
+import net from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CoordinatorAgent } from '../agents/coordinator-agent';
+import { CommunicationProtocol } from '../shared/communication';
+import { AGENT_PORTS } from '../shared/config';
+import { RouteCatalog } from '../src/catalog/route-catalog';
+import { CollectionControl, CoordinatorClient } from '../src/mcp/agent-client';
+import { MCPServer } from '../src/mcp/server';
+import { NewsRepository } from '../src/storage/repositories/news-repository';
+
+function createControl(): jest.Mocked<CollectionControl> {
+  return {
+    startCollection: jest.fn(),
+    addSource: jest.fn().mockResolvedValue({ success: true, source_id: 'source_1' }),
+    getCollectionStatus: jest.fn().mockResolvedValue([
+      { source_id: 'source_1', source_name: '证监会要闻', enabled: true },
+      { source_id: 'source_2', source_name: '交易所公告', enabled: true },
+      { source_id: 'source_3', source_name: '已停用', enabled: false },
+    ]),
+  };
+}
+
+async function connect(collectionControl: CollectionControl, repository: Partial<NewsRepository> = {}): Promise<Client> {
+  const server = new MCPServer(repository as NewsRepository, { getRiskAlerts: jest.fn() }, collectionControl, {} as RouteCatalog);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+  await server.createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+function resultText(result: any): string {
+  return result.content[0].text;
+}
+
+describe('MCPServer collection tools', () => {
+  it('should validate add_source config before forwarding it', async () => {
+    const control = createControl();
+    const client = await connect(control);
+
+    const added = await client.callTool({
+      name: 'add_source',
+      arguments: { type: 'rss', name: '证监会要闻', config: { url: 'https://rsshub.example.com/csrc/news', max_items: 20 } },
+    });
+    expect(added.isError).toBeFalsy();
+    expect(JSON.parse(resultText(added))).toEqual({ success: true, source_id: 'source_1' });
+
+    const invalid = await client.callTool({ name: 'add_source', arguments: { type: 'rss', name: '缺少地址', config: { max_items: 20 } } });
+    expect(invalid.isError).toBe(true);
+    expect(resultText(invalid)).toContain('Invalid source config for rss: url:');
+
+    const local = await client.callTool({ name: 'add_source', arguments: { type: 'file', name: '系统目录', config: { directory: '/etc' } } });
+    expect(local.isError).toBe(true);
+    expect(resultText(local)).toBe('Error: Invalid source config for file: Local path is outside the allowed roots: /etc');
+
+    const mailbox = await client.callTool({ name: 'add_source', arguments: { type: 'mailbox', name: '邮件', config: { mbox: '/var/mail/root' } } });
+    expect(mailbox.isError).toBe(true);
+
+    // 插件类型由采集代理校验
+    const plugin = await client.callTool({ name: 'add_source', arguments: { type: 'exchange-notice', name: '插件', config: {} } });
+    expect(plugin.isError).toBeFalsy();
+
+    expect(control.addSource).toHaveBeenCalledTimes(2);
+    expect(control.addSource).toHaveBeenCalledWith(expect.objectContaining({ type: 'rss', name: '证监会要闻' }));
+  });
+
+  it('should collect enabled sources, save the items and report progress', async () => {
+    const control = createControl();
+    control.startCollection.mockImplementation(async (source: string) => {
+      if (source === 'source_2') {
+        throw new Error('Collection timed out');
+      }
+      return {
+        success: true,
+        result: {
+          source_id: source,
+          collected_count: 1,
+          processing_time: 12,
+          news_items: [{
+            id: 'rss_1',
+            title: '证监会发布新规',
+            content: '正文',
+            url: 'https://example.com/1',
+            source: '证监会要闻',
+            publish_time: '2025-08-04T01:00:00.000Z',
+            collected_at: '2025-08-04T01:05:00.000Z',
+          }],
+        },
+      };
+    });
+    const repository = { saveBatch: jest.fn().mockResolvedValue([{ id: 'rss_1', cluster_id: 'rss_1', duplicate_of: null }]) };
+    const client = await connect(control, repository);
+    const progress: Array<{ progress: number; total?: number }> = [];
+
+    const result = await client.callTool({ name: 'collect_now', arguments: {} }, undefined, {
+      onprogress: (update) => { progress.push(update); },
+    });
+
+    expect(JSON.parse(resultText(result))).toEqual({
+      total_sources: 2,
+      total_saved: 1,
+      results: [
+        { source_id: 'source_1', collected_count: 1, saved_count: 1, duplicate_count: 0, processing_time: 12 },
+        { source_id: 'source_2', collected_count: 0, saved_count: 0, duplicate_count: 0, error: 'Collection timed out' },
+      ],
+    });
+    expect(control.startCollection).toHaveBeenCalledTimes(2);
+    expect(repository.saveBatch.mock.calls[0][0][0].publish_time).toEqual(new Date('2025-08-04T01:00:00.000Z'));
+    expect(progress).toEqual([{ progress: 0, total: 2 }, { progress: 1, total: 2 }, { progress: 2, total: 2 }]);
+  });
+
+  it('should list collection status', async () => {
+    const client = await connect(createControl());
+
+    const result = await client.callTool({ name: 'get_collection_status', arguments: {} });
+
+    expect(JSON.parse(resultText(result)).count).toBe(3);
+  });
+});
+
+describe('CoordinatorClient', () => {
+  const originalPorts = { ...AGENT_PORTS };
+  const collector = new CommunicationProtocol('collector-agent', 0);
+  let coordinator: CoordinatorAgent;
+
+  // 协调代理按配置端口监听，先取一个空闲端口
+  function freePort(): Promise<number> {
+    return new Promise(resolve => {
+      const probe = net.createServer().listen(0, () => {
+        const port = (probe.address() as net.AddressInfo).port;
+        probe.close(() => resolve(port));
+      });
+    });
+  }
+
+  beforeAll(async () => {
+    collector.registerQueryHandler('add_source', async (data) => ({ success: true, source_id: 'source_9', name: data.source_config.name }));
+    collector.registerQueryHandler('get_collection_status', async () => [{ source_id: 'source_9', enabled: true }]);
+    collector.registerQueryHandler('start_collection', async (data) => {
+      throw new Error(`Source not found: ${data.source_id}`);
+    });
+    const server = collector.start();
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    AGENT_PORTS.collector = (server.address() as net.AddressInfo).port;
+
+    AGENT_PORTS.coordinator = await freePort();
+    coordinator = new CoordinatorAgent({
+      agent_name: 'coordinator',
+      agent_type: 'coordinator',
+      capabilities: [],
+      dependencies: [],
+      port: AGENT_PORTS.coordinator,
+      host: 'localhost',
+      log_level: 'error',
+    });
+    await coordinator.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+  });
+
+  afterAll(async () => {
+    await coordinator.stop();
+    collector.stop();
+    Object.assign(AGENT_PORTS, originalPorts);
+  });
+
+  it('should forward collection queries to the collector through the coordinator', async () => {
+    const client = new CoordinatorClient(2000);
+
+    await expect(client.addSource({ type: 'rss', name: '证监会要闻', config: { url: 'https://rsshub.example.com/csrc/news' } }))
+      .resolves.toEqual({ success: true, source_id: 'source_9', name: '证监会要闻' });
+    await expect(client.getCollectionStatus()).resolves.toEqual([{ source_id: 'source_9', enabled: true }]);
+    await expect(client.startCollection('missing')).rejects.toThrow('Source not found: missing');
+    await expect(CommunicationProtocol.query('coordinator', 'forward_query', { action: 'add_source' }, 2000))
+      .rejects.toThrow('agent and action are required');
+  });
+});
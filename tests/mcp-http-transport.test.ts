@@ -0,0 +1,216 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { APIServer } from '../src/api/server';
+import { RouteCatalog } from '../src/catalog/route-catalog';
+import config from '../src/config';
+import { CollectionControl, RiskAlertSource } from '../src/mcp/agent-client';
+import { MCPHttpTransport } from '../src/mcp/http-transport';
+import { MCPServer } from '../src/mcp/server';
+import { NewsRepository } from '../src/storage/repositories/news-repository';
+
+const API_KEY = 'test-mcp-key-0123456789';
+
+function createMCPServer(): MCPServer {
+  const riskAlertSource: RiskAlertSource = { getRiskAlerts: jest.fn().mockResolvedValue([]) };
+  const collectionControl: CollectionControl = {
+    startCollection: jest.fn(),
+    addSource: jest.fn(),
+    getCollectionStatus: jest.fn().mockResolvedValue([]),
+  };
+  return new MCPServer({} as NewsRepository, riskAlertSource, collectionControl, {} as RouteCatalog);
+}
+
+interface SSEStream {
+  status: number;
+  nextEvent(): Promise<{ event: string; data: string }>;
+  closed: Promise<void>;
+}
+
+// 读取 SSE 事件流，按空行切分事件，忽略 keep-alive 注释行
+function openSSE(url: string, headers: Record<string, string>): Promise<SSEStream> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(url, { headers }, res => {
+      const events: Array<{ event: string; data: string }> = [];
+      const waiters: Array<(event: { event: string; data: string }) => void> = [];
+      let buffer = '';
+
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        let index: number;
+        while ((index = buffer.indexOf('\n\n')) !== -1) {
+          const block = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          const event = { event: 'message', data: '' };
+          for (const line of block.split('\n')) {
+            if (line.startsWith('event: ')) event.event = line.slice(7);
+            if (line.startsWith('data: ')) event.data = line.slice(6);
+          }
+          if (block.startsWith(':')) continue;
+          const waiter = waiters.shift();
+          if (waiter) waiter(event); else events.push(event);
+        }
+      });
+
+      resolve({
+        status: res.statusCode || 0,
+        nextEvent: () => {
+          const event = events.shift();
+          return event ? Promise.resolve(event) : new Promise(done => waiters.push(done));
+        },
+        closed: new Promise(done => res.on('close', () => done())),
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('MCPHttpTransport', () => {
+  let transport: MCPHttpTransport;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    transport = new MCPHttpTransport(createMCPServer(), { apiKey: API_KEY, sessionTimeout: 60000, maxSessions: 1 });
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', transport.createRouter());
+    server = app.listen(0, '127.0.0.1');
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await transport.closeAll();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should accept the API key as a bearer token or X-API-Key header', async () => {
+    const bearer = await fetch(`${baseUrl}/sessions`, { headers: { Authorization: `Bearer ${API_KEY}` } });
+    expect(bearer.status).toBe(200);
+    const body: any = await bearer.json();
+    expect(body.data).toEqual({ sessions: [], max_sessions: 1 });
+
+    const apiKey = await fetch(`${baseUrl}/sessions`, { headers: { 'X-API-Key': API_KEY } });
+    expect(apiKey.status).toBe(200);
+  });
+
+  it('should reject missing and wrong keys', async () => {
+    expect((await fetch(`${baseUrl}/sessions`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/sessions`, { headers: { Authorization: 'Bearer wrong-key' } })).status).toBe(401);
+    // 长度相同但内容不同
+    const sameLength = 'x'.repeat(API_KEY.length);
+    expect((await fetch(`${baseUrl}/sessions`, { headers: { 'X-API-Key': sameLength } })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/sse`, { headers: { Authorization: `Basic ${API_KEY}` } })).status).toBe(401);
+  });
+
+  it('should route messages to the SSE session and close it on request', async () => {
+    const headers = { Authorization: `Bearer ${API_KEY}` };
+    const stream = await openSSE(`${baseUrl}/sse`, headers);
+    expect(stream.status).toBe(200);
+
+    const endpoint = await stream.nextEvent();
+    expect(endpoint.event).toBe('endpoint');
+    expect(endpoint.data).toMatch(/^\/mcp\/messages\?sessionId=[\w-]+$/);
+    const sessionId = endpoint.data.split('sessionId=')[1];
+
+    const sessions: any = await (await fetch(`${baseUrl}/sessions`, { headers })).json();
+    expect(sessions.data.sessions.map((session: { id: string }) => session.id)).toEqual([sessionId]);
+
+    // 超过会话上限
+    expect((await fetch(`${baseUrl}/sse`, { headers })).status).toBe(503);
+
+    const accepted = await fetch(`${baseUrl}/messages?sessionId=${sessionId}`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      }),
+    });
+    expect(accepted.status).toBe(202);
+
+    const reply = await stream.nextEvent();
+    expect(reply.event).toBe('message');
+    expect(JSON.parse(reply.data)).toMatchObject({ id: 1, result: { serverInfo: { name: 'ai-news-collector-mcp' } } });
+
+    const unknown = await fetch(`${baseUrl}/messages?sessionId=missing`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(unknown.status).toBe(404);
+
+    expect((await fetch(`${baseUrl}/sessions/${sessionId}`, { method: 'DELETE', headers })).status).toBe(204);
+    await stream.closed;
+    expect(transport.getSessionCount()).toBe(0);
+    expect((await fetch(`${baseUrl}/sessions/${sessionId}`, { method: 'DELETE', headers })).status).toBe(404);
+  });
+});
+
+describe('APIServer MCP mount', () => {
+  const original = { httpEnabled: config.mcp.httpEnabled, apiKey: config.security.apiKey };
+
+  afterEach(() => {
+    config.mcp.httpEnabled = original.httpEnabled;
+    config.security.apiKey = original.apiKey;
+  });
+
+  it('should not mount the transport without a real API key', () => {
+    const collectionControl = { startCollection: jest.fn(), addSource: jest.fn(), getCollectionStatus: jest.fn() };
+    const create = () => new APIServer(createMCPServer(), {} as RouteCatalog, collectionControl);
+    config.mcp.httpEnabled = true;
+
+    config.security.apiKey = 'your-secret-key-here';
+    expect(create().hasMCPTransport()).toBe(false);
+    config.security.apiKey = '  ';
+    expect(create().hasMCPTransport()).toBe(false);
+
+    config.security.apiKey = API_KEY;
+    expect(create().hasMCPTransport()).toBe(true);
+
+    config.mcp.httpEnabled = false;
+    expect(create().hasMCPTransport()).toBe(false);
+  });
+
+  it('should require the API key to enable catalog routes', async () => {
+    const routeCatalog = { enableRoutes: jest.fn().mockResolvedValue({ added: 1, results: [] }) } as unknown as RouteCatalog;
+    const collectionControl = { startCollection: jest.fn(), addSource: jest.fn(), getCollectionStatus: jest.fn() };
+    config.security.apiKey = API_KEY;
+    const apiServer = new APIServer(undefined, routeCatalog, collectionControl);
+    const server = await apiServer.start(0);
+    const port = (server.address() as AddressInfo).port;
+    const enable = (headers: Record<string, string>) => fetch(`http://127.0.0.1:${port}/api/routes/enable`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ category: 'regulatory_authorities' }),
+    });
+
+    try {
+      expect((await enable({})).status).toBe(401);
+      expect((await enable({ 'X-API-Key': 'wrong-key' })).status).toBe(401);
+      expect(routeCatalog.enableRoutes).not.toHaveBeenCalled();
+
+      expect((await enable({ Authorization: `Bearer ${API_KEY}` })).status).toBe(200);
+      expect(routeCatalog.enableRoutes).toHaveBeenCalledWith(expect.objectContaining({ category: 'regulatory_authorities' }), collectionControl);
+
+      // 未配置密钥时一律拒绝
+      config.security.apiKey = 'your-secret-key-here';
+      const placeholder = new APIServer(undefined, routeCatalog, collectionControl);
+      const placeholderServer = await placeholder.start(0);
+      const placeholderPort = (placeholderServer.address() as AddressInfo).port;
+      const rejected = await fetch(`http://127.0.0.1:${placeholderPort}/api/routes/enable`, {
+        method: 'POST',
+        headers: { 'X-API-Key': 'your-secret-key-here', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ category: 'regulatory_authorities' }),
+      });
+      await placeholder.stop();
+      expect(rejected.status).toBe(401);
+    } finally {
+      await apiServer.stop();
+    }
+  });
+});
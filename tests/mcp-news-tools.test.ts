@@ -0,0 +1,126 @@
+import Database from 'better-sqlite3';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { NewsItem } from '../shared/types';
+import { RouteCatalog } from '../src/catalog/route-catalog';
+import { CollectionControl } from '../src/mcp/agent-client';
+import { MCPServer } from '../src/mcp/server';
+import { NewsRepository } from '../src/storage/repositories/news-repository';
+
+function createNews(overrides: Partial<NewsItem>): NewsItem {
+  return {
+    id: 'rss_default',
+    title: '默认标题',
+    content: '',
+    url: 'https://example.com/default',
+    source: '示例来源',
+    publish_time: new Date('2025-08-04T02:00:00Z'),
+    collected_at: new Date('2025-08-04T02:05:00Z'),
+    raw_data: {},
+    ...overrides,
+  };
+}
+
+const NEWS: NewsItem[] = [
+  createNews({ id: 'rss_1', source: '证监会要闻', title: '证监会发布信息披露新规', content: '规范上市公司信息披露', url: 'https://csrc.example.com/1', publish_time: new Date('2025-08-04T01:00:00Z') }),
+  createNews({ id: 'rss_2', source: '证监会要闻', title: '央行宣布降准0.5个百分点', content: '释放长期资金约1万亿元', url: 'https://csrc.example.com/2', publish_time: new Date('2025-08-04T03:00:00Z') }),
+  createNews({ id: 'rss_3', source: '财经快讯', title: '【快讯】央行宣布降准0.5个百分点', content: '降准落地', url: 'https://flash.example.com/3', publish_time: new Date('2025-08-04T04:00:00Z') }),
+  createNews({ id: 'rss_4', source: '财经快讯', title: '沪指午间收涨1.2%', content: '券商板块领涨', url: 'https://flash.example.com/4', publish_time: new Date('2025-08-05T04:00:00Z') }),
+  createNews({ id: 'rss_5', source: '财经快讯', title: '两市成交额突破万亿', content: '成交活跃', url: 'https://flash.example.com/5', publish_time: new Date('2025-08-06T04:00:00Z') }),
+];
+
+function resultText(result: any): string {
+  return result.content[0].text;
+}
+
+function resultJson(result: any): any {
+  return JSON.parse(resultText(result));
+}
+
+describe('MCPServer news tools', () => {
+  let db: Database.Database;
+  let client: Client;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    const repository = new NewsRepository(db);
+    const server = new MCPServer(repository, { getRiskAlerts: jest.fn() }, {} as CollectionControl, {} as RouteCatalog);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+    await server.createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+    // 仓库在构造后异步建表，连接完成后再写入
+    await repository.saveBatch(NEWS);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    db.close();
+  });
+
+  it('should search news by keyword, source and date range, newest first', async () => {
+    const all = resultJson(await client.callTool({ name: 'search_news', arguments: { query: '降准' } }));
+    expect(all.items.map((item: NewsItem) => item.id)).toEqual(['rss_3', 'rss_2']);
+
+    const limited = resultJson(await client.callTool({ name: 'search_news', arguments: { query: '降准', limit: 1 } }));
+    expect(limited).toMatchObject({ count: 1, items: [{ id: 'rss_3' }] });
+
+    const filtered = resultJson(await client.callTool({
+      name: 'search_news',
+      arguments: { query: '央行', source: '证监会要闻', start_date: '2025-08-04T00:00:00Z', end_date: '2025-08-04T23:59:59Z' },
+    }));
+    expect(filtered.items.map((item: NewsItem) => item.id)).toEqual(['rss_2']);
+  });
+
+  it('should reject invalid arguments', async () => {
+    const empty = await client.callTool({ name: 'search_news', arguments: { query: '' } });
+    expect(empty.isError).toBe(true);
+    expect(resultText(empty)).toContain('query');
+
+    const tooMany = await client.callTool({ name: 'get_recent_news', arguments: { limit: 500 } });
+    expect(tooMany.isError).toBe(true);
+
+    const badDate = await client.callTool({ name: 'get_news_stats', arguments: { start_date: '昨天' } });
+    expect(badDate.isError).toBe(true);
+    expect(resultText(badDate)).toContain('start_date');
+  });
+
+  it('should return a news item with related coverage or a not-found error', async () => {
+    const item = resultJson(await client.callTool({ name: 'get_news_by_id', arguments: { id: 'rss_2' } }));
+    expect(item).toMatchObject({ id: 'rss_2', title: '央行宣布降准0.5个百分点' });
+    expect(item.related).toEqual([{ id: 'rss_3', title: '【快讯】央行宣布降准0.5个百分点', source: '财经快讯', url: 'https://flash.example.com/3' }]);
+
+    const missing = await client.callTool({ name: 'get_news_by_id', arguments: { id: 'rss_missing' } });
+    expect(missing.isError).toBe(true);
+    expect(resultText(missing)).toBe('Error: News not found: rss_missing');
+  });
+
+  it('should list the most recent news, optionally by source', async () => {
+    const recent = resultJson(await client.callTool({ name: 'get_recent_news', arguments: { limit: 2 } }));
+    expect(recent.items.map((item: NewsItem) => item.id)).toEqual(['rss_5', 'rss_4']);
+
+    const bySource = resultJson(await client.callTool({ name: 'get_recent_news', arguments: { source: '证监会要闻' } }));
+    expect(bySource.items.map((item: NewsItem) => item.id)).toEqual(['rss_2', 'rss_1']);
+  });
+
+  it('should list sources and news stats', async () => {
+    const sources = resultJson(await client.callTool({ name: 'list_sources', arguments: {} }));
+    expect(sources).toEqual({
+      count: 2,
+      sources: [
+        { source: '财经快讯', news_count: 3, latest_publish_time: '2025-08-06T04:00:00.000Z', last_collected_at: '2025-08-04T02:05:00.000Z' },
+        { source: '证监会要闻', news_count: 2, latest_publish_time: '2025-08-04T03:00:00.000Z', last_collected_at: '2025-08-04T02:05:00.000Z' },
+      ],
+    });
+
+    const stats = resultJson(await client.callTool({
+      name: 'get_news_stats',
+      arguments: { start_date: '2025-08-04T00:00:00Z', end_date: '2025-08-05T23:59:59Z' },
+    }));
+    expect(stats).toMatchObject({
+      total_news: 4,
+      by_source: { '证监会要闻': 2, '财经快讯': 2 },
+      by_date: { '2025-08-04': 3, '2025-08-05': 1 },
+    });
+  });
+});
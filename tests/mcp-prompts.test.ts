@@ -0,0 +1,126 @@
+import { NewsPromptProvider } from '../src/mcp/prompts';
+import { RiskAlertSource } from '../src/mcp/agent-client';
+import { NewsRepository } from '../src/storage/repositories/news-repository';
+import { NewsItem, RiskAlert } from '../shared/types';
+
+const sampleNews: NewsItem = {
+  id: 'rss_abc',
+  title: '贵州茅台发布半年度业绩预告',
+  content: '公司预计上半年净利润同比增长15%左右。',
+  url: 'https://example.com/news/1',
+  source: '上交所信息披露',
+  publish_time: new Date('2025-08-03T12:00:00Z'),
+  collected_at: new Date('2025-08-03T12:05:00Z'),
+};
+
+const sampleAlert: RiskAlert = {
+  id: 'alert_1',
+  news_id: 'rss_abc',
+  risk_type: 'financial',
+  severity: 'high',
+  description: '业绩增速放缓',
+  confidence: 0.82,
+  related_entities: ['600519'],
+  created_at: new Date('2025-08-03T12:10:00Z'),
+};
+
+function createRepository(): NewsRepository {
+  return {
+    getNewsByDateRange: jest.fn().mockResolvedValue([sampleNews]),
+    searchNews: jest.fn().mockResolvedValue([sampleNews]),
+    getNews: jest.fn().mockResolvedValue([]),
+  } as unknown as NewsRepository;
+}
+
+function promptText(result: { messages: Array<{ content: any }> }): string {
+  return result.messages[0].content.text;
+}
+
+describe('NewsPromptProvider', () => {
+  it('should list prompt templates with their arguments', () => {
+    const provider = new NewsPromptProvider(createRepository(), { getRiskAlerts: jest.fn() });
+
+    const prompts = provider.listPrompts();
+
+    expect(prompts.map(prompt => prompt.name)).toEqual([
+      'morning_ashare_briefing',
+      'ticker_risk_digest',
+      'source_sentiment_comparison',
+    ]);
+    expect(prompts[1].arguments?.find(argument => argument.name === 'ticker')?.required).toBe(true);
+  });
+
+  it('should render the morning briefing between the previous close and the open', async () => {
+    const repository = createRepository();
+    const riskAlertSource: RiskAlertSource = { getRiskAlerts: jest.fn().mockResolvedValue([sampleAlert]) };
+    const provider = new NewsPromptProvider(repository, riskAlertSource);
+
+    const result = await provider.getPrompt('morning_ashare_briefing', { date: '2025-08-05', limit: '10' });
+
+    expect(result.description).toBe('2025-08-05 A股早盘简报');
+    expect(repository.getNewsByDateRange).toHaveBeenCalledWith(
+      new Date('2025-08-04T07:00:00.000Z'),
+      new Date('2025-08-05T01:30:00.000Z'),
+      10
+    );
+    expect(riskAlertSource.getRiskAlerts).toHaveBeenCalledWith({
+      severity: ['high', 'critical'],
+      since: new Date('2025-08-04T07:00:00.000Z'),
+    });
+    const text = promptText(result);
+    expect(text).toContain('## 新闻（2025-08-04 15:00 至 2025-08-05 09:30，共 1 条）');
+    expect(text).toContain('- [2025-08-03 20:00] 贵州茅台发布半年度业绩预告（上交所信息披露，ID: rss_abc）');
+    expect(text).toContain('- [high] financial：业绩增速放缓（置信度 0.82，新闻ID: rss_abc）');
+  });
+
+  it('should start the Monday briefing at the Friday close', async () => {
+    const repository = createRepository();
+    const provider = new NewsPromptProvider(repository, { getRiskAlerts: jest.fn().mockResolvedValue([]) });
+
+    // 2025-08-04 为周一
+    const result = await provider.getPrompt('morning_ashare_briefing', { date: '2025-08-04' });
+
+    expect(repository.getNewsByDateRange).toHaveBeenCalledWith(
+      new Date('2025-08-01T07:00:00.000Z'),
+      new Date('2025-08-04T01:30:00.000Z'),
+      30
+    );
+    expect(promptText(result)).toContain('## 新闻（2025-08-01 15:00 至 2025-08-04 09:30');
+  });
+
+  it('should degrade the alert section when the analyzer is unavailable', async () => {
+    const repository = createRepository();
+    const riskAlertSource: RiskAlertSource = { getRiskAlerts: jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED')) };
+    const provider = new NewsPromptProvider(repository, riskAlertSource);
+
+    const result = await provider.getPrompt('ticker_risk_digest', { ticker: '600519' });
+
+    expect(repository.searchNews).toHaveBeenCalledWith('600519', expect.objectContaining({ limit: 30 }));
+    expect(riskAlertSource.getRiskAlerts).toHaveBeenCalledWith(expect.objectContaining({ entity: '600519', news_ids: ['rss_abc'] }));
+    expect(promptText(result)).toContain('请根据以下资料为 600519 撰写近 7 天的风险摘要。');
+    expect(promptText(result)).toContain('- 风险告警数据暂不可用');
+  });
+
+  it('should compare each listed source', async () => {
+    const repository = createRepository();
+    const provider = new NewsPromptProvider(repository, { getRiskAlerts: jest.fn() });
+
+    const result = await provider.getPrompt('source_sentiment_comparison', { sources: '新浪财经, 东方财富', days: '2' });
+
+    expect(repository.getNews).toHaveBeenCalledTimes(2);
+    expect(repository.getNews).toHaveBeenCalledWith(expect.objectContaining({ source: '东方财富', limit: 10 }));
+    expect(result.description).toBe('新浪财经 / 东方财富 情绪对比');
+    expect(promptText(result)).toContain('## 新浪财经（共 0 条）\n- 暂无数据');
+  });
+
+  it('should validate prompt arguments', async () => {
+    const provider = new NewsPromptProvider(createRepository(), { getRiskAlerts: jest.fn() });
+
+    await expect(provider.getPrompt('ticker_risk_digest', {})).rejects.toThrow();
+    await expect(provider.getPrompt('ticker_risk_digest', { ticker: '600519', days: '365' })).rejects.toThrow();
+    await expect(provider.getPrompt('morning_ashare_briefing', { date: '2025/08/04' })).rejects.toThrow();
+    await expect(provider.getPrompt('morning_ashare_briefing', { date: '2025-13-45' })).rejects.toThrow('Invalid briefing date');
+    await expect(provider.getPrompt('source_sentiment_comparison', { sources: ' , ' })).rejects.toThrow('At least one source is required');
+    await expect(provider.getPrompt('unknown_prompt')).rejects.toThrow('Unknown prompt: unknown_prompt');
+  });
+});
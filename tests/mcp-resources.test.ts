@@ -0,0 +1,74 @@
+import { NewsResourceProvider } from '../src/mcp/resources';
+import { NewsRepository } from '../src/storage/repositories/news-repository';
+import { NewsItem } from '../shared/types';
+
+const sampleNews: NewsItem = {
+  id: 'rss_abc',
+  title: '证监会发布新规',
+  content: '正文内容',
+  url: 'https://example.com/news/1',
+  source: '中国证监会',
+  publish_time: new Date('2025-08-03T06:05:00Z'),
+  collected_at: new Date('2025-08-03T06:10:00Z'),
+};
+
+function createRepository(): NewsRepository {
+  return {
+    getRecentNews: jest.fn().mockResolvedValue([sampleNews]),
+    getSources: jest.fn().mockResolvedValue([
+      { source: '中国证监会', news_count: 1, latest_publish_time: sampleNews.publish_time, last_collected_at: sampleNews.collected_at },
+    ]),
+    getNewsById: jest.fn().mockImplementation(async (id: string) => (id === sampleNews.id ? sampleNews : null)),
+    getNewsBySource: jest.fn().mockResolvedValue([sampleNews]),
+    getNewsByDateRange: jest.fn().mockResolvedValue([sampleNews]),
+    getStats: jest.fn().mockResolvedValue({
+      total_news: 1,
+      by_source: { '中国证监会': 1 },
+      by_date: {},
+      average_sentiment: 0,
+      sentiment_distribution: {},
+      top_entities: [],
+    }),
+  } as unknown as NewsRepository;
+}
+
+describe('NewsResourceProvider', () => {
+  it('should list news items, sources and daily reports', async () => {
+    const provider = new NewsResourceProvider(createRepository());
+    const resources = await provider.listResources();
+    const uris = resources.map(resource => resource.uri);
+
+    expect(uris).toContain('news://item/rss_abc');
+    expect(uris).toContain(`news://source/${encodeURIComponent('中国证监会')}/latest`);
+    expect(uris.filter(uri => uri.startsWith('report://summary/'))).toHaveLength(7);
+  });
+
+  it('should read a news item by uri', async () => {
+    const provider = new NewsResourceProvider(createRepository());
+    const content = await provider.readResource('news://item/rss_abc');
+
+    expect(content.mimeType).toBe('application/json');
+    expect(JSON.parse(content.text).title).toBe('证监会发布新规');
+  });
+
+  it('should query the daily report in Beijing time', async () => {
+    const repository = createRepository();
+    const provider = new NewsResourceProvider(repository);
+    const content = await provider.readResource('report://summary/2025-08-03');
+
+    expect(content.mimeType).toBe('text/markdown');
+    expect(content.text).toContain('# 2025-08-03 新闻摘要');
+    expect(content.text).toContain('证监会发布新规');
+    expect(repository.getStats).toHaveBeenCalledWith(
+      new Date('2025-08-02T16:00:00.000Z'),
+      new Date('2025-08-03T15:59:59.999Z')
+    );
+  });
+
+  it('should reject unknown resources', async () => {
+    const provider = new NewsResourceProvider(createRepository());
+
+    await expect(provider.readResource('news://item/missing')).rejects.toThrow('News not found');
+    await expect(provider.readResource('unknown://foo')).rejects.toThrow('Unknown resource');
+  });
+});
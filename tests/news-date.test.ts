@@ -0,0 +1,59 @@
+import { NewsDateUtils } from '../shared/utils';
+
+// 北京时间 2025-08-04 14:00
+const now = new Date('2025-08-04T06:00:00Z');
+
+describe('NewsDateUtils.parse', () => {
+  it('should keep explicit timezones as exact', () => {
+    expect(NewsDateUtils.parse('Mon, 04 Aug 2025 08:30:00 +0800', { now })).toEqual({ date: new Date('2025-08-04T00:30:00Z'), confidence: 'exact' });
+    expect(NewsDateUtils.parse('2025-08-04T11:30:00+08:00', { now })).toEqual({ date: new Date('2025-08-04T03:30:00Z'), confidence: 'exact' });
+    expect(NewsDateUtils.parse('Mon Aug 04 2025 08:30:00 CST', { now }).date).toEqual(new Date('2025-08-04T00:30:00Z'));
+    expect(NewsDateUtils.parse(1754287800, { now })).toEqual({ date: new Date('2025-08-04T06:10:00Z'), confidence: 'exact' });
+    expect(NewsDateUtils.parse('1754287800000', { now }).date).toEqual(new Date('2025-08-04T06:10:00Z'));
+  });
+
+  it('should interpret dates without timezone as Asia/Shanghai', () => {
+    const cases: Array<[string, string]> = [
+      ['2025年8月3日 14:05', '2025-08-03T06:05:00Z'],
+      ['２０２５年０８月０３日 １４：０５', '2025-08-03T06:05:00Z'],
+      ['8月3日 下午2:05', '2025-08-03T06:05:00Z'],
+      ['2025-08-03 14:05:30', '2025-08-03T06:05:30Z'],
+      ['2025/8/3', '2025-08-02T16:00:00Z'],
+      ['Mon, 04 Aug 2025 08:30:00', '2025-08-04T00:30:00Z'],
+      ['08-03 14:05', '2025-08-03T06:05:00Z'],
+      // 省略年份且晚于当前时间，视为去年
+      ['12-30 10:00', '2024-12-30T02:00:00Z'],
+    ];
+
+    for (const [text, expected] of cases) {
+      expect(NewsDateUtils.parse(text, { now })).toEqual({ date: new Date(expected), confidence: 'inferred' });
+    }
+
+    expect(NewsDateUtils.parse('2025-08-03 14:05', { now, timezone: 'America/New_York' }).date).toEqual(new Date('2025-08-03T18:05:00Z'));
+  });
+
+  it('should resolve relative times against now', () => {
+    const cases: Array<[string, string]> = [
+      ['刚刚', '2025-08-04T06:00:00Z'],
+      ['3分钟前', '2025-08-04T05:57:00Z'],
+      ['半小时前', '2025-08-04T05:30:00Z'],
+      ['2小时前', '2025-08-04T04:00:00Z'],
+      ['2 hours ago', '2025-08-04T04:00:00Z'],
+      ['昨天 09:30', '2025-08-03T01:30:00Z'],
+      ['前天 23:10', '2025-08-02T15:10:00Z'],
+      ['13:00', '2025-08-04T05:00:00Z'],
+      // 晚于当前时间的时刻视为昨天
+      ['15:30', '2025-08-03T07:30:00Z'],
+    ];
+
+    for (const [text, expected] of cases) {
+      expect(NewsDateUtils.parse(text, { now })).toEqual({ date: new Date(expected), confidence: 'inferred' });
+    }
+  });
+
+  it('should fall back to now for missing or unparseable values', () => {
+    for (const value of [undefined, '', '第3期', 'Issue 5', '2025/13/01']) {
+      expect(NewsDateUtils.parse(value, { now })).toEqual({ date: now, confidence: 'fallback' });
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import Database from 'better-sqlite3';
+import { NewsItem } from '../shared/types';
+import { NewsIdentityUtils } from '../shared/utils';
+import { NewsRepository } from '../src/storage/repositories/news-repository';
+
+function createNews(overrides: Partial<NewsItem>): NewsItem {
+  return {
+    id: 'rss_default',
+    title: '默认标题',
+    content: '',
+    url: 'https://example.com/default',
+    source: '示例来源',
+    publish_time: new Date('2025-08-04T02:00:00Z'),
+    collected_at: new Date('2025-08-04T02:05:00Z'),
+    raw_data: {},
+    ...overrides,
+  };
+}
+
+const ARTICLE = '中国人民银行今日宣布，决定于8月15日下调金融机构存款准备金率0.5个百分点（不含已执行5%存款准备金率的金融机构）。' +
+  '此次降准预计释放长期资金约1万亿元，有助于保持银行体系流动性合理充裕，支持实体经济发展。' +
+  '央行有关负责人表示，稳健的货币政策要灵活适度、精准有效，引导金融机构加大对小微企业、民营企业的支持力度。' +
+  '市场人士认为，降准将降低银行资金成本，通过银行传导可促进降低社会综合融资成本。';
+const EDITED_ARTICLE = ARTICLE.replace('今日', '周一').replace('市场人士认为', '分析人士指出');
+
+describe('NewsIdentityUtils', () => {
+  it('should canonicalize urls by dropping tracking parameters, fragments and scheme', () => {
+    expect(NewsIdentityUtils.canonicalizeUrl('https://Example.com:443/news/1/?utm_source=rss&spm=a1.b2&b=2&a=1#top'))
+      .toBe('example.com/news/1?a=1&b=2');
+    expect(NewsIdentityUtils.canonicalizeUrl('http://example.com/news/1?a=1&b=2'))
+      .toBe('example.com/news/1?a=1&b=2');
+    // 子域名和可能影响内容的参数保留
+    expect(NewsIdentityUtils.canonicalizeUrl('https://m.example.com/news?source=sse&from=list&_t=1'))
+      .toBe('m.example.com/news?_t=1&from=list&source=sse');
+    expect(NewsIdentityUtils.canonicalizeUrl('https://www.example.com/news')).toBe('www.example.com/news');
+  });
+
+  it('should generate the same id for the same url and guid', () => {
+    const first = NewsIdentityUtils.generateNewsId('rss', 'https://example.com/a?utm_medium=feed', 'guid-1');
+    const second = NewsIdentityUtils.generateNewsId('rss', 'https://example.com/a', 'guid-1');
+
+    expect(first).toBe(second);
+    expect(first).toMatch(/^rss_[0-9a-f]{20}$/);
+    expect(NewsIdentityUtils.generateNewsId('rss', 'https://example.com/a', 'guid-2')).not.toBe(first);
+  });
+
+  it('should score similar titles and near-duplicate content', () => {
+    expect(NewsIdentityUtils.titleSimilarity('【快讯】央行宣布降准0.5个百分点', '央行宣布降准0.5个百分点！')).toBe(1);
+    expect(NewsIdentityUtils.titleSimilarity('央行宣布降准', '沪指收涨1%')).toBeLessThan(0.2);
+
+    const distance = NewsIdentityUtils.hammingDistance(NewsIdentityUtils.simhash(ARTICLE), NewsIdentityUtils.simhash(EDITED_ARTICLE));
+    expect(distance).toBeLessThanOrEqual(6);
+  });
+});
+
+describe('NewsRepository deduplication', () => {
+  let db: Database.Database;
+  let repository: NewsRepository;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    repository = new NewsRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should upsert re-polled items without creating duplicates', async () => {
+    const item = createNews({ id: 'rss_1', title: '央行宣布降准', url: 'https://a.example.com/1' });
+
+    await repository.saveBatch([item]);
+    const [cluster] = await repository.saveBatch([{ ...item, collected_at: new Date() }]);
+
+    expect(cluster).toEqual({ cluster_id: 'rss_1', duplicate_of: undefined, match_reason: undefined });
+    expect((await repository.getStats()).total_news).toBe(1);
+  });
+
+  it('should link the same story across sources into one cluster', async () => {
+    const clusters = await repository.saveBatch([
+      createNews({ id: 'rss_a', source: '来源A', title: '央行宣布降准0.5个百分点', url: 'https://a.example.com/1', content: ARTICLE }),
+      createNews({ id: 'rss_b', source: '来源B', title: '【快讯】央行宣布降准0.5个百分点', url: 'https://a.example.com/9' }),
+      createNews({ id: 'rss_c', source: '来源C', title: '降准落地：释放长期资金约1万亿元', url: 'https://c.example.com/3', content: EDITED_ARTICLE }),
+      createNews({ id: 'rss_d', source: '来源D', title: '转载', url: 'https://a.example.com/1?utm_source=weibo' }),
+      createNews({ id: 'rss_e', source: '来源A', title: '沪指午间收涨1.2%', url: 'https://a.example.com/2' }),
+    ]);
+
+    expect(clusters.map(cluster => cluster.match_reason)).toEqual([undefined, 'title', 'simhash', 'url', undefined]);
+    expect(clusters.slice(0, 4).every(cluster => cluster.cluster_id === 'rss_a')).toBe(true);
+    expect(clusters[4].cluster_id).toBe('rss_e');
+
+    const related = await repository.getRelatedNews('rss_b');
+    expect(related.map(item => item.id).sort()).toEqual(['rss_a', 'rss_c', 'rss_d']);
+
+    const stored = await repository.getNewsById('rss_c');
+    expect(stored?.raw_data.cluster).toEqual({ cluster_id: 'rss_a', duplicate_of: 'rss_a', match_reason: 'simhash' });
+  });
+
+  it('should link the same headline from different sites by title', async () => {
+    const clusters = await repository.saveBatch([
+      createNews({ id: 'rss_a', source: '来源A', title: '央行宣布降准0.5个百分点', url: 'https://a.example.com/1' }),
+      createNews({ id: 'rss_b', source: '来源B', title: '【快讯】央行宣布降准0.5个百分点！', url: 'https://b.example.com/7', publish_time: new Date('2025-08-04T03:30:00Z') }),
+    ]);
+
+    expect(clusters[1]).toEqual({ cluster_id: 'rss_a', duplicate_of: 'rss_a', match_reason: 'title' });
+  });
+
+  it('should not cluster generic titles across sources', async () => {
+    const clusters = await repository.saveBatch([
+      createNews({ id: 'rss_a', source: '交易所A', title: '关于召开2025年第一次临时股东大会的通知', url: 'https://a.example.com/1' }),
+      // 同一站点内仍按标题匹配
+      createNews({ id: 'rss_b', source: '交易所A', title: '关于召开2025年第一次临时股东大会的通知', url: 'https://cdn.example.net/1' }),
+      // 不同来源：标题较长但发布时间相隔一天
+      createNews({ id: 'rss_c', source: '交易所B', title: '关于召开2025年第一次临时股东大会的通知', url: 'https://b.example.com/1', publish_time: new Date('2025-08-05T02:00:00Z') }),
+      createNews({ id: 'rss_d', source: '来源C', title: '午间收评', url: 'https://c.example.com/1' }),
+      // 不同来源：标题过短
+      createNews({ id: 'rss_e', source: '来源D', title: '午间收评', url: 'https://d.example.com/1' }),
+    ]);
+
+    expect(clusters.map(cluster => cluster.cluster_id)).toEqual(['rss_a', 'rss_a', 'rss_c', 'rss_d', 'rss_e']);
+    expect(clusters[1].match_reason).toBe('title');
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { PDFEnricher } from '../agents/collector-agent/collectors/pdf-enricher';
+import { extractPDF, PDFExtractionError } from '../agents/collector-agent/collectors/pdf-extractor';
+import { RSSCollector } from '../agents/collector-agent/collectors/rss-collector';
+import { NewsItem } from '../shared/types';
+
+const PDF = fs.readFileSync(path.join(__dirname, 'fixtures', 'pdf', 'interim-results.pdf'));
+
+function createItem(url: string, rawData: Record<string, any> = {}): NewsItem {
+  return {
+    id: `rss_${url}`,
+    title: '2025年半年度报告',
+    content: '2025年半年度报告',
+    url,
+    source: '上交所信息披露',
+    publish_time: new Date('2025-08-04T00:30:00Z'),
+    collected_at: new Date(),
+    raw_data: rawData
+  };
+}
+
+describe('extractPDF', () => {
+  it('should keep reading order per page and detect aligned tables', async () => {
+    const pdf = await extractPDF(PDF);
+
+    expect(pdf.page_count).toBe(2);
+    expect(pdf.truncated).toBe(false);
+    expect(pdf.text.startsWith('Announcement on the 2025 Interim Results\nThe Board announces')).toBe(true);
+    expect(pdf.text).toContain('Item | 2025 H1 | 2024 H1\nRevenue | 1,250.4 | 1,080.2');
+    expect(pdf.tables).toEqual([{
+      page: 2,
+      rows: [
+        ['Item', '2025 H1', '2024 H1'],
+        ['Revenue', '1,250.4', '1,080.2'],
+        ['Net profit', '210.7', '185.3'],
+        ['EPS (CNY)', '0.42', '0.37']
+      ]
+    }]);
+
+    // 页码映射对应 text 中的位置
+    const [first, second] = pdf.pages;
+    expect(pdf.text.slice(first.start, first.end)).toBe(first.text);
+    expect(pdf.text.slice(second.start, second.end).startsWith('Key financial data')).toBe(true);
+    expect(first.tables).toEqual([]);
+  });
+
+  it('should read CJK text set in fonts that are not embedded', async () => {
+    // STSong-Light + UniGB-UCS2-H，需要 pdfjs 自带的 CMap
+    const pdf = await extractPDF(fs.readFileSync(path.join(__dirname, 'fixtures', 'pdf', 'interim-results-cjk.pdf')));
+
+    expect(pdf.title).toBe('Interim Report CJK');
+    expect(pdf.text).toBe('关于2025年半年度报告的公告\n本公司董事会及全体董事保证本公告内容真实、准确和完整。\n营业收入同比增长15.8%。');
+  });
+
+  it('should stop at max_pages and reject non-PDF data', async () => {
+    const pdf = await extractPDF(PDF, { max_pages: 1 });
+    expect(pdf).toMatchObject({ page_count: 2, truncated: true, tables: [] });
+    expect(pdf.pages).toHaveLength(1);
+
+    await expect(extractPDF(Buffer.from('<html>登录后查看</html>'))).rejects.toThrow(PDFExtractionError);
+    await expect(extractPDF(Buffer.from('%PDF-1.4\ngarbage'))).rejects.toThrow('Failed to read PDF');
+  });
+});
+
+describe('PDFEnricher', () => {
+  const requests: string[] = [];
+  let delayMs = 0;
+  const server = http.createServer((req, res) => {
+    requests.push(req.url || '');
+    setTimeout(() => {
+      if (req.url === '/feed.xml') {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml' });
+        res.end(`<?xml version="1.0"?><rss version="2.0"><channel><title>上交所信息披露</title>
+          <item><title>2025年半年度报告</title><link>${baseUrl()}/disclosure/600000_20250804.pdf</link><guid>600000_20250804</guid></item>
+          <item><title>关于召开业绩说明会的公告</title><link>${baseUrl()}/notice/1.html</link><description>详见公告</description></item>
+        </channel></rss>`);
+      } else if (/\.pdf(\?|$)/i.test(req.url || '')) {
+        res.writeHead(200, { 'Content-Type': 'application/pdf', 'Content-Length': PDF.length });
+        res.end(PDF);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    }, delayMs);
+  });
+
+  function baseUrl(): string {
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeAll(() => new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve)));
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests.length = 0;
+    delayMs = 0;
+  });
+
+  it('should replace the content with PDF text and store a page map', async () => {
+    const enricher = new PDFEnricher();
+    const items = [
+      createItem(`${baseUrl()}/disclosure/600000_20250804.pdf`),
+      createItem(`${baseUrl()}/notice/2.html`, { enclosures: [{ url: `${baseUrl()}/files/2.PDF?t=1` }] }),
+      createItem(`${baseUrl()}/notice/3.html`)
+    ];
+
+    const result = await enricher.enrich(items, { name: '上交所信息披露' });
+
+    expect(result).toMatchObject({ extracted_count: 2, failed_count: 0 });
+    const [announcement, attachment, page] = result.items;
+    expect(announcement.content).toContain('Net profit | 210.7 | 185.3');
+    expect(announcement.raw_data).toMatchObject({
+      snippet: '2025年半年度报告',
+      pdf: {
+        status: 'extracted',
+        url: `${baseUrl()}/disclosure/600000_20250804.pdf`,
+        size: PDF.length,
+        page_count: 2,
+        truncated: false,
+        pages: [{ page: 1, start: 0, table_count: 0 }, { page: 2, table_count: 1 }]
+      }
+    });
+    expect(announcement.raw_data?.pdf.tables[0].rows).toHaveLength(4);
+    expect(attachment.raw_data?.pdf.url).toBe(`${baseUrl()}/files/2.PDF?t=1`);
+    expect(page).toBe(items[2]);
+
+    // 同一链接在缓存有效期内不重复下载
+    await enricher.enrich([items[0]], { name: '上交所信息披露' });
+    expect(requests.filter(url => url.endsWith('600000_20250804.pdf'))).toHaveLength(1);
+  });
+
+  it('should enforce size and timeout limits', async () => {
+    const item = createItem(`${baseUrl()}/disclosure/large.pdf`);
+
+    const tooLarge = await new PDFEnricher().enrich([item], { name: '上交所信息披露', pdf_max_bytes: 500 });
+    expect(tooLarge.failed_count).toBe(1);
+    expect(tooLarge.items[0].content).toBe('2025年半年度报告');
+    expect(tooLarge.items[0].raw_data?.pdf).toEqual({
+      status: 'failed',
+      url: item.url,
+      error: 'PDF exceeds size limit of 500 bytes'
+    });
+
+    delayMs = 300;
+    const slow = await new PDFEnricher(undefined, { download_timeout_ms: 50 }).enrich([item], { name: '上交所信息披露' });
+    expect(slow.items[0].raw_data?.pdf).toMatchObject({ status: 'failed', error: expect.stringContaining('timeout') });
+  });
+
+  it('should extract linked PDFs when collecting an RSS source with extract_pdf', async () => {
+    const collector = new RSSCollector();
+
+    const result = await collector.collectFromSource({ url: `${baseUrl()}/feed.xml`, name: '上交所信息披露', extract_pdf: true });
+
+    expect(result.pdf_extracted_count).toBe(1);
+    expect(result.items[0].content).toContain('The interim results have been reviewed by the audit committee.');
+    expect(result.items[1].content).toBe('详见公告');
+  });
+});
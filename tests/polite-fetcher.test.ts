@@ -0,0 +1,152 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PoliteFetcher, RobotsDisallowedError } from '../agents/collector-agent/collectors/polite-fetcher';
+import { isAllowedByRobots, parseRobots } from '../agents/collector-agent/collectors/robots';
+import { WebCollector } from '../agents/collector-agent/collectors/web-collector';
+
+const ROBOTS = `
+# 全站默认不允许抓取
+User-agent: *
+Disallow: /
+
+User-agent: AI-News-Collector
+User-agent: OtherBot
+Disallow: /private
+Allow: /private/public
+Disallow: /*.pdf$
+Crawl-delay: 0.2
+`;
+
+describe('parseRobots', () => {
+  const robots = parseRobots(ROBOTS, 'AI-News-Collector/1.0 (+https://example.com/bot)');
+
+  it('should pick the most specific user-agent group', () => {
+    expect(robots.crawl_delay_ms).toBe(200);
+    expect(isAllowedByRobots(robots, 'https://example.com/news/1.html')).toBe(true);
+    expect(isAllowedByRobots(parseRobots(ROBOTS, 'SomeOtherCrawler/2.0'), 'https://example.com/news/1.html')).toBe(false);
+  });
+
+  it('should apply the longest matching rule and wildcards', () => {
+    expect(isAllowedByRobots(robots, 'https://example.com/private/report.html')).toBe(false);
+    expect(isAllowedByRobots(robots, 'https://example.com/private/public/notice.html')).toBe(true);
+    expect(isAllowedByRobots(robots, 'https://example.com/files/annual.pdf')).toBe(false);
+    expect(isAllowedByRobots(robots, 'https://example.com/files/annual.pdf?download=1')).toBe(true);
+  });
+
+  it('should allow everything for empty robots.txt', () => {
+    expect(isAllowedByRobots(parseRobots('', 'AI-News-Collector'), 'https://example.com/any')).toBe(true);
+  });
+});
+
+// 本地站点：记录请求时间和并发数
+class MockSite {
+  robots: string | null = ROBOTS;
+  requests: Array<{ path: string; at: number }> = [];
+  robotsRequests = 0;
+  active = 0;
+  peak = 0;
+  responseDelayMs = 0;
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.url === '/robots.txt') {
+      this.robotsRequests++;
+      res.writeHead(this.robots === null ? 404 : 200, { 'Content-Type': 'text/plain' });
+      res.end(this.robots ?? 'Not Found');
+      return;
+    }
+
+    this.requests.push({ path: req.url || '/', at: Date.now() });
+    this.active++;
+    this.peak = Math.max(this.peak, this.active);
+    setTimeout(() => {
+      this.active--;
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end('<html><head><title>公告</title></head><body><div class="item"><h2><a href="/news/1.html">公告一</a></h2></div></body></html>');
+    }, this.responseDelayMs);
+  }
+}
+
+describe('PoliteFetcher', () => {
+  let site: MockSite;
+
+  beforeEach(async () => {
+    site = new MockSite();
+    await site.listen();
+  });
+
+  afterEach(async () => {
+    await site.close();
+  });
+
+  it('should block disallowed urls and cache robots.txt per origin', async () => {
+    const fetcher = new PoliteFetcher({ min_interval_ms: 0 });
+
+    await expect(fetcher.get(`${site.baseUrl}/private/report.html`)).rejects.toThrow(RobotsDisallowedError);
+    await fetcher.get(`${site.baseUrl}/private/public/notice.html`);
+
+    expect(site.robotsRequests).toBe(1);
+    expect(site.requests.map(request => request.path)).toEqual(['/private/public/notice.html']);
+    expect(fetcher.getStats()[0]).toMatchObject({
+      requests: 1,
+      robots_blocked: 1,
+      crawl_delay_ms: 200,
+      last_blocked_url: `${site.baseUrl}/private/report.html`
+    });
+  });
+
+  it('should space requests to the same host by Crawl-delay', async () => {
+    const fetcher = new PoliteFetcher({ min_interval_ms: 0 });
+
+    await Promise.all([1, 2, 3].map(n => fetcher.get(`${site.baseUrl}/news/${n}.html`)));
+
+    const gaps = site.requests.slice(1).map((request, index) => request.at - site.requests[index].at);
+    expect(gaps.every(gap => gap >= 190)).toBe(true);
+    expect(fetcher.getStats()[0].delayed_ms).toBeGreaterThanOrEqual(380);
+  });
+
+  it('should limit concurrent requests per host', async () => {
+    site.robots = null;
+    site.responseDelayMs = 30;
+    const fetcher = new PoliteFetcher({ min_interval_ms: 0, max_concurrent_per_host: 2 });
+
+    await Promise.all([1, 2, 3, 4, 5].map(n => fetcher.get(`${site.baseUrl}/news/${n}.html`)));
+
+    expect(site.requests).toHaveLength(5);
+    expect(site.peak).toBe(2);
+    expect(fetcher.getStats()[0]).toMatchObject({ requests: 5, active: 0, queued: 0 });
+  });
+
+  it('should skip robots.txt when a source opts out', async () => {
+    const fetcher = new PoliteFetcher({ min_interval_ms: 0 });
+
+    await fetcher.get(`${site.baseUrl}/private/report.html`, {}, { respect_robots: false });
+
+    expect(site.robotsRequests).toBe(0);
+    expect(site.requests).toHaveLength(1);
+  });
+
+  it('should surface robots.txt blocks as collection errors', async () => {
+    const fetcher = new PoliteFetcher({ min_interval_ms: 0 });
+    const collector = new WebCollector(undefined, undefined, undefined, fetcher);
+
+    const blocked = await collector.collectFromSource({ url: `${site.baseUrl}/private/list.html`, name: 'Private' });
+    const allowed = await collector.collectFromSource({ url: `${site.baseUrl}/news/list.html`, name: 'News' });
+
+    expect(blocked.error).toBe(`Blocked by robots.txt: ${site.baseUrl}/private/list.html`);
+    expect(allowed.error).toBeUndefined();
+    expect(site.requests.map(request => request.path)).toEqual(['/news/list.html']);
+  });
+});
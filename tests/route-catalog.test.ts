@@ -0,0 +1,105 @@
+import { expandPattern, RouteCatalog, RouteSelection } from '../src/catalog/route-catalog';
+import { CollectionControl } from '../src/mcp/agent-client';
+
+describe('expandPattern', () => {
+  it('should substitute required, optional and wildcard parameters', () => {
+    expect(expandPattern('/eastmoney/report/:category', { category: 'strategyreport' })).toBe('/eastmoney/report/strategyreport');
+    expect(expandPattern('/sse/disclosure/:query?')).toBe('/sse/disclosure');
+    expect(expandPattern('/gov/csrc/news/:suffix*', { suffix: 'c100028/common_xq_list.shtml' }))
+      .toBe('/gov/csrc/news/c100028/common_xq_list.shtml');
+    expect(expandPattern('/eastmoney/search/:keyword', { keyword: '贵州茅台' }))
+      .toBe(`/eastmoney/search/${encodeURIComponent('贵州茅台')}`);
+  });
+
+  it('should reject missing required parameters', () => {
+    expect(() => expandPattern('/gov/csrc/auditstatus/:apply_id')).toThrow('Missing required route parameter: apply_id');
+  });
+});
+
+describe('RouteCatalog', () => {
+  const catalog = RouteCatalog.fromFiles('http://rsshub.local:1200/');
+
+  it('should load both catalogs with impact levels and polling frequency', () => {
+    const regulators = catalog.listRoutes({ catalog: 'ashare', category: 'regulatory_authorities' });
+    expect(regulators.length).toBeGreaterThan(0);
+    expect(regulators.every(route => route.impact_level === 'high')).toBe(true);
+
+    const jinse = catalog.getRoute('realtime:financial_markets:/jinse/lives');
+    expect(jinse).toMatchObject({ update_frequency: '秒级', poll_interval: 30, schedule: '*/30 * * * * *', impact_level: 'low' });
+
+    const categories = catalog.listCategories('ashare');
+    expect(categories.map(category => category.category)).toContain('stock_exchanges');
+  });
+
+  it('should build RSS source configs against the configured RSSHub url', () => {
+    const route = catalog.getRoute('ashare:stock_exchanges:/sse/inquire')!;
+    const source = catalog.toSourceConfig(route, {}, 20);
+
+    expect(source).toMatchObject({
+      type: 'rss',
+      name: '上海证券交易所 - 上交所问询函',
+      schedule: '0 * * * * *',
+      priority: 1,
+      config: {
+        url: 'http://rsshub.local:1200/sse/inquire',
+        category: 'stock_exchanges',
+        impact_level: 'high',
+        update_frequency: 60,
+        max_items: 20,
+        extract_pdf: true,
+      },
+    });
+    const regulator = catalog.toSourceConfig(catalog.getRoute('ashare:regulatory_authorities:/gov/csrc/news/:suffix*')!);
+    expect(regulator.config.extract_pdf).toBeUndefined();
+  });
+
+  it('should enable a category and skip routes missing parameters', async () => {
+    const control: CollectionControl = {
+      startCollection: jest.fn(),
+      getCollectionStatus: jest.fn().mockResolvedValue([]),
+      addSource: jest.fn().mockImplementation(async source => ({ success: true, source_id: `source_${source.name}` })),
+    };
+
+    const result = await catalog.enableRoutes({ catalog: 'ashare', category: 'regulatory_authorities' }, control);
+
+    expect(result.enabled.map(item => item.route_id)).toContain('ashare:regulatory_authorities:/gov/csrc/news/:suffix*');
+    expect(result.skipped).toContainEqual({
+      route_id: 'ashare:regulatory_authorities:/gov/csrc/auditstatus/:apply_id',
+      reason: 'Missing required route parameter: apply_id',
+    });
+    expect(control.addSource).toHaveBeenCalledTimes(result.enabled.length);
+  });
+
+  it('should skip routes that are already registered', async () => {
+    const registered: any[] = [];
+    const control: CollectionControl = {
+      startCollection: jest.fn(),
+      getCollectionStatus: jest.fn().mockImplementation(async () => registered),
+      addSource: jest.fn().mockImplementation(async source => {
+        const source_id = `source_${registered.length + 1}`;
+        registered.push({ source_id, source_name: source.name, source_url: source.config.url, enabled: true });
+        return { success: true, source_id };
+      }),
+    };
+    const selection: RouteSelection = { catalog: 'ashare', category: 'regulatory_authorities' };
+
+    const first = await catalog.enableRoutes(selection, control);
+    const second = await catalog.enableRoutes(selection, control);
+
+    expect(first.enabled.length).toBeGreaterThan(0);
+    expect(second.enabled).toEqual([]);
+    expect(second.skipped).toContainEqual({
+      route_id: first.enabled[0].route_id,
+      reason: 'Already registered',
+      source_id: first.enabled[0].source_id,
+    });
+    expect(control.addSource).toHaveBeenCalledTimes(first.enabled.length);
+
+    // 重复的路由ID只注册一次
+    const route_id = first.enabled[0].route_id;
+    registered.length = 0;
+    const repeated = await catalog.enableRoutes({ route_ids: [route_id, route_id] }, control);
+    expect(repeated.enabled).toHaveLength(1);
+    expect(repeated.skipped).toEqual([{ route_id, reason: 'Already registered', source_id: repeated.enabled[0].source_id }]);
+  });
+});
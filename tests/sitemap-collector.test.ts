@@ -0,0 +1,150 @@
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import { ArticleEnricher } from '../agents/collector-agent/collectors/article-enricher';
+import { ExtractedArticle } from '../agents/collector-agent/collectors/article-extractor';
+import { parseSitemap, SitemapParseError } from '../agents/collector-agent/collectors/sitemap-parser';
+import { SitemapCollector } from '../agents/collector-agent/collectors/sitemap-collector';
+import { WebCollector } from '../agents/collector-agent/collectors/web-collector';
+
+jest.mock('axios');
+
+const mockedGet = axios.get as jest.Mock;
+
+function fixture(name: string): Buffer {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'sitemaps', name));
+}
+
+const SITEMAPS: Record<string, Buffer> = {
+  'https://ir.example.com/sitemap-index.xml': fixture('sitemap-index.xml'),
+  'https://ir.example.com/sitemap-news.xml': fixture('news-sitemap.xml'),
+  'https://ir.example.com/sitemap-pages.xml': gzipSync(fixture('pages-sitemap.xml'))
+};
+
+function createArticle(url: string, published?: string): ExtractedArticle {
+  return {
+    url,
+    title: `页面标题 ${path.basename(url)}`,
+    content: `正文 ${url}`.repeat(10),
+    content_html: '',
+    published: published ? new Date(published) : undefined
+  };
+}
+
+function createCollector(published: Record<string, string> = {}) {
+  const webCollector = { extractArticle: jest.fn(async (url: string) => createArticle(url, published[url])) };
+  return {
+    webCollector,
+    collector: new SitemapCollector(undefined, undefined, new ArticleEnricher(webCollector as unknown as WebCollector))
+  };
+}
+
+describe('parseSitemap', () => {
+  it('should read Google News sitemap fields', () => {
+    const sitemap = parseSitemap(fixture('news-sitemap.xml').toString('utf8'));
+
+    expect(sitemap.type).toBe('urlset');
+    expect(sitemap.entries[0]).toEqual({
+      loc: 'https://ir.example.com/news/2025/0804-buyback.html',
+      lastmod: undefined,
+      news: {
+        title: '示例集团关于回购公司股份的公告',
+        publication_date: '2025-08-04T09:15:00+08:00',
+        publication_name: '示例集团投资者关系',
+        language: 'zh',
+        keywords: ['回购', '股份'],
+        stock_tickers: ['SHA:600000']
+      },
+      images: ['https://ir.example.com/images/buyback.jpg']
+    });
+  });
+
+  it('should read sitemap indexes and reject other documents', () => {
+    expect(parseSitemap(fixture('sitemap-index.xml').toString('utf8')).entries.map(entry => entry.loc)).toHaveLength(3);
+    expect(() => parseSitemap('<rss><channel/></rss>')).toThrow(SitemapParseError);
+  });
+});
+
+describe('SitemapCollector', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    mockedGet.mockImplementation(async (url: string) => SITEMAPS[url]
+      ? { status: 200, data: SITEMAPS[url], headers: { 'content-type': 'application/xml' } }
+      : { status: 404, statusText: 'Not Found', data: Buffer.from(''), headers: {} });
+  });
+
+  it('should follow the index newest first and extract articles', async () => {
+    const { collector, webCollector } = createCollector({
+      'https://ir.example.com/news/2025/0801-undated.html': '2025-08-01T08:00:00+08:00'
+    });
+
+    const result = await collector.collectFromSource({
+      url: 'https://ir.example.com/sitemap-index.xml',
+      name: 'IR Sitemap',
+      url_pattern: '/news/',
+      max_sitemaps: 2
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.sitemaps_fetched).toBe(3);
+    expect(result.items.map(item => item.url)).toEqual([
+      'https://ir.example.com/news/2025/0804-buyback.html',
+      'https://ir.example.com/news/2025/0803-results.html',
+      'https://ir.example.com/news/2025/0802-meeting.html',
+      'https://ir.example.com/news/2025/0801-undated.html'
+    ]);
+    expect(webCollector.extractArticle).toHaveBeenCalledTimes(4);
+
+    const [buyback, results, meeting, undated] = result.items;
+    expect(buyback.title).toBe('示例集团关于回购公司股份的公告');
+    expect(buyback.content).toContain('正文 https://ir.example.com/news/2025/0804-buyback.html');
+    expect(buyback.raw_data).toMatchObject({ lead_image: 'https://ir.example.com/images/buyback.jpg', language: 'zh' });
+    expect(results.publish_time.toISOString()).toBe('2025-08-03T10:00:00.000Z');
+    expect(meeting.title).toBe('页面标题 0802-meeting.html');
+    expect(undated.publish_time.toISOString()).toBe('2025-08-01T00:00:00.000Z');
+    expect(undated.raw_data?.publish_time_confidence).toBe('inferred');
+  });
+
+  it('should skip sitemaps and urls older than the last run', async () => {
+    const { collector } = createCollector({
+      'https://ir.example.com/news/2025/0801-undated.html': '2025-08-01T08:00:00+08:00'
+    });
+
+    const result = await collector.collectFromSource(
+      { url: 'https://ir.example.com/sitemap-index.xml', name: 'IR Sitemap', url_pattern: '/news/' },
+      { since: new Date('2025-08-03T12:00:00+08:00') }
+    );
+
+    // 2019 年的子 sitemap 不再请求
+    expect(mockedGet.mock.calls.map(call => call[0])).not.toContain('https://ir.example.com/sitemap-2019.xml');
+    expect(result.items.map(item => item.url)).toEqual([
+      'https://ir.example.com/news/2025/0804-buyback.html',
+      'https://ir.example.com/news/2025/0803-results.html'
+    ]);
+  });
+
+  it('should use news titles without fetching pages when extraction is disabled', async () => {
+    const { collector, webCollector } = createCollector();
+
+    const result = await collector.collectFromSource({
+      url: 'https://ir.example.com/sitemap-news.xml',
+      name: 'News Sitemap',
+      extract_articles: false,
+      max_items: 1
+    });
+
+    expect(webCollector.extractArticle).not.toHaveBeenCalled();
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({ title: '示例集团关于回购公司股份的公告', content: '示例集团关于回购公司股份的公告' });
+  });
+
+  it('should report errors for unreachable sitemaps', async () => {
+    const { collector } = createCollector();
+
+    const result = await collector.collectFromSource({ url: 'https://ir.example.com/missing.xml', name: 'Missing' });
+
+    expect(result.collected_count).toBe(0);
+    expect(result.error).toBe('HTTP 404: Not Found');
+  });
+});